@@ -0,0 +1,118 @@
+/**
+ * Next.js App Router API Route
+ * 施設単位のキャッシュ無効化API（要 x-admin-key ヘッダー）
+ *
+ * GET  /api/admin/cache/facility?placeId=ChIJ...&fullScan=1
+ *   施設に関係するキャッシュキーを名前空間ごとに返す
+ *
+ * POST /api/admin/cache/facility
+ *   { placeId, mode: 'purge' | 'patch', patch?: { name?, address?, phone?, website? }, fullScan?, dryRun?, reason? }
+ *   一覧・詳細・紹介文のキャッシュをまとめて削除または訂正し、詳細ページと施設を含む地域一覧ページを再検証する
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { revalidatePath } from 'next/cache';
+import { authenticateAdminRequest } from '@/app/utils/adminAuth';
+import { findKeysForPlaceId, invalidateFacility, type FacilityPatch } from '@/app/utils/cacheAdmin';
+import { revalidateRegionListPage } from '@/app/utils/searchCache';
+
+const PATCH_FIELDS: Array<keyof FacilityPatch> = ['name', 'address', 'phone', 'website'];
+
+export async function GET(request: NextRequest) {
+  const auth = authenticateAdminRequest(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const placeId = searchParams.get('placeId');
+  if (!placeId) {
+    return NextResponse.json({ error: 'placeId parameter is required' }, { status: 400 });
+  }
+
+  try {
+    const keys = await findKeysForPlaceId(placeId, { fullScan: searchParams.get('fullScan') === '1' });
+    return NextResponse.json({ placeId, keys });
+  } catch (error) {
+    console.error('[Facility Invalidate API] Lookup error:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const auth = authenticateAdminRequest(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { placeId, mode, patch, fullScan, dryRun, reason } = body as {
+      placeId?: string;
+      mode?: string;
+      patch?: Record<string, unknown>;
+      fullScan?: boolean;
+      dryRun?: boolean;
+      reason?: string;
+    };
+
+    if (!placeId) {
+      return NextResponse.json({ error: 'placeId is required' }, { status: 400 });
+    }
+    if (mode !== 'purge' && mode !== 'patch') {
+      return NextResponse.json({ error: 'mode must be "purge" or "patch"' }, { status: 400 });
+    }
+
+    // 訂正可能な項目のみ受け付ける
+    const facilityPatch: FacilityPatch = {};
+    for (const field of PATCH_FIELDS) {
+      if (typeof patch?.[field] === 'string') {
+        facilityPatch[field] = (patch[field] as string).trim();
+      }
+    }
+    if (mode === 'patch' && Object.keys(facilityPatch).length === 0) {
+      return NextResponse.json({ error: `patch must contain one of: ${PATCH_FIELDS.join(', ')}` }, { status: 400 });
+    }
+
+    const result = await invalidateFacility({
+      placeId,
+      mode,
+      patch: facilityPatch,
+      fullScan: !!fullScan,
+      dryRun: !!dryRun,
+      actor: auth.actor,
+      reason,
+    });
+
+    // 詳細ページ・施設を含む地域一覧ページ（ISR）を再生成させる
+    if (!result.dryRun) {
+      for (const slug of [result.placeId, ...result.slugs]) {
+        revalidatePath(`/detail/${slug}`);
+      }
+      // 削除・訂正した検索キャッシュ（search:{キャッシュID}）の地域
+      for (const key of [...result.deleted, ...result.patched]) {
+        if (key.startsWith('search:')) {
+          revalidateRegionListPage(key.substring('search:'.length));
+        }
+      }
+    }
+
+    return NextResponse.json({ success: true, ...result });
+
+  } catch (error) {
+    console.error('[Facility Invalidate API] Error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to invalidate facility',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * Next.js App Router API Route
+ * キャッシュ管理API（要 x-admin-key ヘッダー）
+ *
+ * GET  /api/admin/cache?view=keys&namespace=search&pattern=*練馬*&limit=100
+ * GET  /api/admin/cache?view=entry&key=search:練馬
+ * GET  /api/admin/cache?view=audit&limit=50
+ * GET  /api/admin/cache?view=metrics
+ * POST /api/admin/cache  { pattern?, namespace?, placeId?, includeIdentity?, dryRun?, reason? }
+ *   施設の識別子（slug: / prefix: / slugs: / shortid:）は includeIdentity: true の場合のみ削除する
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateAdminRequest } from '@/app/utils/adminAuth';
+import { getCacheMetrics } from '@/app/utils/cache';
+import {
+  inspectCacheEntry,
+  isCacheNamespace,
+  listAuditLog,
+  listCacheKeys,
+  purgeCache,
+} from '@/app/utils/cacheAdmin';
+
+function parseLimit(value: string | null, fallback: number): number {
+  const parsed = parseInt(value || '', 10);
+  return isNaN(parsed) || parsed <= 0 ? fallback : Math.min(parsed, 1000);
+}
+
+export async function GET(request: NextRequest) {
+  const auth = authenticateAdminRequest(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const view = searchParams.get('view') || 'keys';
+
+    if (view === 'keys') {
+      const namespace = searchParams.get('namespace');
+      if (namespace && !isCacheNamespace(namespace)) {
+        return NextResponse.json({ error: `Unknown namespace: ${namespace}` }, { status: 400 });
+      }
+      const listing = await listCacheKeys({
+        namespace: namespace && isCacheNamespace(namespace) ? namespace : undefined,
+        pattern: searchParams.get('pattern') || undefined,
+        limit: parseLimit(searchParams.get('limit'), 100),
+      });
+      return NextResponse.json(listing);
+    }
+
+    if (view === 'entry') {
+      const key = searchParams.get('key');
+      if (!key) {
+        return NextResponse.json({ error: 'key parameter is required' }, { status: 400 });
+      }
+      const entry = await inspectCacheEntry(key);
+      return NextResponse.json(entry, { status: entry.exists ? 200 : 404 });
+    }
+
+    if (view === 'audit') {
+      const entries = await listAuditLog(parseLimit(searchParams.get('limit'), 50));
+      return NextResponse.json({ entries });
+    }
+
+    if (view === 'metrics') {
+      return NextResponse.json(getCacheMetrics());
+    }
+
+    return NextResponse.json({ error: `Unknown view: ${view}` }, { status: 400 });
+
+  } catch (error) {
+    console.error('[Cache Admin API] Error:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const auth = authenticateAdminRequest(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { pattern, namespace, placeId, includeIdentity, dryRun, reason } = body as {
+      pattern?: string;
+      namespace?: string;
+      placeId?: string;
+      includeIdentity?: boolean;
+      dryRun?: boolean;
+      reason?: string;
+    };
+
+    if (!pattern && !placeId) {
+      return NextResponse.json({ error: 'pattern or placeId is required' }, { status: 400 });
+    }
+    if (namespace && !isCacheNamespace(namespace)) {
+      return NextResponse.json({ error: `Unknown namespace: ${namespace}` }, { status: 400 });
+    }
+    if (namespace === 'audit') {
+      return NextResponse.json({ error: 'namespace "audit" cannot be purged' }, { status: 400 });
+    }
+
+    const result = await purgeCache({
+      pattern,
+      namespace: namespace && isCacheNamespace(namespace) ? namespace : undefined,
+      placeId,
+      includeIdentity: !!includeIdentity,
+      dryRun: !!dryRun,
+      actor: auth.actor,
+      reason,
+    });
+
+    return NextResponse.json({ success: true, ...result });
+
+  } catch (error) {
+    console.error('[Cache Admin API] Purge error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to purge cache',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
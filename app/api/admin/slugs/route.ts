@@ -0,0 +1,60 @@
+/**
+ * Next.js App Router API Route
+ * 施設slugのレジストリ管理API（要 x-admin-key ヘッダー）
+ *
+ * GET /api/admin/slugs?view=unresolved&limit=100
+ *   詳細ページへのアクセスで解決できなかったslug（アクセス回数の多い順）
+ * GET /api/admin/slugs?view=facility&placeId=ChIJ...
+ *   施設に発行したslugの一覧と正規URL（未発行なら path: null）
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateAdminRequest } from '@/app/utils/adminAuth';
+import { getSlugRecord, listUnresolvedSlugs } from '@/app/utils/slugRegistry';
+
+function parseLimit(value: string | null, fallback: number): number {
+  const parsed = parseInt(value || '', 10);
+  return isNaN(parsed) || parsed <= 0 ? fallback : Math.min(parsed, 1000);
+}
+
+export async function GET(request: NextRequest) {
+  const auth = authenticateAdminRequest(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const view = searchParams.get('view') || 'unresolved';
+
+    if (view === 'unresolved') {
+      const listing = await listUnresolvedSlugs(parseLimit(searchParams.get('limit'), 100));
+      return NextResponse.json(listing);
+    }
+
+    if (view === 'facility') {
+      const placeId = searchParams.get('placeId');
+      if (!placeId) {
+        return NextResponse.json({ error: 'placeId parameter is required' }, { status: 400 });
+      }
+      const record = await getSlugRecord(placeId);
+      return NextResponse.json({
+        placeId,
+        path: record?.path || null,
+        slugs: record?.slugs || [],
+      });
+    }
+
+    return NextResponse.json({ error: `Unknown view: ${view}` }, { status: 400 });
+
+  } catch (error) {
+    console.error('[Slug Admin API] Error:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Next.js App Router API Route
+ * 検索キャッシュのウォーミングAPI（要 x-admin-key ヘッダー）
+ *
+ * GET  /api/admin/warm-cache?maxPriority=3
+ *   都道府県ごとのカバレッジ・進捗・当日の予算消費を返す
+ *
+ * POST /api/admin/warm-cache
+ *   { maxPriority?, prefectures?, concurrency?, dailyBudget?, maxRequests?, restart?, dryRun? }
+ *   時間上限まで実行し、続きは次回の呼び出し（cron等）で再開する
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateAdminRequest } from '@/app/utils/adminAuth';
+import { writeAuditEntry } from '@/app/utils/cacheAdmin';
+import {
+  DEFAULT_WARM_MAX_PRIORITY,
+  getWarmingBudget,
+  getWarmingCoverage,
+  getWarmingPlanId,
+  getWarmingProgress,
+  runCacheWarming,
+} from '@/app/utils/cacheWarmer';
+
+// 1回の呼び出しで検索を行う時間（Gemini + Place Details の所要時間を残して打ち切る）
+const RUN_TIME_LIMIT_MS = 240 * 1000;
+
+export const maxDuration = 300;
+
+function parsePriority(value: unknown): number {
+  const parsed = typeof value === 'number' ? value : parseInt(String(value ?? ''), 10);
+  return isNaN(parsed) ? DEFAULT_WARM_MAX_PRIORITY : Math.min(Math.max(parsed, 1), 5);
+}
+
+export async function GET(request: NextRequest) {
+  const auth = authenticateAdminRequest(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const maxPriority = parsePriority(searchParams.get('maxPriority'));
+
+    const [coverage, budget, progress] = await Promise.all([
+      getWarmingCoverage(maxPriority),
+      getWarmingBudget(),
+      getWarmingProgress(getWarmingPlanId(maxPriority)),
+    ]);
+
+    return NextResponse.json({ coverage, budget, progress });
+  } catch (error) {
+    console.error('[Warm Cache API] Error:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const auth = authenticateAdminRequest(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { maxPriority, prefectures, concurrency, dailyBudget, maxRequests, restart, dryRun } = body as {
+      maxPriority?: number;
+      prefectures?: string[];
+      concurrency?: number;
+      dailyBudget?: number;
+      maxRequests?: number;
+      restart?: boolean;
+      dryRun?: boolean;
+    };
+
+    if (prefectures !== undefined && (!Array.isArray(prefectures) || prefectures.some((code) => !/^\d{2}$/.test(String(code))))) {
+      return NextResponse.json({ error: 'prefectures must be an array of 2-digit codes' }, { status: 400 });
+    }
+
+    const summary = await runCacheWarming({
+      maxPriority: parsePriority(maxPriority),
+      prefectures,
+      concurrency: typeof concurrency === 'number' ? Math.min(concurrency, 5) : undefined,
+      dailyBudget: typeof dailyBudget === 'number' ? dailyBudget : undefined,
+      maxRequests: typeof maxRequests === 'number' ? maxRequests : undefined,
+      timeLimitMs: RUN_TIME_LIMIT_MS,
+      restart: !!restart,
+      dryRun: !!dryRun,
+    });
+
+    if (!summary.dryRun && summary.stoppedBy !== 'locked') {
+      await writeAuditEntry({
+        action: 'warm-cache',
+        actor: auth.actor,
+        dryRun: false,
+        target: { planId: summary.progress.planId },
+        matchedCount: summary.thisRun.requests,
+        deletedCount: 0,
+        sampleKeys: [],
+      });
+    }
+
+    return NextResponse.json(summary, { status: summary.stoppedBy === 'locked' ? 409 : 200 });
+  } catch (error) {
+    console.error('[Warm Cache API] Error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to warm cache',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -2,100 +2,112 @@
  * Next.js App Router API Route
  * サーバーサイドローマ字変換API
  * Kuroshiro + Kuromoji AnalyzerをNode.js環境で実行
+ *
+ * - texts で複数のテキストをまとめて変換できる（1テキストずつPOSTしない）
+ * - 1テキストは MAX_ROMAJI_TEXT_LENGTH 文字まで（一括変換では超えた項目だけエラーにする）
+ * - 短いテキストの変換結果は romaji: 名前空間にメモ化する（app/utils/romajiConversion.ts）
+ * - style で表記方式（hepburn / kunrei / passport / hepburn-ascii）を指定する（省略時は hepburn）
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import Kuroshiro from 'kuroshiro';
-import KuromojiAnalyzer from 'kuroshiro-analyzer-kuromoji';
+import { DEFAULT_ROMAJI_STYLE, ROMAJI_STYLES, type RomajiStyle } from '@/app/utils/kuroshiro';
+import { convertTextsToRomaji, MAX_ROMAJI_TEXT_LENGTH } from '@/app/utils/romajiConversion';
 
-// Kuroshiroインスタンスをモジュールレベルでキャッシュ
-let kuroshiroInstance: Kuroshiro | null = null;
-let initPromise: Promise<void> | null = null;
+// 1リクエストで変換できるテキスト数
+const MAX_BATCH_SIZE = 100;
 
 /**
- * Kuroshiroの初期化（1度のみ実行）
+ * 変換できないテキストの理由（変換できれば null）
  */
-async function initKuroshiro(): Promise<void> {
-  if (kuroshiroInstance && kuroshiroInstance._analyzer) {
-    return; // 既に初期化済み
+function validateText(text: unknown): string | null {
+  if (typeof text !== 'string' || text.trim() === '') {
+    return 'text must be a non-empty string';
   }
-
-  if (initPromise) {
-    return initPromise; // 初期化中の場合は待機
+  if (text.length > MAX_ROMAJI_TEXT_LENGTH) {
+    return `text must not exceed ${MAX_ROMAJI_TEXT_LENGTH} characters`;
   }
-
-  initPromise = (async () => {
-    try {
-      console.log('[Kuroshiro] Initializing...');
-      kuroshiroInstance = new Kuroshiro();
-
-      // Vercel環境でも辞書ファイルを見つけられるように明示的にパスを指定
-      const dictPath = process.env.VERCEL
-        ? '/var/task/node_modules/kuromoji/dict'
-        : undefined;
-
-      console.log('[Kuroshiro] Dict path:', dictPath || 'default');
-
-      await kuroshiroInstance.init(new KuromojiAnalyzer({
-        dictPath: dictPath
-      }));
-
-      console.log('[Kuroshiro] Initialized successfully');
-    } catch (error) {
-      console.error('[Kuroshiro] Initialization failed:', error);
-      kuroshiroInstance = null;
-      throw error;
-    }
-  })();
-
-  return initPromise;
+  return null;
 }
 
 /**
  * POST /api/convert-romaji
  * 日本語テキストをローマ字に変換
+ *
+ * 単体: { text: "東京都練馬区", style?: "hepburn" } → { romaji, original, style, cached }
+ * 一括: { texts: ["練馬", "谷原"], style?: "hepburn" } → { style, results: [{ text, romaji, cached } | { text, romaji: null, error }] }
+ *   （不正なテキスト・変換に失敗したテキストはその項目だけ error を返す）
  */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { text } = body;
+    const { text, texts } = body;
+    const style: RomajiStyle = body.style ?? DEFAULT_ROMAJI_STYLE;
 
-    if (!text || typeof text !== 'string') {
+    if (!ROMAJI_STYLES.includes(style)) {
       return NextResponse.json(
-        { error: 'text is required' },
+        { error: `style must be one of: ${ROMAJI_STYLES.join(', ')}` },
         { status: 400 }
       );
     }
 
-    console.log(`[Convert Romaji API] Request: "${text}"`);
-
-    // Kuroshiro初期化
-    await initKuroshiro();
-
-    if (!kuroshiroInstance) {
-      throw new Error('Kuroshiro initialization failed');
+    // 一括変換（不正な項目はその項目だけエラーにする）
+    if (texts !== undefined) {
+      if (!Array.isArray(texts) || texts.length === 0) {
+        return NextResponse.json(
+          { error: 'texts must be a non-empty array' },
+          { status: 400 }
+        );
+      }
+      if (texts.length > MAX_BATCH_SIZE) {
+        return NextResponse.json(
+          { error: `texts must not exceed ${MAX_BATCH_SIZE} items` },
+          { status: 400 }
+        );
+      }
+
+      const validTexts = texts.filter((item): item is string => validateText(item) === null);
+      console.log(`[Convert Romaji API] Batch request: ${texts.length} texts (style: ${style})`);
+
+      const conversions = await convertTextsToRomaji(validTexts, style);
+      const byText = new Map(conversions.map((conversion) => [conversion.text, conversion]));
+
+      return NextResponse.json({
+        style,
+        results: texts.map((item) =>
+          typeof item === 'string' && byText.has(item)
+            ? byText.get(item)
+            : { text: item, romaji: null, error: validateText(item) }
+        ),
+      });
     }
 
-    // ローマ字変換
-    const romaji = await kuroshiroInstance.convert(text, {
-      mode: 'normal',
-      to: 'romaji',
-      romajiSystem: 'hepburn'
-    });
+    if (!text || typeof text !== 'string') {
+      return NextResponse.json(
+        { error: 'text is required' },
+        { status: 400 }
+      );
+    }
+    if (text.length > MAX_ROMAJI_TEXT_LENGTH) {
+      return NextResponse.json(
+        { error: `text must not exceed ${MAX_ROMAJI_TEXT_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
 
-    console.log(`[Convert Romaji API] Raw romaji: "${romaji}"`);
+    console.log(`[Convert Romaji API] Request: "${text}" (style: ${style})`);
 
-    // クリーニング処理（スペースを削除してフルネームのローマ字に）
-    const cleaned = romaji
-      .toLowerCase()
-      .replace(/\s+/g, '')            // スペースを削除
-      .replace(/[^a-z0-9]/g, '');     // 英数字以外を削除
+    const [conversion] = await convertTextsToRomaji([text], style);
+    if (conversion.romaji === null) {
+      throw new Error(conversion.error);
+    }
 
-    console.log(`[Convert Romaji API] Cleaned romaji: "${cleaned}"`);
+    console.log(`[Convert Romaji API] Romaji: "${conversion.romaji}"${conversion.cached ? ' (cached)' : ''}`);
 
     return NextResponse.json({
-      romaji: cleaned,
-      original: text
+      romaji: conversion.romaji,
+      original: text,
+      style,
+      cached: conversion.cached
     });
 
   } catch (error) {
@@ -5,171 +5,10 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-
-// 最寄り駅情報の型
-interface NearestStationInfo {
-  name: string;          // 駅名
-  distance: number;      // 距離(m)
-  walkingMinutes: number; // 徒歩時間(分)
-}
-
-/**
- * 2点間の距離を計算 (メートル) - Haversine formula
- */
-function calculateDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
-  const R = 6371000; // 地球の半径 (m)
-  const dLat = (lat2 - lat1) * Math.PI / 180;
-  const dLng = (lng2 - lng1) * Math.PI / 180;
-  const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-            Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-            Math.sin(dLng / 2) * Math.sin(dLng / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
-}
-
-/**
- * 住所から座標を取得 (Geocoding API)
- */
-async function geocodeAddress(address: string, apiKey: string): Promise<{ lat: number; lng: number } | null> {
-  try {
-    const url = `https://maps.googleapis.com/maps/api/geocode/json?address=${encodeURIComponent(address)}&language=ja&key=${apiKey}`;
-    const response = await fetch(url);
-    const data = await response.json();
-
-    if (data.status === 'OK' && data.results.length > 0) {
-      const location = data.results[0].geometry.location;
-      console.log(`[Geocode] Address "${address}" → (${location.lat}, ${location.lng})`);
-      return location;
-    }
-    console.warn(`[Geocode] Failed for address: ${address}, status: ${data.status}`);
-    return null;
-  } catch (error) {
-    console.error('[Geocode] Error:', error);
-    return null;
-  }
-}
-
-/**
- * 座標から最寄り駅を検索 (Places API - Nearby Search)
- */
-async function findNearestStation(
-  lat: number,
-  lng: number,
-  apiKey: string
-): Promise<NearestStationInfo | null> {
-  try {
-    // 半径2km以内の鉄道駅を検索
-    const url = `https://maps.googleapis.com/maps/api/place/nearbysearch/json?location=${lat},${lng}&radius=2000&type=train_station&language=ja&key=${apiKey}`;
-    const response = await fetch(url);
-    const data = await response.json();
-
-    if (data.status === 'OK' && data.results.length > 0) {
-      const station = data.results[0]; // 最も近い駅
-      const stationLat = station.geometry.location.lat;
-      const stationLng = station.geometry.location.lng;
-
-      // 距離計算
-      const distance = calculateDistance(lat, lng, stationLat, stationLng);
-      const walkingMinutes = Math.ceil(distance / 80); // 80m/分で計算
-
-      // 駅名から「駅」を除去（後で「駅」を付けて表示するため）
-      const stationName = station.name.replace(/駅$/, '');
-
-      console.log(`[Station] Found: ${stationName}駅 (${Math.round(distance)}m, 徒歩${walkingMinutes}分)`);
-
-      return {
-        name: stationName,
-        distance: Math.round(distance),
-        walkingMinutes
-      };
-    }
-
-    console.log(`[Station] No station found within 2km, status: ${data.status}`);
-    return null;
-  } catch (error) {
-    console.error('[Station] Error:', error);
-    return null;
-  }
-}
-
-/**
- * Upstash Redis REST API直接呼び出し
- * 方式2: POSTでコマンド配列を送信（最も確実な方法）
- * 参考: https://upstash.com/docs/redis/features/restapi
- */
-async function kvGet(key: string): Promise<string | null> {
-  const baseUrl = process.env.KV_REST_API_URL;
-  const token = process.env.KV_REST_API_TOKEN;
-
-  if (!baseUrl || !token) {
-    console.warn('[KV] Missing credentials');
-    return null;
-  }
-
-  try {
-    console.log(`[KV GET] Requesting key="${key}"`);
-
-    const response = await fetch(baseUrl, {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${token}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(['GET', key]),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.warn(`[KV GET] HTTP ${response.status}: ${errorText}`);
-      return null;
-    }
-
-    const data = await response.json();
-    const hit = data.result !== null && data.result !== undefined;
-    console.log(`[KV GET] key="${key}" → ${hit ? 'HIT (' + String(data.result).length + ' chars)' : 'MISS'}`);
-    return data.result || null;
-  } catch (error) {
-    console.error('[KV GET] Error:', error);
-    return null;
-  }
-}
-
-async function kvSet(key: string, value: string): Promise<boolean> {
-  const baseUrl = process.env.KV_REST_API_URL;
-  const token = process.env.KV_REST_API_TOKEN;
-
-  if (!baseUrl || !token) {
-    console.warn('[KV] Missing credentials');
-    return false;
-  }
-
-  try {
-    console.log(`[KV SET] Storing key="${key}" (${value.length} chars)`);
-
-    const response = await fetch(baseUrl, {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${token}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(['SET', key, value]),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.warn(`[KV SET] HTTP ${response.status}: ${errorText}`);
-      return false;
-    }
-
-    const data = await response.json();
-    const success = data.result === 'OK';
-    console.log(`[KV SET] key="${key}" → ${success ? 'OK' : 'FAILED: ' + JSON.stringify(data)}`);
-    return success;
-  } catch (error) {
-    console.error('[KV SET] Error:', error);
-    return false;
-  }
-}
+import { buildCacheKey, cacheGet, cacheSet } from '@/app/utils/cache';
+import { findNearestStations } from '@/app/utils/stationIndex';
+import { findCachedSearchResult } from '@/app/utils/facilityIndex';
+import type { GeoPoint, NearestStation } from '@/app/types';
 
 /**
  * 外国語が含まれているかチェック
@@ -299,6 +138,10 @@ export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     const { placeId, title, address } = body;
+    const location: GeoPoint | null =
+      typeof body.location?.lat === 'number' && typeof body.location?.lng === 'number'
+        ? { lat: body.location.lat, lng: body.location.lng }
+        : null;
 
     if (!placeId || !title) {
       return NextResponse.json(
@@ -313,12 +156,11 @@ export async function POST(request: NextRequest) {
     const normalizedPlaceId = placeId.replace(/^places\//, '');
     console.log(`[Description API] Normalized placeId: "${normalizedPlaceId}"`);
 
-    // Vercel KVからキャッシュをチェック
-    const cacheKey = `description:${normalizedPlaceId}`;
+    // キャッシュをチェック
+    const cacheKey = buildCacheKey('description', normalizedPlaceId);
     console.log(`[Description Cache] Checking cache with key: "${cacheKey}"`);
 
-    // REST API直接呼び出しでキャッシュをチェック
-    const cachedDescription = await kvGet(cacheKey);
+    const { value: cachedDescription } = await cacheGet<string>('description', normalizedPlaceId);
     if (cachedDescription) {
       console.log(`[Description Cache] ✅ HIT for "${cacheKey}" (${cachedDescription.length} chars)`);
       return NextResponse.json({ description: cachedDescription, cached: true });
@@ -336,24 +178,24 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // 住所がある場合、最寄り駅情報を取得（ハルシネーション防止）
-    let stationInfo: NearestStationInfo | null = null;
-    if (address) {
-      const mapsApiKey = process.env.GOOGLE_MAPS_API_KEY || process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY;
-      if (mapsApiKey) {
-        const coords = await geocodeAddress(address, mapsApiKey);
-        if (coords) {
-          stationInfo = await findNearestStation(coords.lat, coords.lng, mapsApiKey);
-        }
-      } else {
-        console.warn('[Station] GOOGLE_MAPS_API_KEY not configured, skipping station lookup');
-      }
+    // 施設の座標から最寄り駅情報を取得（ハルシネーション防止）
+    // 座標はリクエスト、なければ検索キャッシュから取得し、regions.json の駅データで計算する
+    const coords = location || (await findCachedSearchResult(normalizedPlaceId))?.location || null;
+    const stations: NearestStation[] = coords ? findNearestStations(coords, { limit: 2 }) : [];
+    const stationInfo = stations[0] || null;
+    if (stationInfo) {
+      console.log(`[Station] Found: ${stations.map((s) => `${s.name}駅 (${s.distance}m, 徒歩${s.walkingMinutes}分)`).join(', ')}`);
+    } else {
+      console.log(`[Station] No station found within 2km${coords ? '' : ' (no coordinates)'}`);
     }
 
     // 最寄り駅情報をプロンプト用に整形
-    const stationInfoText = stationInfo
-      ? `最寄り駅: ${stationInfo.name}駅（徒歩約${stationInfo.walkingMinutes}分、約${stationInfo.distance}m）`
-      : '';
+    const stationInfoText = stations
+      .map((station, i) => {
+        const lines = station.lines.length > 0 ? `${station.lines.join('・')}、` : '';
+        return `${i === 0 ? '最寄り駅' : 'その他の駅'}: ${station.name}駅（${lines}徒歩約${station.walkingMinutes}分、約${station.distance}m）`;
+      })
+      .join('\n');
 
     // プロンプト: 葬儀社スタッフが自社施設を紹介する自然な文章
     const prompt = `あなたは「${title}」で働く広報担当者です。自社の施設をウェブサイトで紹介する文章を書いてください。
@@ -519,8 +361,8 @@ Web検索で${title}の情報を確認してから書いてください。`;
       );
     }
 
-    // Vercel KVにキャッシュ（REST API直接呼び出し）
-    const cached = await kvSet(cacheKey, description);
+    // キャッシュに保存
+    const { ok: cached } = await cacheSet('description', normalizedPlaceId, description);
     if (cached) {
       console.log(`[Description Cache] ✅ SET success for "${cacheKey}", length: ${description.length} chars`);
     } else {
@@ -0,0 +1,33 @@
+/**
+ * Next.js App Router API Route
+ * 地名の入力補完（検索バーの候補）
+ * regions.json・municipalities.json から候補を返す（外部APIは呼ばない）
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_SUGGESTION_LIMIT, suggestPlaces } from '@/app/utils/placeSuggestions';
+
+/**
+ * GET /api/place-suggestions?q={入力中の地名}&limit={件数}
+ * 例: ?q=ふちゅう → { suggestions: [{ name: "府中", label: "府中（東京都）", query: "府中", ... }] }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = searchParams.get('q') || '';
+    const limit = parseInt(searchParams.get('limit') || '', 10) || DEFAULT_SUGGESTION_LIMIT;
+
+    const suggestions = suggestPlaces(query, limit);
+    return NextResponse.json(
+      { query, suggestions },
+      // 候補は regions.json だけで決まるため、ブラウザ・CDNでキャッシュさせる
+      { headers: { 'Cache-Control': 'public, max-age=3600, s-maxage=86400' } }
+    );
+  } catch (error) {
+    console.error('[Place Suggestions API] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get suggestions' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Next.js App Router API Route
+ * 現在地 → 地域（/list/{romaji}）の解決
+ * regions.json の駅の座標と、近くの施設の住所から解決する（外部APIは呼ばない）
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveNearbyArea } from '@/app/utils/reverseGeocode';
+
+/**
+ * POST /api/reverse-geocode
+ * body: { position: { latitude, longitude }, addresses?: string[]（現在地に近い順の施設の住所） }
+ * 地域が見つからない場合は { area: null }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { position, addresses } = body as {
+      position?: { latitude?: unknown; longitude?: unknown };
+      addresses?: unknown;
+    };
+
+    const lat = Number(position?.latitude);
+    const lng = Number(position?.longitude);
+    if (!position || !isFinite(lat) || !isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+      return NextResponse.json(
+        { error: 'position (latitude, longitude) is required' },
+        { status: 400 }
+      );
+    }
+
+    const addressList = Array.isArray(addresses)
+      ? addresses.filter((address): address is string => typeof address === 'string' && address.length > 0)
+      : [];
+
+    const area = resolveNearbyArea({ lat, lng }, addressList);
+    return NextResponse.json({ area });
+  } catch (error) {
+    console.error('[Reverse Geocode API] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to resolve area' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,11 +1,31 @@
 /**
  * Next.js App Router API Route
  * slug → placeId lookup API
- * Vercel KVを使用して永続化されたマッピングを取得
+ * キャッシュ（slug: / prefix: 名前空間）に永続化されたマッピングを取得
+ * 重複として統合された施設は代表施設の placeId を返す（aliasOf に元の placeId）
  */
 
-import { kv } from '@vercel/kv';
 import { NextRequest, NextResponse } from 'next/server';
+import { cacheGet } from '@/app/utils/cache';
+import { normalizePlaceId } from '@/app/utils/facilityIndex';
+import { resolveCanonicalPlaceId } from '@/app/utils/facilityDedup';
+import { registerFacilitySlug } from '@/app/utils/slugRegistry';
+
+/**
+ * 統合先の代表施設を解決してレスポンス用に整形
+ * 元の placeId の形式（"places/" 付きかどうか）は維持する
+ */
+async function toCanonicalResponse(placeId: string): Promise<{ placeId: string; aliasOf?: string }> {
+  const canonicalId = await resolveCanonicalPlaceId(placeId);
+  if (canonicalId === normalizePlaceId(placeId)) {
+    return { placeId };
+  }
+  console.log(`🧩 [Slug Lookup API] ${placeId} is merged into ${canonicalId}`);
+  return {
+    placeId: placeId.startsWith('places/') ? `places/${canonicalId}` : canonicalId,
+    aliasOf: placeId,
+  };
+}
 
 /**
  * GET /api/slug-lookup?slug={slug} または ?prefix={prefix}
@@ -28,21 +48,20 @@ export async function GET(request: NextRequest) {
     if (prefix) {
       console.log(`[Slug Lookup API] Request for prefix: ${prefix}`);
 
-      try {
-        const prefixKey = `prefix:${prefix.toLowerCase()}`;
-        const placeId = await kv.get<string>(prefixKey);
+      const { value: placeId, error } = await cacheGet<string>('prefix', prefix.toLowerCase());
 
-        if (placeId) {
-          console.log(`[Slug Lookup API] HIT - prefix: ${prefix} → placeId: ${placeId}`);
-          return NextResponse.json({ prefix, placeId, cached: true });
-        }
+      if (placeId) {
+        console.log(`[Slug Lookup API] HIT - prefix: ${prefix} → placeId: ${placeId}`);
+        return NextResponse.json({ prefix, ...(await toCanonicalResponse(placeId)), cached: true });
+      }
 
+      if (error) {
+        console.warn(`[Slug Lookup API] Cache error for prefix lookup:`, error);
+      } else {
         console.log(`[Slug Lookup API] MISS - prefix: ${prefix} not found in cache`);
-      } catch (kvError) {
-        console.warn(`[Slug Lookup API] KV error for prefix lookup:`, kvError);
       }
 
-      // prefixのみ指定でKVに見つからない場合は404
+      // prefixのみ指定でキャッシュに見つからない場合は404
       if (!slug) {
         return NextResponse.json(
           { error: 'Prefix not found in cache' },
@@ -55,18 +74,17 @@ export async function GET(request: NextRequest) {
     if (slug) {
       console.log(`[Slug Lookup API] Request for slug: ${slug}`);
 
-      try {
-        const cacheKey = `slug:${slug}`;
-        const placeId = await kv.get<string>(cacheKey);
+      const { value: placeId, error } = await cacheGet<string>('slug', slug);
 
-        if (placeId) {
-          console.log(`[Slug Lookup API] HIT - slug: ${slug} → placeId: ${placeId}`);
-          return NextResponse.json({ slug, placeId, cached: true });
-        }
+      if (placeId) {
+        console.log(`[Slug Lookup API] HIT - slug: ${slug} → placeId: ${placeId}`);
+        return NextResponse.json({ slug, ...(await toCanonicalResponse(placeId)), cached: true });
+      }
 
+      if (error) {
+        console.warn(`[Slug Lookup API] Cache error for slug lookup:`, error);
+      } else {
         console.log(`[Slug Lookup API] MISS - slug: ${slug} not found in cache`);
-      } catch (kvError) {
-        console.warn(`[Slug Lookup API] KV error for slug lookup:`, kvError);
       }
     }
 
@@ -91,6 +109,7 @@ export async function GET(request: NextRequest) {
  * POST /api/slug-lookup
  * slug → placeId マッピングを保存
  * 追加: suffix（placeIdプレフィックス8文字）→ placeId マッピングも保存
+ * 施設ごとの発行済みslug（slugs:）にも記録する（旧URLのリダイレクト用）
  */
 export async function POST(request: NextRequest) {
   try {
@@ -106,25 +125,8 @@ export async function POST(request: NextRequest) {
 
     console.log(`[Slug Lookup API] Saving mapping: slug: ${slug} → placeId: ${placeId}`);
 
-    // Vercel KVにslug → placeId マッピングを保存
-    try {
-      const cacheKey = `slug:${slug}`;
-      await kv.set(cacheKey, placeId);
-      console.log(`[Slug Lookup API] Successfully saved slug mapping: ${slug} → ${placeId}`);
-    } catch (kvError) {
-      console.warn(`[Slug Lookup API] Failed to save slug mapping:`, kvError);
-    }
-
-    // suffix（placeIdプレフィックス）→ placeId マッピングも保存
-    if (suffix) {
-      try {
-        const prefixKey = `prefix:${suffix.toLowerCase()}`;
-        await kv.set(prefixKey, placeId);
-        console.log(`[Slug Lookup API] Successfully saved prefix mapping: ${suffix} → ${placeId}`);
-      } catch (kvError) {
-        console.warn(`[Slug Lookup API] Failed to save prefix mapping:`, kvError);
-      }
-    }
+    // slug → placeId・suffix（placeIdプレフィックス）→ placeId と、施設ごとの発行済みslugを記録
+    await registerFacilitySlug(slug, placeId, suffix);
 
     return NextResponse.json({ slug, placeId, suffix, success: true });
 
@@ -0,0 +1,159 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { SearchResult } from '../types';
+import type { MarkerMapProps } from './StaticTileMap';
+import { loadGoogleMaps, onGoogleMapsAuthFailure } from '../utils/googleMapsLoader';
+import { clusterPoints, getClusterExpansionZoom, type MapCluster } from '../utils/mapClustering';
+
+interface GoogleMarkerMapProps extends MarkerMapProps {
+  apiKey: string;
+  // 読み込み・認証に失敗した場合（タイル表示に切り替える）
+  onLoadError: () => void;
+}
+
+const FOCUS_ZOOM = 16;
+const MARKER_COLOR = '#0ea5e9'; // sky-500
+const MARKER_ACTIVE_COLOR = '#0369a1'; // sky-700
+
+/**
+ * Google Maps JavaScript API による施設マーカー地図
+ * マーカーのまとめ方はタイル表示と同じ clusterPoints を使う
+ */
+export const GoogleMarkerMap: React.FC<GoogleMarkerMapProps> = ({
+  points,
+  focusedId,
+  highlightedId,
+  selectedId,
+  onHighlightChange,
+  onSelect,
+  apiKey,
+  onLoadError,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapsRef = useRef<any>(null);
+  const mapRef = useRef<any>(null);
+  const markersRef = useRef<Array<{ marker: any; cluster: MapCluster<SearchResult> }>>([]);
+  const [zoom, setZoom] = useState<number | null>(null);
+  const [markersVersion, setMarkersVersion] = useState(0);
+  const pointsKey = points.map((point) => point.id).join('|');
+
+  // イベントハンドラ内では最新のコールバックを使う
+  const callbacksRef = useRef({ onHighlightChange, onSelect, onLoadError });
+  callbacksRef.current = { onHighlightChange, onSelect, onLoadError };
+
+  // 地図の初期化
+  useEffect(() => {
+    let cancelled = false;
+    const unsubscribe = onGoogleMapsAuthFailure(() => callbacksRef.current.onLoadError());
+
+    loadGoogleMaps(apiKey)
+      .then((maps) => {
+        if (cancelled || !containerRef.current) return;
+        const map = new maps.Map(containerRef.current, {
+          center: { lat: 36.2, lng: 138.25 },
+          zoom: 5,
+          mapTypeControl: false,
+          streetViewControl: false,
+          fullscreenControl: false,
+          clickableIcons: false,
+        });
+        map.addListener('zoom_changed', () => setZoom(map.getZoom()));
+        map.addListener('click', () => callbacksRef.current.onSelect(null));
+        mapsRef.current = maps;
+        mapRef.current = map;
+        setZoom(map.getZoom());
+      })
+      .catch((error) => {
+        console.warn('[Google Maps] Falling back to tile map:', error);
+        callbacksRef.current.onLoadError();
+      });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+      markersRef.current.forEach(({ marker }) => marker.setMap(null));
+      markersRef.current = [];
+    };
+  }, [apiKey]);
+
+  const isReady = zoom !== null;
+
+  // 施設が変わったら全体が収まるように表示、「地図で表示」ならその施設を中心に拡大
+  useEffect(() => {
+    const maps = mapsRef.current;
+    const map = mapRef.current;
+    if (!maps || !map || points.length === 0) return;
+
+    const focused = focusedId ? points.find((point) => point.id === focusedId) : undefined;
+    if (focused) {
+      map.setCenter(focused.location);
+      map.setZoom(FOCUS_ZOOM);
+      callbacksRef.current.onSelect(focused.id);
+    } else if (points.length === 1) {
+      map.setCenter(points[0].location);
+      map.setZoom(FOCUS_ZOOM);
+    } else {
+      const bounds = new maps.LatLngBounds();
+      points.forEach((point) => bounds.extend(point.location));
+      map.fitBounds(bounds, 48);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isReady, pointsKey, focusedId]);
+
+  // ズームレベルごとにマーカーをまとめて配置し直す
+  useEffect(() => {
+    const maps = mapsRef.current;
+    const map = mapRef.current;
+    if (!maps || !map || zoom === null) return;
+
+    markersRef.current.forEach(({ marker }) => marker.setMap(null));
+    markersRef.current = clusterPoints(points, zoom).map((cluster) => {
+      const isCluster = cluster.points.length > 1;
+      const marker = new maps.Marker({
+        map,
+        position: cluster.center,
+        title: isCluster ? `${cluster.points.length}件の施設` : cluster.points[0].item.title,
+        label: isCluster
+          ? { text: String(cluster.points.length), color: '#ffffff', fontSize: '12px', fontWeight: 'bold' }
+          : undefined,
+      });
+
+      marker.addListener('click', () => {
+        if (isCluster) {
+          map.setCenter(cluster.center);
+          map.setZoom(getClusterExpansionZoom(cluster, zoom));
+        } else {
+          callbacksRef.current.onSelect(cluster.points[0].id);
+        }
+      });
+      if (!isCluster) {
+        marker.addListener('mouseover', () => callbacksRef.current.onHighlightChange(cluster.points[0].id));
+        marker.addListener('mouseout', () => callbacksRef.current.onHighlightChange(null));
+      }
+
+      return { marker, cluster };
+    });
+    setMarkersVersion((version) => version + 1);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [zoom, pointsKey]);
+
+  // ホバー・選択中の施設のマーカーを強調
+  useEffect(() => {
+    const maps = mapsRef.current;
+    if (!maps) return;
+    markersRef.current.forEach(({ marker, cluster }) => {
+      const isCluster = cluster.points.length > 1;
+      const active = cluster.points.some((point) => point.id === highlightedId || point.id === selectedId);
+      marker.setIcon({
+        path: maps.SymbolPath.CIRCLE,
+        scale: (isCluster ? 16 : 8) * (active ? 1.25 : 1),
+        fillColor: active ? MARKER_ACTIVE_COLOR : MARKER_COLOR,
+        fillOpacity: 1,
+        strokeColor: '#ffffff',
+        strokeWeight: 2,
+      });
+      marker.setZIndex(active ? 1000 : undefined);
+    });
+  }, [highlightedId, selectedId, markersVersion]);
+
+  return <div ref={containerRef} className="w-full h-full" />;
+};
@@ -1,5 +1,13 @@
-import React from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import Link from 'next/link';
 import type { SearchResult } from '../types';
+import type { MapPoint } from '../utils/mapClustering';
+import { formatDistance } from '../utils/geo';
+import { getFacilityDetailUrl } from '../utils/urlHelpers';
+import { GoogleMarkerMap } from './GoogleMarkerMap';
+import { StaticTileMap } from './StaticTileMap';
+import { StarRating } from './StarRating';
+import { InfoIcon } from './Icons';
 
 interface MapViewProps {
   focusedResult: SearchResult | null;
@@ -7,45 +15,162 @@ interface MapViewProps {
   searchResults: SearchResult[];
 }
 
-export const MapView: React.FC<MapViewProps> = ({ focusedResult, searchQuery, searchResults }) => {
-  const getQuery = () => {
-    // If a specific result is focused, show that single location accurately.
-    if (focusedResult) {
-      return focusedResult.address
-        ? `${focusedResult.title}, ${focusedResult.address}`
-        : focusedResult.title;
-    }
-
-    // For the general map view, create a query with all result titles.
-    // This avoids overly long and complex queries with addresses that might fail.
-    // Using just titles is more robust for the Google Maps Embed API.
-    if (searchResults.length > 0) {
-      const queryParts = searchResults.map(result => `"${result.title}"`);
-      return queryParts.join(' OR ');
-    }
-    
-    // Fallback for initial load or if results are empty for some reason.
-    return searchQuery.includes('葬儀') ? searchQuery : `${searchQuery} 葬儀社`;
-  };
+const getResultId = (result: SearchResult) => result.placeId || result.title;
 
-  const query = getQuery();
+/**
+ * 検索結果の地図表示
+ * 座標を保存済みの施設を1件ずつマーカーで表示し、一覧とホバー状態を連動させる
+ * （Maps APIキーがなければ地理院タイルで表示）
+ */
+export const MapView: React.FC<MapViewProps> = ({ focusedResult, searchQuery, searchResults }) => {
   const mapsApiKey = process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY || '';
-  const mapSrc = `https://maps.google.com/maps?q=${encodeURIComponent(query)}&hl=ja&z=14&output=embed${mapsApiKey ? `&key=${mapsApiKey}` : ''}`;
+  const [googleMapsFailed, setGoogleMapsFailed] = useState(false);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const listItemRefs = useRef(new Map<string, HTMLLIElement>());
 
-  return (
-    <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
-        <div className="aspect-w-16 aspect-h-9" style={{ height: '60vh', minHeight: '400px' }}>
-            <iframe
-                src={mapSrc}
-                width="100%"
-                height="100%"
-                style={{ border: 0 }}
-                allowFullScreen={false}
-                loading="lazy"
-                referrerPolicy="no-referrer-when-downgrade"
-                title={`Map of ${query}`}
-            ></iframe>
+  const points: MapPoint<SearchResult>[] = useMemo(
+    () => searchResults
+      .filter((result) => result.location)
+      .map((result) => ({ id: getResultId(result), location: result.location!, item: result })),
+    [searchResults]
+  );
+  const mappedIds = useMemo(() => new Set(points.map((point) => point.id)), [points]);
+  const focusedId = focusedResult && mappedIds.has(getResultId(focusedResult)) ? getResultId(focusedResult) : null;
+  const selected = points.find((point) => point.id === selectedId)?.item || null;
+  const unmappedCount = searchResults.length - points.length;
+
+  // マーカーをホバーしたら一覧の該当施設が見えるようにスクロール
+  useEffect(() => {
+    if (!highlightedId) return;
+    listItemRefs.current.get(highlightedId)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [highlightedId]);
+
+  // 座標のある施設がない場合（座標保存前のキャッシュなど）は従来の埋め込み地図で表示
+  if (points.length === 0) {
+    const query = focusedResult
+      ? (focusedResult.address ? `${focusedResult.title}, ${focusedResult.address}` : focusedResult.title)
+      : (searchQuery.includes('葬儀') ? searchQuery : `${searchQuery} 葬儀社`);
+    const mapSrc = `https://maps.google.com/maps?q=${encodeURIComponent(query)}&hl=ja&z=14&output=embed${mapsApiKey ? `&key=${mapsApiKey}` : ''}`;
+
+    return (
+      <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+        <div style={{ height: '60vh', minHeight: '400px' }}>
+          <iframe
+            src={mapSrc}
+            width="100%"
+            height="100%"
+            style={{ border: 0 }}
+            allowFullScreen={false}
+            loading="lazy"
+            referrerPolicy="no-referrer-when-downgrade"
+            title={`Map of ${query}`}
+          ></iframe>
         </div>
+      </div>
+    );
+  }
+
+  const markerMapProps = {
+    points,
+    focusedId,
+    highlightedId,
+    selectedId,
+    onHighlightChange: setHighlightedId,
+    onSelect: setSelectedId,
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden grid grid-cols-1 lg:grid-cols-3">
+      <div className="relative lg:col-span-2" style={{ height: '60vh', minHeight: '400px' }}>
+        {mapsApiKey && !googleMapsFailed ? (
+          <GoogleMarkerMap {...markerMapProps} apiKey={mapsApiKey} onLoadError={() => setGoogleMapsFailed(true)} />
+        ) : (
+          <StaticTileMap {...markerMapProps} />
+        )}
+
+        {/* 選択中の施設のポップアップ */}
+        {selected && (
+          <div className="absolute left-3 right-3 bottom-6 z-40 bg-white rounded-lg shadow-lg border border-slate-200 p-4 sm:max-w-sm">
+            <button
+              type="button"
+              onClick={() => setSelectedId(null)}
+              aria-label="閉じる"
+              className="absolute top-2 right-2 w-6 h-6 rounded-full text-slate-400 hover:text-slate-600 hover:bg-slate-100"
+            >
+              ×
+            </button>
+            <h4 className="font-bold text-slate-800 pr-6 leading-tight">{selected.title}</h4>
+            {selected.address && <p className="mt-1 text-xs text-slate-600">{selected.address}</p>}
+            <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-slate-600">
+              {typeof selected.rating === 'number' && typeof selected.reviewCount === 'number' && selected.reviewCount > 0 && (
+                <span className="flex items-center gap-1">
+                  <StarRating rating={selected.rating} />
+                  <span className="font-semibold text-slate-800">{selected.rating.toFixed(1)}</span>
+                  <span>({selected.reviewCount}件)</span>
+                </span>
+              )}
+              {selected.distance !== undefined && <span>現在地から{formatDistance(selected.distance)}</span>}
+            </div>
+            {selected.placeId && (
+              <Link
+                href={getFacilityDetailUrl(selected)}
+                className="mt-3 inline-flex items-center gap-1.5 text-sm font-semibold text-sky-600 hover:text-sky-800 hover:underline"
+              >
+                <InfoIcon className="w-4 h-4" />
+                詳細を見る
+              </Link>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* 施設一覧（地図のマーカーとホバー状態を連動） */}
+      <div className="border-t lg:border-t-0 lg:border-l border-slate-200 flex flex-col" style={{ maxHeight: '60vh', minHeight: '200px' }}>
+        <ul className="overflow-y-auto divide-y divide-slate-100 flex-1">
+          {searchResults.map((result) => {
+            const id = getResultId(result);
+            const mapped = mappedIds.has(id);
+            const active = id === highlightedId || id === selectedId;
+            return (
+              <li
+                key={id}
+                ref={(element) => {
+                  if (element) listItemRefs.current.set(id, element);
+                  else listItemRefs.current.delete(id);
+                }}
+              >
+                <button
+                  type="button"
+                  disabled={!mapped}
+                  onMouseEnter={() => mapped && setHighlightedId(id)}
+                  onMouseLeave={() => setHighlightedId(null)}
+                  onClick={() => setSelectedId(id)}
+                  className={`w-full text-left px-4 py-3 transition-colors duration-150 ${
+                    active ? 'bg-sky-50' : 'hover:bg-slate-50'
+                  } disabled:cursor-default disabled:opacity-60`}
+                >
+                  <span className={`block text-sm font-semibold ${active ? 'text-sky-700' : 'text-slate-800'}`}>{result.title}</span>
+                  <span className="block text-xs text-slate-500 mt-0.5">
+                    {mapped
+                      ? [
+                          result.distance !== undefined ? formatDistance(result.distance) : null,
+                          typeof result.rating === 'number' ? `★${result.rating.toFixed(1)}` : null,
+                          result.address,
+                        ].filter(Boolean).join(' ・ ')
+                      : '位置情報がないため地図に表示できません'}
+                  </span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+        {unmappedCount > 0 && (
+          <p className="px-4 py-2 text-xs text-slate-500 border-t border-slate-100">
+            {unmappedCount}件は位置情報がないため地図に表示していません
+          </p>
+        )}
+      </div>
     </div>
   );
 };
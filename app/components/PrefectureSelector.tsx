@@ -3,19 +3,7 @@
 import React, { useState, useMemo } from 'react';
 import { useRouter } from 'next/navigation';
 import { REGIONS, PREFECTURES, type RegionBlockData, type PrefectureData } from '../utils/data/prefectures';
-import regionsDataModule from '../utils/data/regions.json';
-
-const regionsData = (regionsDataModule as any).default || regionsDataModule;
-
-interface RegionData {
-  romaji: string;
-  type: 'municipality' | 'station' | 'area';
-  priority: 1 | 2 | 3 | 4 | 5;
-  prefecture?: string;
-  lat?: number;
-  lon?: number;
-  lineIds?: string[];
-}
+import { getAllRegions } from '../utils/regionRegistry';
 
 /**
  * 都道府県選択UIコンポーネント
@@ -29,8 +17,7 @@ export const PrefectureSelector: React.FC = () => {
   const prefectureCounts = useMemo(() => {
     const counts: Record<string, number> = {};
 
-    Object.entries(regionsData).forEach(([_, data]) => {
-      const regionData = data as RegionData;
+    getAllRegions().forEach((regionData) => {
       if (regionData.prefecture) {
         counts[regionData.prefecture] = (counts[regionData.prefecture] || 0) + 1;
       }
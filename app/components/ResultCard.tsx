@@ -1,8 +1,11 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import type { SearchResult } from '../types';
-import { BuildingOfficeIcon, PhoneIcon, MapIcon, InfoIcon } from './Icons';
+import { BuildingOfficeIcon, PhoneIcon, MapIcon, MapPinIcon, InfoIcon } from './Icons';
 import { StarRating } from './StarRating';
 import { getFirstPhotoUrl } from '../utils/photoUrl';
+import { getFuneralServiceLabel } from '../utils/funeralServices';
+import { isAvailableNow, isTwentyFourHours } from '../utils/openingHours';
+import { formatDistance, walkingMinutes } from '../utils/geo';
 
 interface ResultCardProps {
   result: SearchResult;
@@ -13,6 +16,13 @@ interface ResultCardProps {
 export const ResultCard: React.FC<ResultCardProps> = ({ result, onFocusOnMap, onSelectResult }) => {
   const mapQuery = result.address ? `${result.title}, ${result.address}` : result.title;
   const photoUrl = getFirstPhotoUrl(result);
+  const twentyFourHours = isTwentyFourHours(result);
+
+  // 「今すぐ連絡可能」は閲覧時刻で変わるため、ハイドレーション後にクライアントで判定する
+  const [availableNow, setAvailableNow] = useState(false);
+  useEffect(() => {
+    setAvailableNow(isAvailableNow(result, new Date()));
+  }, [result]);
 
   return (
     <div className="bg-white border border-slate-200 rounded-xl shadow-md hover:shadow-lg transition-shadow duration-300 flex flex-col h-full overflow-hidden">
@@ -59,6 +69,15 @@ export const ResultCard: React.FC<ResultCardProps> = ({ result, onFocusOnMap, on
         <h3 className="text-lg font-bold text-slate-800 leading-tight">
           {result.title}
         </h3>
+        {result.distance !== undefined && (
+          <div>
+            <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-slate-100 text-xs font-semibold text-slate-700">
+              <MapPinIcon className="w-3.5 h-3.5 text-sky-500" />
+              現在地から{formatDistance(result.distance)}
+              {result.distance <= 2000 && <span className="font-normal text-slate-500">（徒歩{walkingMinutes(result.distance)}分）</span>}
+            </span>
+          </div>
+        )}
         {result.address && (
           <div className="flex items-center gap-3 text-sm text-slate-600">
             <BuildingOfficeIcon className="w-4 h-4 text-slate-400 flex-shrink-0" />
@@ -73,6 +92,29 @@ export const ResultCard: React.FC<ResultCardProps> = ({ result, onFocusOnMap, on
             </a>
           </div>
         )}
+        {(twentyFourHours || availableNow) && (
+          <div className="flex flex-wrap gap-1.5">
+            {twentyFourHours && (
+              <span className="px-2 py-0.5 rounded-full bg-emerald-50 border border-emerald-200 text-xs font-semibold text-emerald-700">
+                24時間対応
+              </span>
+            )}
+            {availableNow && (
+              <span className="px-2 py-0.5 rounded-full bg-emerald-600 text-xs font-semibold text-white">
+                今すぐ連絡可能
+              </span>
+            )}
+          </div>
+        )}
+        {result.services && result.services.length > 0 && (
+          <div className="flex flex-wrap gap-1.5">
+            {result.services.map((service) => (
+              <span key={service} className="px-2 py-0.5 rounded-full bg-sky-50 border border-sky-200 text-xs text-sky-700">
+                {getFuneralServiceLabel(service)}
+              </span>
+            ))}
+          </div>
+        )}
       </div>
       
       {typeof result.rating === 'number' && typeof result.reviewCount === 'number' && result.reviewCount > 0 && (
@@ -1,6 +1,10 @@
 import React, { useState } from 'react';
-import type { SearchResult } from '../types';
+import type { Availability, FuneralService, ReligionId, SearchResult, SearchSortOrder } from '../types';
 import { ResultCard } from './ResultCard';
+import { FUNERAL_SERVICES, filterByFuneralServices, getFuneralServiceLabel } from '../utils/funeralServices';
+import { RELIGIONS, filterByReligions, getReligionLabel } from '../utils/religiousSupport';
+import { AVAILABILITY_FILTERS, filterByAvailability } from '../utils/openingHours';
+import { SEARCH_SORT_ORDERS, isSearchSortOrder, sortSearchResults } from '../utils/geo';
 import { MapView } from './MapView';
 import { AlertTriangleIcon, InfoIcon, ListIcon, MapIcon } from './Icons';
 
@@ -15,6 +19,18 @@ interface ResultsDisplayProps {
   setViewMode: (mode: ViewMode) => void;
   activeSearchQuery: string;
   onSelectResult: (result: SearchResult) => void;
+  // 葬儀形式の絞り込み（指定しない場合はコンポーネント内で保持）
+  selectedServices?: FuneralService[];
+  onSelectedServicesChange?: (services: FuneralService[]) => void;
+  // 宗教・宗派の絞り込み（同上）
+  selectedReligion?: ReligionId | null;
+  onSelectedReligionChange?: (religion: ReligionId | null) => void;
+  // 今すぐ連絡可能・24時間対応の絞り込み（同上）
+  selectedAvailability?: Availability[];
+  onSelectedAvailabilityChange?: (availability: Availability[]) => void;
+  // 並び順（同上。未指定時は現在地からの距離があれば近い順）
+  sortOrder?: SearchSortOrder;
+  onSortOrderChange?: (order: SearchSortOrder) => void;
 }
 
 export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ 
@@ -26,8 +42,82 @@ export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
     setViewMode,
     activeSearchQuery,
     onSelectResult,
+    selectedServices,
+    onSelectedServicesChange,
+    selectedReligion,
+    onSelectedReligionChange,
+    selectedAvailability,
+    onSelectedAvailabilityChange,
+    sortOrder,
+    onSortOrderChange,
 }) => {
   const [focusedResult, setFocusedResult] = useState<SearchResult | null>(null);
+  const [localServices, setLocalServices] = useState<FuneralService[]>([]);
+  const [localReligion, setLocalReligion] = useState<ReligionId | null>(null);
+  const [localAvailability, setLocalAvailability] = useState<Availability[]>([]);
+  const activeServices = selectedServices ?? localServices;
+  const activeReligion = selectedReligion !== undefined ? selectedReligion : localReligion;
+  const activeAvailability = selectedAvailability ?? localAvailability;
+  const [localSortOrder, setLocalSortOrder] = useState<SearchSortOrder | null>(null);
+  const hasDistances = searchResults.some((result) => result.distance !== undefined);
+  const sortOptions = SEARCH_SORT_ORDERS.filter((order) => order.id !== 'distance' || hasDistances);
+  const requestedSortOrder = sortOrder ?? localSortOrder ?? (hasDistances ? 'distance' : 'relevance');
+  const activeSortOrder = sortOptions.some((order) => order.id === requestedSortOrder) ? requestedSortOrder : 'relevance';
+  const filteredResults = sortSearchResults(
+    filterByAvailability(
+      filterByReligions(
+        filterByFuneralServices(searchResults, activeServices),
+        activeReligion ? [activeReligion] : []
+      ),
+      activeAvailability
+    ),
+    activeSortOrder
+  );
+  const activeFilterLabels = [
+    ...activeServices.map(getFuneralServiceLabel),
+    ...(activeReligion ? [getReligionLabel(activeReligion)] : []),
+    ...AVAILABILITY_FILTERS.filter((filter) => activeAvailability.includes(filter.id)).map((filter) => filter.label),
+  ];
+
+  const handleReligionChange = (value: string) => {
+    const religion = (RELIGIONS.find((r) => r.id === value)?.id) || null;
+    if (onSelectedReligionChange) {
+      onSelectedReligionChange(religion);
+    } else {
+      setLocalReligion(religion);
+    }
+  };
+
+  const handleToggleService = (service: FuneralService) => {
+    const next = activeServices.includes(service)
+      ? activeServices.filter((s) => s !== service)
+      : [...activeServices, service];
+    if (onSelectedServicesChange) {
+      onSelectedServicesChange(next);
+    } else {
+      setLocalServices(next);
+    }
+  };
+
+  const handleToggleAvailability = (availability: Availability) => {
+    const next = activeAvailability.includes(availability)
+      ? activeAvailability.filter((a) => a !== availability)
+      : [...activeAvailability, availability];
+    if (onSelectedAvailabilityChange) {
+      onSelectedAvailabilityChange(next);
+    } else {
+      setLocalAvailability(next);
+    }
+  };
+
+  const handleSortOrderChange = (value: string) => {
+    if (!isSearchSortOrder(value)) return;
+    if (onSortOrderChange) {
+      onSortOrderChange(value);
+    } else {
+      setLocalSortOrder(value);
+    }
+  };
 
   const handleFocusOnMap = (result: SearchResult) => {
     setFocusedResult(result);
@@ -145,11 +235,89 @@ export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
             )}
         </div>
 
-        {viewMode === 'list' ? (
+        {/* 葬儀形式・宗教宗派・連絡可能性の絞り込み */}
+        <div className="mb-4 flex flex-wrap items-center gap-2" role="group" aria-label="葬儀形式・宗教宗派・対応時間で絞り込み">
+            <span className="text-sm font-semibold text-slate-600 mr-1">葬儀形式:</span>
+            {FUNERAL_SERVICES.map((service) => {
+                const active = activeServices.includes(service.id);
+                return (
+                    <button
+                        key={service.id}
+                        onClick={() => handleToggleService(service.id)}
+                        aria-pressed={active}
+                        className={`px-3 py-1 rounded-full text-sm border transition-colors duration-200 ${
+                            active
+                            ? 'bg-sky-600 border-sky-600 text-white'
+                            : 'bg-white border-slate-300 text-slate-600 hover:bg-slate-100'
+                        }`}
+                    >
+                        {service.label}
+                    </button>
+                );
+            })}
+            <select
+                value={activeReligion || ''}
+                onChange={(e) => handleReligionChange(e.target.value)}
+                aria-label="宗教・宗派で絞り込み"
+                className={`px-3 py-1 rounded-full text-sm border transition-colors duration-200 ${
+                    activeReligion
+                    ? 'bg-sky-600 border-sky-600 text-white'
+                    : 'bg-white border-slate-300 text-slate-600 hover:bg-slate-100'
+                }`}
+            >
+                <option value="">宗教・宗派: 指定なし</option>
+                {RELIGIONS.filter((religion) => religion.id !== 'any-sect').map((religion) => (
+                    <option key={religion.id} value={religion.id}>{religion.label}</option>
+                ))}
+            </select>
+            {AVAILABILITY_FILTERS.map((filter) => {
+                const active = activeAvailability.includes(filter.id);
+                return (
+                    <button
+                        key={filter.id}
+                        onClick={() => handleToggleAvailability(filter.id)}
+                        aria-pressed={active}
+                        className={`px-3 py-1 rounded-full text-sm border transition-colors duration-200 ${
+                            active
+                            ? 'bg-emerald-600 border-emerald-600 text-white'
+                            : 'bg-white border-slate-300 text-slate-600 hover:bg-slate-100'
+                        }`}
+                    >
+                        {filter.label}
+                    </button>
+                );
+            })}
+            <select
+                value={activeSortOrder}
+                onChange={(e) => handleSortOrderChange(e.target.value)}
+                aria-label="並び順"
+                className="ml-auto px-3 py-1 rounded-md text-sm border border-slate-300 bg-white text-slate-600 hover:bg-slate-100 transition-colors duration-200"
+            >
+                {sortOptions.map((order) => (
+                    <option key={order.id} value={order.id}>{order.label}</option>
+                ))}
+            </select>
+            {activeFilterLabels.length > 0 && (
+                <span className="text-xs text-slate-500 ml-1">
+                    {activeFilterLabels.join('・')}: {filteredResults.length}/{searchResults.length}件
+                </span>
+            )}
+        </div>
+
+        {filteredResults.length === 0 ? (
+            <div className="text-center p-10 bg-amber-50 border border-amber-200 rounded-lg">
+                <AlertTriangleIcon className="w-12 h-12 mx-auto text-amber-500 mb-4" />
+                <h3 className="text-xl font-semibold text-amber-800">条件に合う施設が見つかりません</h3>
+                <p className="text-slate-600 mt-2">
+                    対応している葬儀形式・宗教宗派・対応時間が確認できた施設のみ表示しています。<br />
+                    絞り込みを外してお試しください。
+                </p>
+            </div>
+        ) : viewMode === 'list' ? (
             <div className="space-y-6">
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                    {searchResults.map((result, index) => (
-                        <ResultCard key={index} result={result} onFocusOnMap={handleFocusOnMap} onSelectResult={onSelectResult} />
+                    {filteredResults.map((result, index) => (
+                        <ResultCard key={result.placeId || index} result={result} onFocusOnMap={handleFocusOnMap} onSelectResult={onSelectResult} />
                     ))}
                 </div>
             </div>
@@ -157,7 +325,7 @@ export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
             <MapView 
               focusedResult={focusedResult} 
               searchQuery={activeSearchQuery} 
-              searchResults={searchResults}
+              searchResults={filteredResults}
             />
         )}
     </div>
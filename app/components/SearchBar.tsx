@@ -1,40 +1,167 @@
-import React from 'react';
+import React, { useEffect, useId, useState } from 'react';
 import { SearchIcon } from './Icons';
+import { fetchPlaceSuggestions } from '../services/geminiService';
+import type { PlaceSuggestion } from '../utils/placeSuggestions';
 
 interface SearchBarProps {
   value: string;
   onChange: (value: string) => void;
-  onSearch: () => void;
+  // 候補を選んだ場合は、選んだ地名で置き換えたクエリを渡す
+  onSearch: (query?: string) => void;
   isLoading: boolean;
 }
 
+// 入力が止まってから候補を取得するまでの待ち時間
+const SUGGESTION_DEBOUNCE_MS = 150;
+
+const SUGGESTION_TYPE_LABELS: Record<PlaceSuggestion['type'], string> = {
+  municipality: '市区町村',
+  station: '駅',
+};
+
+/**
+ * 候補を探す語（最後の語。"練馬 家族葬" の入力中は "家族葬"）
+ */
+const getLastToken = (value: string): string => value.split(/[\s　]+/).pop() || '';
+
 export const SearchBar: React.FC<SearchBarProps> = ({ value, onChange, onSearch, isLoading }) => {
+  const listboxId = useId();
+  const [suggestions, setSuggestions] = useState<PlaceSuggestion[]>([]);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [isOpen, setIsOpen] = useState(false);
+
+  const lastToken = getLastToken(value);
+
+  useEffect(() => {
+    if (!lastToken.trim() || isLoading) {
+      setSuggestions([]);
+      setActiveIndex(-1);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      fetchPlaceSuggestions(lastToken, controller.signal)
+        .then((result) => {
+          setSuggestions(result);
+          setActiveIndex(-1);
+        })
+        .catch((error) => {
+          if (error?.name !== 'AbortError') {
+            console.warn('[SearchBar] ⚠️ Failed to fetch place suggestions:', error);
+          }
+        });
+    }, SUGGESTION_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [lastToken, isLoading]);
+
+  const showSuggestions = isOpen && suggestions.length > 0 && !isLoading;
+
+  const closeSuggestions = () => {
+    setIsOpen(false);
+    setActiveIndex(-1);
+  };
+
+  // 最後の語を正規の地名に置き換えて検索する
+  const selectSuggestion = (suggestion: PlaceSuggestion) => {
+    const prefix = value.slice(0, value.length - lastToken.length);
+    const query = `${prefix}${suggestion.query}`;
+    onChange(query);
+    closeSuggestions();
+    onSearch(query);
+  };
+
   const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
-    // Check if the key is Enter and if an IME composition is not in progress.
+    // Ignore keys while an IME composition is in progress.
     // This prevents the search from firing when a user is finalizing a character conversion.
-    if (event.key === 'Enter' && !event.nativeEvent.isComposing) {
-      onSearch();
+    if (event.nativeEvent.isComposing) return;
+
+    if (showSuggestions && event.key === 'ArrowDown') {
+      event.preventDefault();
+      setActiveIndex((index) => (index + 1) % suggestions.length);
+    } else if (showSuggestions && event.key === 'ArrowUp') {
+      event.preventDefault();
+      setActiveIndex((index) => (index <= 0 ? suggestions.length - 1 : index - 1));
+    } else if (showSuggestions && event.key === 'Escape') {
+      event.preventDefault();
+      closeSuggestions();
+    } else if (event.key === 'Enter') {
+      if (showSuggestions && activeIndex >= 0) {
+        event.preventDefault();
+        selectSuggestion(suggestions[activeIndex]);
+      } else {
+        closeSuggestions();
+        onSearch();
+      }
     }
   };
-  
+
   return (
     <div className="flex flex-col sm:flex-row items-center gap-4">
       <div className="relative w-full">
         <input
           type="text"
           value={value}
-          onChange={(e) => onChange(e.target.value)}
+          onChange={(e) => {
+            onChange(e.target.value);
+            setIsOpen(true);
+          }}
           onKeyDown={handleKeyDown}
+          onFocus={() => setIsOpen(true)}
+          onBlur={closeSuggestions}
           placeholder="例: 東京都新宿区の葬儀社"
           className="w-full pl-10 pr-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500 focus:border-sky-500 transition-shadow duration-200 text-lg"
           disabled={isLoading}
+          role="combobox"
+          aria-autocomplete="list"
+          aria-expanded={showSuggestions}
+          aria-controls={listboxId}
+          aria-activedescendant={showSuggestions && activeIndex >= 0 ? `${listboxId}-${activeIndex}` : undefined}
+          autoComplete="off"
         />
         <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
            <SearchIcon className="w-5 h-5 text-slate-400"/>
         </div>
+        {showSuggestions && (
+          <ul
+            id={listboxId}
+            role="listbox"
+            className="absolute z-20 left-0 right-0 mt-1 bg-white border border-slate-200 rounded-lg shadow-lg overflow-hidden text-left"
+          >
+            {suggestions.map((suggestion, index) => (
+              <li
+                key={`${suggestion.query}-${suggestion.type}`}
+                id={`${listboxId}-${index}`}
+                role="option"
+                aria-selected={index === activeIndex}
+                // blur より先に選択する（onClick だと入力欄の blur で候補が閉じてしまう）
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  selectSuggestion(suggestion);
+                }}
+                onMouseEnter={() => setActiveIndex(index)}
+                className={`flex items-center justify-between px-4 py-2 cursor-pointer ${
+                  index === activeIndex ? 'bg-sky-50 text-sky-700' : 'text-slate-700'
+                }`}
+              >
+                <span>{suggestion.label}</span>
+                <span className="text-xs text-slate-500 bg-slate-100 rounded px-2 py-0.5">
+                  {SUGGESTION_TYPE_LABELS[suggestion.type]}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
       </div>
       <button
-        onClick={onSearch}
+        onClick={() => {
+          closeSuggestions();
+          onSearch();
+        }}
         disabled={isLoading}
         className="w-full sm:w-auto px-6 py-3 bg-sky-600 text-white font-semibold rounded-lg shadow-md hover:bg-sky-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500 disabled:bg-slate-400 disabled:cursor-not-allowed transition-colors duration-200 text-lg flex items-center justify-center gap-2"
       >
@@ -52,4 +179,4 @@ export const SearchBar: React.FC<SearchBarProps> = ({ value, onChange, onSearch,
       </button>
     </div>
   );
-};
\ No newline at end of file
+};
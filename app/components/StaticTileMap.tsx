@@ -0,0 +1,219 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { GeoPoint, SearchResult } from '../types';
+import {
+  MAX_MAP_ZOOM,
+  MIN_MAP_ZOOM,
+  TILE_SIZE,
+  clusterPoints,
+  fitBounds,
+  getClusterExpansionZoom,
+  projectToPixel,
+  unprojectFromPixel,
+  type MapCluster,
+  type MapPoint,
+  type PixelPoint,
+} from '../utils/mapClustering';
+
+/**
+ * 地図の描画コンポーネント（Google Maps / タイル表示）共通のprops
+ */
+export interface MarkerMapProps {
+  points: MapPoint<SearchResult>[];
+  // 「地図で表示」で選ばれた施設（null なら全体表示）
+  focusedId: string | null;
+  // 一覧でホバー中の施設
+  highlightedId: string | null;
+  // ポップアップを表示中の施設
+  selectedId: string | null;
+  onHighlightChange: (id: string | null) => void;
+  onSelect: (id: string | null) => void;
+}
+
+// 地理院タイル（APIキー不要）
+const TILE_URL = 'https://cyberjapandata.gsi.go.jp/xyz/std/{z}/{x}/{y}.png';
+const FOCUS_ZOOM = 16;
+
+interface MapViewState {
+  center: GeoPoint;
+  zoom: number;
+}
+
+/**
+ * Google Maps のAPIキーがない環境（開発環境など）向けのタイル地図
+ * ドラッグでの移動・ボタンでの拡大縮小のみ対応
+ */
+export const StaticTileMap: React.FC<MarkerMapProps> = ({
+  points,
+  focusedId,
+  highlightedId,
+  selectedId,
+  onHighlightChange,
+  onSelect,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ startX: number; startY: number; center: PixelPoint; moved: boolean } | null>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [view, setView] = useState<MapViewState | null>(null);
+  const pointsKey = points.map((point) => point.id).join('|');
+  const hasSize = size !== null;
+
+  // コンテナの大きさを計測
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    const measure = () => setSize({ width: element.clientWidth, height: element.clientHeight });
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  // 施設が変わったら全体が収まるように表示、「地図で表示」ならその施設を中心に拡大
+  useEffect(() => {
+    if (!size) return;
+    const focused = focusedId ? points.find((point) => point.id === focusedId) : undefined;
+    if (focused) {
+      setView({ center: focused.location, zoom: FOCUS_ZOOM });
+      onSelect(focused.id);
+    } else {
+      setView(fitBounds(points.map((point) => point.location), size.width, size.height));
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [pointsKey, focusedId, hasSize]);
+
+  const clusters = useMemo(
+    () => (view ? clusterPoints(points, view.zoom) : []),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [pointsKey, view?.zoom]
+  );
+
+  if (!size || !view) {
+    return <div ref={containerRef} className="w-full h-full bg-slate-100" />;
+  }
+
+  const centerPixel = projectToPixel(view.center, view.zoom);
+  const origin = { x: centerPixel.x - size.width / 2, y: centerPixel.y - size.height / 2 };
+  const tileCount = Math.pow(2, view.zoom);
+
+  const tiles: Array<{ key: string; url: string; left: number; top: number }> = [];
+  for (let ty = Math.floor(origin.y / TILE_SIZE); ty <= Math.floor((origin.y + size.height) / TILE_SIZE); ty++) {
+    if (ty < 0 || ty >= tileCount) continue;
+    for (let tx = Math.floor(origin.x / TILE_SIZE); tx <= Math.floor((origin.x + size.width) / TILE_SIZE); tx++) {
+      const wrappedX = ((tx % tileCount) + tileCount) % tileCount;
+      tiles.push({
+        key: `${view.zoom}/${tx}/${ty}`,
+        url: TILE_URL.replace('{z}', String(view.zoom)).replace('{x}', String(wrappedX)).replace('{y}', String(ty)),
+        left: tx * TILE_SIZE - origin.x,
+        top: ty * TILE_SIZE - origin.y,
+      });
+    }
+  }
+
+  const setZoom = (zoom: number, center: GeoPoint = view.center) => {
+    setView({ center, zoom: Math.min(MAX_MAP_ZOOM, Math.max(MIN_MAP_ZOOM, zoom)) });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if ((e.target as HTMLElement).closest('button')) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { startX: e.clientX, startY: e.clientY, center: centerPixel, moved: false };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = e.clientX - drag.startX;
+    const dy = e.clientY - drag.startY;
+    if (Math.abs(dx) + Math.abs(dy) > 3) drag.moved = true;
+    setView({ center: unprojectFromPixel({ x: drag.center.x - dx, y: drag.center.y - dy }, view.zoom), zoom: view.zoom });
+  };
+
+  const handlePointerUp = () => {
+    // ドラッグせずに地図をクリックしたらポップアップを閉じる
+    if (dragRef.current && !dragRef.current.moved) onSelect(null);
+    dragRef.current = null;
+  };
+
+  const handleClusterClick = (cluster: MapCluster<SearchResult>) => {
+    if (cluster.points.length === 1) {
+      onSelect(cluster.points[0].id);
+    } else {
+      setZoom(getClusterExpansionZoom(cluster, view.zoom), cluster.center);
+    }
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative w-full h-full overflow-hidden bg-slate-100 cursor-grab active:cursor-grabbing touch-none select-none"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => { dragRef.current = null; }}
+    >
+      {tiles.map((tile) => (
+        <img
+          key={tile.key}
+          src={tile.url}
+          alt=""
+          draggable={false}
+          className="absolute max-w-none pointer-events-none"
+          style={{ left: tile.left, top: tile.top, width: TILE_SIZE, height: TILE_SIZE }}
+        />
+      ))}
+
+      {clusters.map((cluster) => {
+        const pixel = projectToPixel(cluster.center, view.zoom);
+        const isCluster = cluster.points.length > 1;
+        const active = cluster.points.some((point) => point.id === highlightedId || point.id === selectedId);
+        return (
+          <button
+            key={cluster.id}
+            type="button"
+            onClick={() => handleClusterClick(cluster)}
+            onMouseEnter={() => !isCluster && onHighlightChange(cluster.points[0].id)}
+            onMouseLeave={() => !isCluster && onHighlightChange(null)}
+            aria-label={isCluster ? `${cluster.points.length}件の施設` : cluster.points[0].item.title}
+            title={isCluster ? `${cluster.points.length}件の施設` : cluster.points[0].item.title}
+            className={`absolute -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white shadow-md flex items-center justify-center font-bold text-white transition-transform duration-150 ${
+              active ? 'bg-sky-700 scale-125 z-20' : 'bg-sky-500 z-10'
+            } ${isCluster ? 'w-9 h-9 text-sm' : 'w-5 h-5'}`}
+            style={{ left: pixel.x - origin.x, top: pixel.y - origin.y }}
+          >
+            {isCluster ? cluster.points.length : null}
+          </button>
+        );
+      })}
+
+      <div className="absolute top-3 right-3 z-30 flex flex-col bg-white rounded-md shadow border border-slate-200 overflow-hidden">
+        <button
+          type="button"
+          onClick={() => setZoom(view.zoom + 1)}
+          disabled={view.zoom >= MAX_MAP_ZOOM}
+          aria-label="拡大"
+          className="w-8 h-8 text-lg font-bold text-slate-700 hover:bg-slate-100 disabled:text-slate-300"
+        >
+          +
+        </button>
+        <button
+          type="button"
+          onClick={() => setZoom(view.zoom - 1)}
+          disabled={view.zoom <= MIN_MAP_ZOOM}
+          aria-label="縮小"
+          className="w-8 h-8 text-lg font-bold text-slate-700 hover:bg-slate-100 border-t border-slate-200 disabled:text-slate-300"
+        >
+          −
+        </button>
+      </div>
+
+      <a
+        href="https://maps.gsi.go.jp/development/ichiran.html"
+        target="_blank"
+        rel="noopener noreferrer"
+        className="absolute bottom-0 right-0 z-30 bg-white/80 px-1.5 py-0.5 text-[10px] text-slate-600 hover:underline"
+      >
+        地理院タイル
+      </a>
+    </div>
+  );
+};
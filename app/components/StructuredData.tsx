@@ -4,6 +4,8 @@
  */
 
 import Script from 'next/script';
+import type { NearestStation } from '../types';
+import { formatStationAccess } from '../utils/geo';
 
 // ベースURL
 const BASE_URL = process.env.NEXT_PUBLIC_BASE_URL || 'https://sougifinder.vercel.app';
@@ -125,6 +127,7 @@ interface LocalBusinessSchemaProps {
     latitude: number;
     longitude: number;
   };
+  nearestStations?: NearestStation[];
 }
 
 export function LocalBusinessSchema({
@@ -139,6 +142,7 @@ export function LocalBusinessSchema({
   priceRange,
   openingHours,
   geo,
+  nearestStations,
 }: LocalBusinessSchemaProps) {
   // 住所から都道府県・市区町村を抽出
   const addressParts = parseJapaneseAddress(address || '');
@@ -216,6 +220,15 @@ export function LocalBusinessSchema({
     };
   }
 
+  // 最寄り駅（アクセス）
+  if (nearestStations && nearestStations.length > 0) {
+    schema.additionalProperty = nearestStations.map((station) => ({
+      '@type': 'PropertyValue',
+      name: '最寄り駅',
+      value: formatStationAccess(station),
+    }));
+  }
+
   return (
     <Script
       id="local-business-schema"
@@ -253,18 +266,18 @@ export function ItemListSchema({ items, listName }: ItemListSchemaProps) {
         '@type': 'FuneralHome',
         name: item.name,
         url: item.url.startsWith('http') ? item.url : `${BASE_URL}${item.url}`,
-        ...(item.image && { image: item.image }),
+        ...(item.image && { image: item.image.startsWith('http') ? item.image : `${BASE_URL}${item.image}` }),
         ...(item.description && { description: item.description }),
       },
     })),
   };
 
+  // 一覧ページはISRで配信するため、next/script ではなくHTMLに直接出力する
   return (
-    <Script
+    <script
       id="itemlist-schema"
       type="application/ld+json"
       dangerouslySetInnerHTML={{ __html: JSON.stringify(schema) }}
-      strategy="afterInteractive"
     />
   );
 }
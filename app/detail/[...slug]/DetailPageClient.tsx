@@ -13,6 +13,7 @@ import {
     DirectionsIcon,
     ExternalLinkIcon,
     GlobeIcon,
+    MapPinIcon,
     PhoneIcon,
     QuestionMarkCircleIcon,
     UserIcon,
@@ -24,6 +25,9 @@ import { StarRating } from '../../components/StarRating';
 import { LocalBusinessSchema } from '../../components/StructuredData';
 import { Breadcrumb } from '../../components/Breadcrumb';
 import { getAllPhotoUrls } from '../../utils/photoUrl';
+import { getReligionLabel, RELIGION_SOURCE_LABELS } from '../../utils/religiousSupport';
+import { getWeeklySchedule, isOpenAt, isTwentyFourHours } from '../../utils/openingHours';
+import { formatDistance, formatStationAccess } from '../../utils/geo';
 
 interface DetailPageClientProps {
   facility: SearchResult;
@@ -47,6 +51,14 @@ export function DetailPageClient({ facility }: DetailPageClientProps) {
   // 営業時間の開閉状態
   const [isOpeningHoursExpanded, setIsOpeningHoursExpanded] = useState(false);
 
+  // 営業中かどうか（キャッシュされた open_now は古くなるため、営業時間から閲覧時刻で判定する）
+  const twentyFourHours = isTwentyFourHours(facility);
+  const [isOpenNow, setIsOpenNow] = useState<boolean | undefined>(undefined);
+  useEffect(() => {
+    const openNow = isOpenAt(getWeeklySchedule(facility), new Date());
+    setIsOpenNow(openNow ?? facility.openingHours?.open_now);
+  }, [facility]);
+
   // 施設紹介文の取得
   useEffect(() => {
     // 既にdescriptionがある場合はスキップ
@@ -66,6 +78,7 @@ export function DetailPageClient({ facility }: DetailPageClientProps) {
             placeId: facility.placeId,
             title: facility.title,
             address: facility.address,
+            location: facility.location,
           }),
         });
 
@@ -159,6 +172,8 @@ export function DetailPageClient({ facility }: DetailPageClientProps) {
         reviewCount={facility.reviewCount}
         priceRange={getPriceRangeText(facility.priceLevel)}
         openingHours={facility.openingHours}
+        geo={facility.location ? { latitude: facility.location.lat, longitude: facility.location.lng } : undefined}
+        nearestStations={facility.nearestStations}
       />
 
       <div className="container mx-auto px-4 py-6 max-w-4xl">
@@ -319,6 +334,23 @@ export function DetailPageClient({ facility }: DetailPageClientProps) {
                 </div>
               </li>
             )}
+            {/* 最寄り駅（regions.json の駅データから計算） */}
+            {facility.nearestStations && facility.nearestStations.length > 0 && (
+              <li className="flex items-start gap-4">
+                <MapPinIcon className="w-5 h-5 text-slate-400 mt-1 flex-shrink-0" />
+                <div>
+                  <span className="font-semibold block">最寄り駅</span>
+                  <ul className="space-y-0.5">
+                    {facility.nearestStations.map((station) => (
+                      <li key={station.romaji || station.name}>
+                        {formatStationAccess(station)}
+                        <span className="text-xs text-slate-500 ml-1">（約{formatDistance(station.distance)}）</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </li>
+            )}
             {facility.phone && (
               <li className="flex items-start gap-4">
                 <PhoneIcon className="w-5 h-5 text-slate-400 mt-1 flex-shrink-0" />
@@ -342,13 +374,18 @@ export function DetailPageClient({ facility }: DetailPageClientProps) {
                   >
                     <div className="flex items-center gap-2">
                       <span className="font-semibold">営業時間</span>
-                      {facility.openingHours.open_now !== undefined && (
+                      {isOpenNow !== undefined && (
                         <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${
-                          facility.openingHours.open_now
+                          isOpenNow
                             ? 'bg-green-100 text-green-800'
                             : 'bg-slate-100 text-slate-600'
                         }`}>
-                          {facility.openingHours.open_now ? '営業中' : '営業時間外'}
+                          {isOpenNow ? '営業中' : '営業時間外'}
+                        </span>
+                      )}
+                      {twentyFourHours && (
+                        <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-emerald-100 text-emerald-800">
+                          24時間対応
                         </span>
                       )}
                     </div>
@@ -431,6 +468,32 @@ export function DetailPageClient({ facility }: DetailPageClientProps) {
               </li>
             )}
 
+            {/* 宗教・宗派への対応 */}
+            {facility.religiousSupport && facility.religiousSupport.length > 0 && (
+              <li className="flex items-start gap-4">
+                <CheckCircleIcon className="w-5 h-5 text-slate-400 mt-1 flex-shrink-0" />
+                <div className="w-full">
+                  <span className="font-semibold block">宗教・宗派</span>
+                  <div className="flex flex-wrap gap-2 mt-1">
+                    {facility.religiousSupport.map((support) => (
+                      <span
+                        key={support.religion}
+                        title={support.evidence}
+                        className="px-3 py-1 rounded-full text-sm bg-slate-100 text-slate-700"
+                      >
+                        {getReligionLabel(support.religion)}
+                      </span>
+                    ))}
+                  </div>
+                  <p className="text-xs text-slate-500 mt-2">
+                    ※情報源: {Array.from(new Set(facility.religiousSupport.flatMap((support) => support.sources)))
+                      .map((source) => RELIGION_SOURCE_LABELS[source])
+                      .join('・')}。詳細は施設にお問い合わせください。
+                  </p>
+                </div>
+              </li>
+            )}
+
             {/* 価格帯 */}
             {facility.priceLevel !== undefined && getPriceRangeText(facility.priceLevel) && (
               <li className="flex items-start gap-4">
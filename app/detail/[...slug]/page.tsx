@@ -0,0 +1,275 @@
+import { cache } from 'react';
+import { Metadata } from 'next';
+import { notFound, permanentRedirect } from 'next/navigation';
+import { headers } from 'next/headers';
+import type { SearchResult } from '../../types';
+import { resolveCanonicalPlaceId } from '../../utils/facilityDedup';
+import { findCachedSearchResult, normalizePlaceId } from '../../utils/facilityIndex';
+import { issueFacilityPath, parseFacilityPath, resolveFacilityShortId } from '../../utils/facilityPath';
+import { findNearestStations } from '../../utils/stationIndex';
+import {
+  extractPlaceIdSuffix,
+  getIssuedFacilityPath,
+  recordUnresolvedSlug,
+  registerFacilitySlug,
+  resolveFacilitySlug,
+  resolveIssuedFacilityPath,
+} from '../../utils/slugRegistry';
+import { DetailPageClient } from './DetailPageClient';
+
+// ISR設定: 1時間ごとに再生成
+export const revalidate = 3600;
+
+// 動的パラメータの型定義 (Next.js 15+ では params は Promise)
+// /detail/{都道府県}/{市区町村}/{施設名}-{短縮ID}（正規）と /detail/{slug}（旧方式）の両方を受ける
+type Props = {
+  params: Promise<{ slug: string[] }>;
+  searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
+};
+
+async function getBaseUrl(): Promise<string> {
+  // headers()から現在のホスト名を取得
+  const headersList = await headers();
+  const host = headersList.get('host') || 'localhost:3000';
+  const protocol = process.env.NODE_ENV === 'production' ? 'https' : 'http';
+  return `${protocol}://${host}`;
+}
+
+/**
+ * 旧方式のslugからplaceIdを解決
+ *
+ * 1. キャッシュのみで解決（PlaceID そのもの → prefix: → slug:、utils/slugRegistry.ts）
+ * 2. 失敗時は施設名検索API経由でplaceIdを取得（フォールバック）し、slugを登録する
+ */
+async function resolveLegacySlug(slug: string): Promise<string | null> {
+  const resolution = await resolveFacilitySlug(slug);
+  if (resolution) {
+    console.log(`✅ [resolvePlaceId] Found placeId from ${resolution.source}: ${resolution.placeId}`);
+    // 旧方式のslugを発行済みとして記録（prefix: で解決したslugも slugs: に残す）
+    if (resolution.source !== 'placeId') {
+      await registerFacilitySlug(slug, resolution.placeId, extractPlaceIdSuffix(slug));
+    }
+    return resolution.placeId;
+  }
+
+  // フォールバック: 施設名検索API経由
+  try {
+    const searchUrl = `${await getBaseUrl()}/api/search-by-name?name=${encodeURIComponent(slug)}`;
+    const searchResponse = await fetch(searchUrl, {
+      next: { revalidate: 3600 }
+    });
+
+    if (searchResponse.ok) {
+      const searchData = await searchResponse.json();
+      if (searchData.placeId) {
+        console.log(`✅ [resolvePlaceId] Found placeId from search: ${searchData.placeId}`);
+        await registerFacilitySlug(slug, searchData.placeId, extractPlaceIdSuffix(slug));
+        return searchData.placeId;
+      }
+    }
+  } catch (error) {
+    console.error('❌ [resolvePlaceId] Search API failed:', error);
+  }
+
+  return null;
+}
+
+/**
+ * URLのパスからplaceIdを解決
+ *
+ * - 読めるURL: 短縮ID（shortid:）、なければ発行したURL（slug:）のキャッシュ参照のみ（施設名検索は呼ばない）
+ * - 旧方式のslug: resolveLegacySlug
+ * 解決できなかったURLは管理画面で確認できるよう記録する
+ */
+async function resolvePlaceId(segments: string[]): Promise<string | null> {
+  const path = segments.join('/');
+  console.log(`🔍 [resolvePlaceId] Resolving placeId for path: "${path}"`);
+
+  let placeId: string | null = null;
+  const shortId = parseFacilityPath(segments);
+  if (shortId) {
+    placeId = await resolveFacilityShortId(shortId);
+    if (placeId) {
+      console.log(`✅ [resolvePlaceId] Found placeId from short id ${shortId}: ${placeId}`);
+    } else {
+      placeId = await resolveIssuedFacilityPath(path);
+      if (placeId) console.log(`✅ [resolvePlaceId] Found placeId from issued path: ${placeId}`);
+    }
+  } else if (segments.length === 1) {
+    placeId = await resolveLegacySlug(segments[0]);
+  }
+
+  if (!placeId) {
+    console.error(`❌ [resolvePlaceId] Could not resolve placeId for path: ${path}`);
+    await recordUnresolvedSlug(path, (await headers()).get('referer'));
+  }
+  return placeId;
+}
+
+/**
+ * 施設データをAPIから取得
+ * 正規でないURL（旧方式のslug・表記の違う読めるURL・重複として統合された施設）は正規の詳細ページへ恒久リダイレクトする
+ * 読めるURLが未発行の施設は、施設名・住所から発行してリダイレクトする
+ *
+ * generateMetadata と DetailPage で1リクエストにつき1回だけ実行する（React cache()）
+ * 解決できなかったURLの記録・URLの発行を二重に行わないため。cache() は引数を参照で比較するのでパスの文字列で受ける
+ */
+const getFacilityData = cache(async (requestedPath: string): Promise<{ facility: SearchResult; path: string } | null> => {
+  const segments = requestedPath.split('/');
+
+  // 1. URLからplaceIdを解決
+  const placeId = await resolvePlaceId(segments);
+
+  if (!placeId) {
+    console.error(`No placeId found for path: ${requestedPath}`);
+    return null;
+  }
+
+  // 2. 正規URLの判定（redirect は例外で実装されているため try の外で行う）
+  const canonicalId = await resolveCanonicalPlaceId(placeId);
+  const reason = canonicalId !== normalizePlaceId(placeId) ? `merged into ${canonicalId}` : 'non-canonical path';
+  const issuedPath = await getIssuedFacilityPath(canonicalId);
+  if (issuedPath && requestedPath !== issuedPath) {
+    console.log(`↪️ [Detail] ${requestedPath} → ${issuedPath} (${reason}), redirecting`);
+    permanentRedirect(`/detail/${issuedPath}`);
+  }
+
+  let facility: SearchResult | null = null;
+  let path = issuedPath;
+  try {
+    // 3. placeIdで詳細情報を取得
+    const response = await fetch(`${await getBaseUrl()}/api/places?placeId=${canonicalId}`, {
+      next: { revalidate: 3600 } // ISRキャッシュ設定
+    });
+
+    if (!response.ok) {
+      console.error(`API error: ${response.status}`);
+      return null;
+    }
+
+    const data = await response.json();
+
+    // SearchResult形式に変換
+    facility = {
+      title: data.name || '',
+      uri: data.url || '',
+      placeId: `places/${canonicalId}`,
+      photoUrl: data.photoUrls?.[0],
+      photoUrls: data.photoUrls || [],
+      address: data.address,
+      phone: data.phone,
+      rating: data.rating,
+      reviewCount: data.reviewsCount,
+      detailedReviews: data.reviews || [],
+      website: data.website,
+      businessStatus: data.businessStatus,
+      priceLevel: data.priceLevel,
+      openingHours: data.openingHours,
+      wheelchairAccessible: data.wheelchairAccessible,
+      description: data.description,
+      location: data.location,
+    };
+
+    // 4. 検索時に判定した情報（Q&A・オーナー情報・葬儀形式・宗教宗派・座標）を検索キャッシュから補う
+    const cached = await findCachedSearchResult(canonicalId);
+    if (cached) {
+      facility.qanda = cached.qanda;
+      facility.ownerInfo = cached.ownerInfo;
+      facility.services = cached.services;
+      facility.religiousSupport = cached.religiousSupport;
+      facility.location = facility.location || cached.location;
+    }
+
+    // 5. 最寄り駅（regions.json の駅データから計算、外部API呼び出しなし）
+    if (facility.location) {
+      facility.nearestStations = findNearestStations(facility.location);
+    }
+
+    // 6. 読めるURLが未発行なら発行（発行できなければ PlaceID のURLのまま表示する）
+    if (!path && facility.title) {
+      path = await issueFacilityPath(canonicalId, facility.title, facility.address);
+    }
+  } catch (error) {
+    console.error('Failed to fetch facility data:', error);
+  }
+
+  if (!facility) return null;
+
+  path = path || canonicalId;
+  if (requestedPath !== path) {
+    console.log(`↪️ [Detail] ${requestedPath} → ${path} (${reason}), redirecting`);
+    permanentRedirect(`/detail/${path}`);
+  }
+
+  return { facility, path };
+});
+
+/**
+ * メタデータ生成（SEO最適化）
+ */
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { slug } = await params;
+  const data = await getFacilityData(slug.join('/'));
+  const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'https://sougifinder.vercel.app';
+
+  if (!data) {
+    return {
+      title: '施設が見つかりません',
+      description: '指定された葬儀社が見つかりませんでした。',
+    };
+  }
+
+  const { facility, path } = data;
+
+  // 都道府県を住所から抽出
+  const prefectureMatch = facility.address?.match(/^(.+?[都道府県])/);
+  const prefecture = prefectureMatch ? prefectureMatch[1] : '';
+
+  // タイトル最適化: 32文字以内
+  const title = prefecture
+    ? `${facility.title} | ${prefecture}の葬儀社`
+    : `${facility.title} | 葬儀社詳細`;
+
+  // Description最適化: 120文字以内、地域名を先頭に
+  const description = facility.description
+    ? facility.description.substring(0, 120)
+    : `${prefecture || ''}${facility.title}の詳細情報・口コミ・料金。${facility.address || ''}`;
+
+  return {
+    title,
+    description,
+    keywords: ['葬儀社', facility.title, prefecture, '葬儀', '家族葬', '口コミ', '料金'],
+    alternates: {
+      canonical: `${baseUrl}/detail/${path}`,
+    },
+    openGraph: {
+      title,
+      description,
+      type: 'website',
+      locale: 'ja_JP',
+      url: `${baseUrl}/detail/${path}`,
+      images: facility.photoUrl ? [{ url: facility.photoUrl, width: 1200, height: 630 }] : [],
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title,
+      description,
+      images: facility.photoUrl ? [facility.photoUrl] : [],
+    },
+  };
+}
+
+/**
+ * メインページコンポーネント（Server Component）
+ */
+export default async function DetailPage({ params }: Props) {
+  const { slug } = await params;
+  const data = await getFacilityData(slug.join('/'));
+
+  if (!data) {
+    notFound();
+  }
+
+  // クライアントコンポーネントにデータを渡す
+  return <DetailPageClient facility={data.facility} />;
+}
@@ -4,11 +4,20 @@ import React, { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { ResultsDisplay } from '../../components/ResultsDisplay';
 import { LogoIcon, MapPinIcon } from '../../components/Icons';
-import type { SearchResult } from '../../types';
+import type { Availability, FuneralService, NearbyArea, ReligionId, SearchResult } from '../../types';
 import {
   loadSearchResults,
-  generateFacilitySlugFromPlaceId
+  loadNearbyArea,
+  saveSearchResults,
+  getFacilityDetailUrl
 } from '../../utils/urlHelpers';
+import { getFirstPhotoUrl } from '../../utils/photoUrl';
+import { formatFuneralServicesParam, parseFuneralServicesParam } from '../../utils/funeralServices';
+import { parseReligionsParam } from '../../utils/religiousSupport';
+import { parseAvailabilityParam } from '../../utils/openingHours';
+import { resolveRegionAlias, type RegionAliasMatch } from '../../utils/regionAliases';
+import { formatSearchQuery, isPlainLocationQuery, parseSearchQuery } from '../../utils/searchQuery';
+import { searchFuneralHomesPage } from '../../services/geminiService';
 import { ItemListSchema } from '../../components/StructuredData';
 import { Breadcrumb } from '../../components/Breadcrumb';
 
@@ -16,25 +25,157 @@ type ViewMode = 'list' | 'map';
 
 interface ListPageClientProps {
   region: string;
+  // regions.jsonで解決できた地域名（サーバー側）
+  initialRegionName?: string;
+  // 検索キャッシュから取得した施設一覧（サーバー側）
+  initialResults?: SearchResult[];
+  // 「さらに表示」用のカーソル（サーバー側）
+  initialNextCursor?: string | null;
 }
 
-export const ListPageClient: React.FC<ListPageClientProps> = ({ region }) => {
+/**
+ * placeIdで重複を除いて追加
+ */
+const appendUniqueResults = (current: SearchResult[], next: SearchResult[]): SearchResult[] => {
+  const seen = new Set(current.map((r) => r.placeId || r.title));
+  return [...current, ...next.filter((r) => !seen.has(r.placeId || r.title))];
+};
+
+// 「さらに表示」1回あたり、新しい施設が見つかるまでに取得するページ数の上限
+const MAX_LOAD_MORE_PAGES = 3;
+
+export const ListPageClient: React.FC<ListPageClientProps> = ({ region, initialRegionName, initialResults, initialNextCursor }) => {
   const router = useRouter();
-  const [facilities, setFacilities] = useState<SearchResult[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+  const hasInitialResults = !!initialResults && initialResults.length > 0;
+  const [facilities, setFacilities] = useState<SearchResult[]>(hasInitialResults ? initialResults! : []);
+  const [isLoading, setIsLoading] = useState(!hasInitialResults);
   const [error, setError] = useState<string | null>(null);
-  const [regionName, setRegionName] = useState<string>('');
+  const [regionName, setRegionName] = useState<string>(hasInitialResults ? initialRegionName! : '');
   const [viewMode, setViewMode] = useState<ViewMode>('list');
-  const [hasSearched, setHasSearched] = useState<boolean>(false);
+  const [hasSearched, setHasSearched] = useState<boolean>(hasInitialResults);
   const [isNavigating, setIsNavigating] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(initialNextCursor ?? null);
+  // カーソル未取得でも、既知の地域ならサブエリアの結果を追加で取得できる
+  const [hasMore, setHasMore] = useState<boolean>(hasInitialResults ? !!initialNextCursor : !!initialRegionName);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [loadMoreError, setLoadMoreError] = useState<string | null>(null);
+  // 葬儀形式・宗教宗派・連絡可能性の絞り込み
+  // （?services=family,one-day&religion=shinto&availability=24h で共有できるようURLに保持）
+  const [selectedServices, setSelectedServices] = useState<FuneralService[]>([]);
+  const [selectedReligion, setSelectedReligion] = useState<ReligionId | null>(null);
+  const [selectedAvailability, setSelectedAvailability] = useState<Availability[]>([]);
+  // 現在地検索から遷移した場合の地域（現在地からの検索結果を近い順に表示する）
+  const [nearbyArea, setNearbyArea] = useState<NearbyArea | null>(null);
+  // 旧市町村名（浦和市など）で検索して遷移した場合の別名（現在の名称を案内する）
+  const [regionAlias, setRegionAlias] = useState<RegionAliasMatch | null>(null);
+  // 施設の種別などを指定した検索（"練馬 斎場"）から遷移した場合のクエリ（地域の一覧ではなくその検索結果を表示する）
+  const [typedQuery, setTypedQuery] = useState<string | null>(null);
+
+  useEffect(() => {
+    // ISRのページを共有するため、クエリ文字列はクライアント側で読む
+    const params = new URLSearchParams(window.location.search);
+    const services = parseFuneralServicesParam(params.get('services'));
+    const religion = parseReligionsParam(params.get('religion'))[0] || null;
+    const availability = parseAvailabilityParam(params.get('availability'));
+    if (services.length > 0 || religion || availability.length > 0) {
+      setSelectedServices(services);
+      setSelectedReligion(religion);
+      setSelectedAvailability(availability);
+      setNextCursor(null);
+      setHasMore(!!initialRegionName);
+    }
+  }, [initialRegionName]);
+
+  const updateFilters = (services: FuneralService[], religion: ReligionId | null, availability: Availability[]) => {
+    setSelectedServices(services);
+    setSelectedReligion(religion);
+    setSelectedAvailability(availability);
+    // カーソルは絞り込み条件ごとの並びに対応するため、条件が変わったら先頭から取り直す
+    setNextCursor(null);
+    setHasMore(!!initialRegionName);
+
+    const url = new URL(window.location.href);
+    if (services.length > 0) {
+      url.searchParams.set('services', formatFuneralServicesParam(services));
+    } else {
+      url.searchParams.delete('services');
+    }
+    if (religion) {
+      url.searchParams.set('religion', religion);
+    } else {
+      url.searchParams.delete('religion');
+    }
+    if (availability.length > 0) {
+      url.searchParams.set('availability', availability.join(','));
+    } else {
+      url.searchParams.delete('availability');
+    }
+    window.history.replaceState(null, '', `${url.pathname}${url.search}${url.hash}`);
+  };
 
   useEffect(() => {
+    // 現在地検索から遷移した場合は、地域の一覧ではなく現在地からの検索結果を表示
+    const nearbySearch = loadSearchResults();
+    const area = loadNearbyArea();
+    if (nearbySearch?.isCurrentLocation && area?.romaji === region) {
+      setFacilities(nearbySearch.results);
+      setRegionName(`${area.label}周辺`);
+      setNearbyArea(area);
+      setHasSearched(true);
+      setIsLoading(false);
+      return;
+    }
+
+    // 検索クエリを解析し、この地域の検索（"練馬区の葬儀社" "浦和市"）かどうかを判定
+    const searchData = loadSearchResults();
+    const parsedQuery = searchData && !searchData.isCurrentLocation ? parseSearchQuery(searchData.query) : null;
+    const searchedRegion = parsedQuery?.region?.romaji === region ? parsedQuery.region : null;
+    const alias = parsedQuery && searchedRegion && parsedQuery.location ? resolveRegionAlias(parsedQuery.location) : null;
+    setRegionAlias(alias && (alias.kind === 'merger' || alias.kind === 'renamed') ? alias : null);
+
+    // 施設の種別などを指定した検索は、地域の一覧ではなくその検索結果を表示
+    if (searchData && parsedQuery && searchedRegion && !isPlainLocationQuery(parsedQuery)) {
+      setFacilities(searchData.results);
+      setRegionName(searchedRegion.name);
+      setTypedQuery(formatSearchQuery(parsedQuery));
+      setHasSearched(true);
+      setIsLoading(false);
+      return;
+    }
+    const searchedRegionName = searchedRegion ? searchedRegion.name : searchData?.query;
+
+    // サーバー側で検索キャッシュから取得済み
+    if (hasInitialResults) {
+      return;
+    }
+
+    // 地域名で検索（キャッシュ未作成の地域に直接アクセスした場合）
+    const searchRegion = async (name: string) => {
+      try {
+        const { places: results, pagination } = await searchFuneralHomesPage(name);
+        saveSearchResults(results, name, false);
+        setFacilities(results);
+        setRegionName(name);
+        setNextCursor(pagination.nextCursor);
+        setHasMore(pagination.hasMore);
+        setHasSearched(true);
+      } catch (e) {
+        console.error('Error searching region:', e);
+        setError('検索中にエラーが発生しました。しばらくしてからもう一度お試しください。');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
     // URLスラッグから地域の施設データを取得
     const loadFacilities = () => {
-      try {
-        // sessionStorageから検索結果を取得
-        const searchData = loadSearchResults();
+      // 既知の地域で、直前の検索結果が別の地域のものなら改めて検索
+      if (initialRegionName && (!searchData || searchedRegionName !== initialRegionName)) {
+        searchRegion(initialRegionName);
+        return;
+      }
 
+      try {
         if (!searchData) {
           // キャッシュがない場合はホームへリダイレクト
           setError('検索結果が見つかりません。検索からやり直してください。');
@@ -58,7 +199,7 @@ export const ListPageClient: React.FC<ListPageClientProps> = ({ region }) => {
         } else {
           // 地名検索の結果 - 全結果を表示(すでに地域で絞り込まれている)
           setFacilities(results);
-          setRegionName(query);
+          setRegionName(searchedRegionName || query);
         }
 
         setHasSearched(true);
@@ -71,7 +212,7 @@ export const ListPageClient: React.FC<ListPageClientProps> = ({ region }) => {
     };
 
     loadFacilities();
-  }, [region]);
+  }, [region, initialRegionName, hasInitialResults]);
 
   const handleSelectResult = (result: SearchResult) => {
     if (!result.placeId) {
@@ -81,10 +222,44 @@ export const ListPageClient: React.FC<ListPageClientProps> = ({ region }) => {
 
     setIsNavigating(true);
 
-    // 【新方式】PlaceIDをそのままslugとして使用
-    // これにより100%の一意性を保証し、KVマッピングが不要になる
-    const facilitySlug = generateFacilitySlugFromPlaceId(result.placeId);
-    router.push(`/detail/${facilitySlug}`);
+    // 読めるURL（detailPath）へ遷移（未発行の施設は詳細ページで発行・リダイレクトされる）
+    router.push(getFacilityDetailUrl(result));
+  };
+
+  // 続きのページを取得して末尾に追加（2ページ目以降はサーバー側で町域・駅ごとに検索される）
+  const handleLoadMore = async () => {
+    if (!initialRegionName || isLoadingMore) return;
+
+    setIsLoadingMore(true);
+    setLoadMoreError(null);
+    try {
+      let cursor = nextCursor;
+      let merged = facilities;
+      let more = false;
+      for (let i = 0; i < MAX_LOAD_MORE_PAGES; i++) {
+        const { places, pagination } = await searchFuneralHomesPage(initialRegionName, {
+          ...(cursor && { cursor }),
+          services: selectedServices,
+          religions: selectedReligion ? [selectedReligion] : [],
+          availability: selectedAvailability,
+        });
+        const before = merged.length;
+        merged = appendUniqueResults(merged, places);
+        cursor = pagination.nextCursor;
+        more = pagination.hasMore;
+        if (merged.length > before || !more) break;
+      }
+
+      setFacilities(merged);
+      setNextCursor(cursor);
+      setHasMore(more);
+      saveSearchResults(merged, initialRegionName, false);
+    } catch (e) {
+      console.error('Error loading more facilities:', e);
+      setLoadMoreError('追加の読み込みに失敗しました。もう一度お試しください。');
+    } finally {
+      setIsLoadingMore(false);
+    }
   };
 
   const handleBackToHome = () => {
@@ -130,8 +305,8 @@ export const ListPageClient: React.FC<ListPageClientProps> = ({ region }) => {
   // ItemListSchema用のデータ生成
   const itemListData = facilities.map((facility) => ({
     name: facility.title,
-    url: `/detail/${generateFacilitySlugFromPlaceId(facility.placeId || '')}`,
-    image: facility.photoUrl,
+    url: getFacilityDetailUrl(facility),
+    image: getFirstPhotoUrl(facility),
     description: facility.address,
   }));
 
@@ -195,6 +370,20 @@ export const ListPageClient: React.FC<ListPageClientProps> = ({ region }) => {
               <span className="text-sm font-medium">地域</span>
             </div>
             <h1 className="text-2xl sm:text-3xl font-bold text-slate-800 mb-2">{regionName}の葬儀社</h1>
+            {nearbyArea && (
+              <p className="text-sm text-slate-500 mb-1">
+                現在地{nearbyArea.station ? `（${nearbyArea.station.name}駅付近）` : ''}からの検索結果です
+              </p>
+            )}
+            {typedQuery && (
+              <p className="text-sm text-slate-500 mb-1">「{typedQuery}」の検索結果です</p>
+            )}
+            {regionAlias && (
+              <p className="text-sm text-slate-500 mb-1">
+                「{regionAlias.alias}」は現在の{regionAlias.current}です
+                {regionAlias.since ? `（${regionAlias.since}年に${regionAlias.kind === 'renamed' ? '改称' : '合併'}）` : ''}
+              </p>
+            )}
             <p className="text-slate-600">
               {facilities.length > 0
                 ? `${facilities.length}件の施設が見つかりました`
@@ -203,6 +392,7 @@ export const ListPageClient: React.FC<ListPageClientProps> = ({ region }) => {
           </div>
 
         {facilities.length > 0 ? (
+          <>
           <ResultsDisplay
             isLoading={isLoading}
             error={error}
@@ -212,7 +402,29 @@ export const ListPageClient: React.FC<ListPageClientProps> = ({ region }) => {
             setViewMode={setViewMode}
             activeSearchQuery={regionName}
             onSelectResult={handleSelectResult}
+            selectedServices={selectedServices}
+            onSelectedServicesChange={(services) => updateFilters(services, selectedReligion, selectedAvailability)}
+            selectedReligion={selectedReligion}
+            onSelectedReligionChange={(religion) => updateFilters(selectedServices, religion, selectedAvailability)}
+            selectedAvailability={selectedAvailability}
+            onSelectedAvailabilityChange={(availability) => updateFilters(selectedServices, selectedReligion, availability)}
           />
+          {/* さらに表示 */}
+          {hasMore && initialRegionName && !nearbyArea && !typedQuery && (
+            <div className="mt-6 text-center">
+              <button
+                onClick={handleLoadMore}
+                disabled={isLoadingMore}
+                className="px-6 py-3 bg-white border border-sky-600 text-sky-700 font-semibold rounded-lg hover:bg-sky-50 transition-colors disabled:opacity-60 disabled:cursor-wait"
+              >
+                {isLoadingMore ? '周辺エリアを検索中...' : 'さらに表示'}
+              </button>
+              {loadMoreError && (
+                <p className="text-sm text-red-600 mt-2">{loadMoreError}</p>
+              )}
+            </div>
+          )}
+          </>
         ) : (
           <div className="bg-white rounded-lg shadow-sm p-12 text-center">
             <MapPinIcon className="w-16 h-16 text-slate-300 mx-auto mb-4" />
@@ -1,6 +1,8 @@
 import { Metadata } from 'next';
+import { permanentRedirect } from 'next/navigation';
 import { ListPageClient } from './ListPageClient';
-import regionsDataModule from '../../utils/data/regions.json';
+import { findRegionAliasBySlug, getRegionListing } from '../../utils/regionListing';
+import { assertValidRegionsData, getAllRegions, getRegionByRomaji } from '../../utils/regionRegistry';
 
 // ISR設定: 1時間ごとに再生成
 export const revalidate = 3600;
@@ -8,33 +10,15 @@ export const revalidate = 3600;
 // Dynamic Routing設定: 静的生成されていないパスも許可（priority 4-5用）
 export const dynamicParams = true;
 
-// regions.jsonのインポート
-const regionsData = (regionsDataModule as any).default || regionsDataModule;
-
-// RegionData型定義
-interface RegionData {
-  romaji: string;
-  type: 'municipality' | 'station' | 'area';
-  priority: 1 | 2 | 3 | 4 | 5;
-  prefecture?: string;
-  lat?: number;
-  lon?: number;
-  lineIds?: string[];
-}
-
 /**
  * ローマ字スラッグから日本語地域名を取得
- * regions.jsonの逆引き検索
+ * regions.jsonの逆引き検索（旧市町村名などの別名は現在の地域名）
  */
 function getJapaneseRegionName(romajiSlug: string): string {
-  for (const [japaneseName, data] of Object.entries(regionsData)) {
-    const regionData = data as RegionData;
-    if (regionData.romaji === romajiSlug) {
-      return japaneseName;
-    }
-  }
   // 見つからない場合はURLデコードして返す
-  return decodeURIComponent(romajiSlug);
+  return getRegionByRomaji(romajiSlug)?.name
+    || findRegionAliasBySlug(romajiSlug)?.name
+    || decodeURIComponent(romajiSlug);
 }
 
 // 動的パラメータの型定義 (Next.js 15+ では params は Promise)
@@ -48,14 +32,16 @@ type Props = {
  * regions.jsonから優先度1-2のエントリを使用
  */
 export async function generateStaticParams() {
+  // regions.jsonに空のromaji・都道府県コードの欠損があればビルドを失敗させる
+  assertValidRegionsData();
+
   // 【拡張版】regions.jsonから優先度1-2のエントリを動的に取得
   const staticPaths: string[] = [
     'current', // 現在地検索（特別値）
   ];
 
   // regions.jsonから優先度1-3のスラッグを抽出（拡大）
-  for (const [name, data] of Object.entries(regionsData)) {
-    const regionData = data as RegionData;
+  for (const regionData of getAllRegions()) {
     // 優先度1（主要駅）+ 優先度2（市区町村・一般駅）+ 優先度3（マイナー駅）を事前ビルド
     if (regionData.priority <= 3 && regionData.romaji) {
       staticPaths.push(regionData.romaji);
@@ -88,6 +74,11 @@ export async function generateMetadata({ params }: Props): Promise<Metadata> {
     displayRegion = getJapaneseRegionName(region);
   }
 
+  // 別名（/list/浦和市 など）は正規の地域のURLを canonical にする
+  const canonicalRegion = region === 'current' || getRegionByRomaji(region)
+    ? region
+    : findRegionAliasBySlug(region)?.romaji || region;
+
   // タイトル最適化: 32文字以内
   const title = `${displayRegion}の葬儀社一覧`;
   // Description最適化: 120文字以内
@@ -98,14 +89,14 @@ export async function generateMetadata({ params }: Props): Promise<Metadata> {
     description,
     keywords: ['葬儀社', displayRegion, '葬儀', '家族葬', '一覧', '比較', '口コミ'],
     alternates: {
-      canonical: `${baseUrl}/list/${region}`,
+      canonical: `${baseUrl}/list/${canonicalRegion}`,
     },
     openGraph: {
       title,
       description,
       type: 'website',
       locale: 'ja_JP',
-      url: `${baseUrl}/list/${region}`,
+      url: `${baseUrl}/list/${canonicalRegion}`,
     },
     twitter: {
       card: 'summary',
@@ -117,10 +108,29 @@ export async function generateMetadata({ params }: Props): Promise<Metadata> {
 
 /**
  * メインページコンポーネント(Server Component)
+ * regions.jsonで解決できる地域は検索キャッシュから施設一覧を取得してHTMLに含める
+ * （検索エンジンや共有リンクから直接アクセスした場合も一覧を表示するため）
  */
 export default async function ListPage({ params }: Props) {
   const { region } = await params;
 
-  // クライアントコンポーネントにregionパラメータを渡す
-  return <ListPageClient region={region} />;
+  const listing = region === 'current' ? null : await getRegionListing(region);
+
+  // /list/浦和市 などの別名は正規の地域のURLへ
+  if (region !== 'current' && !listing) {
+    const alias = findRegionAliasBySlug(region);
+    if (alias) {
+      console.log(`🔀 [List] /list/${region} → /list/${alias.romaji}`);
+      permanentRedirect(`/list/${alias.romaji}`);
+    }
+  }
+
+  return (
+    <ListPageClient
+      region={region}
+      initialRegionName={listing?.region.name}
+      initialResults={listing?.results}
+      initialNextCursor={listing?.nextCursor}
+    />
+  );
 }
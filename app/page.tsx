@@ -4,7 +4,7 @@ import React, { useState, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import type { SearchResult } from './types';
 import { useGeolocation } from './hooks/useGeolocation';
-import { searchFuneralHomes } from './services/geminiService';
+import { fetchNearbyArea, searchFuneralHomes } from './services/geminiService';
 import { SearchBar } from './components/SearchBar';
 import { ResultsDisplay } from './components/ResultsDisplay';
 import { PrefectureSelector } from './components/PrefectureSelector';
@@ -12,11 +12,15 @@ import { LogoIcon, CompassIcon, AlertTriangleIcon, MapPinIcon, SearchIcon } from
 import {
   generateFacilitySlug,
   saveSearchResults,
+  saveNearbyArea,
   getCurrentLocationListUrl,
+  getRegionListUrl,
   generateRegionSlugAsync,
-  saveSlugPlaceIdMapping,
-  generateFacilitySlugAsync
+  getFacilityDetailUrl
 } from './utils/urlHelpers';
+import { sortSearchResults } from './utils/geo';
+import { parseSearchQuery } from './utils/searchQuery';
+import { formatFuneralServicesParam } from './utils/funeralServices';
 import { WebSiteSchema } from './components/StructuredData';
 
 type SearchTab = 'nearby' | 'manual' | 'prefecture';
@@ -59,13 +63,23 @@ export default function HomePage() {
       saveSearchResults(places, searchQuery, isCurrentLocation);
 
       // 検索結果に基づいて適切なURLに遷移
-      if (isCurrentLocation) {
-        // 現在地検索の場合は /list/current へ
-        router.push(getCurrentLocationListUrl());
+      if (isCurrentLocation && searchPosition) {
+        // 現在地検索の場合は現在地の市区町村（または最寄り駅）の一覧ページへ
+        // 一覧ページでは保存した現在地からの検索結果を「〇〇市周辺」として近い順に表示する
+        // 地域を解決できなければ /list/current へ
+        const area = await fetchNearbyArea(searchPosition, sortSearchResults(places, 'distance')).catch((e) => {
+          console.error('Error resolving nearby area:', e);
+          return null;
+        });
+        saveNearbyArea(area);
+        router.push(area ? getRegionListUrl(area.romaji) : getCurrentLocationListUrl());
       } else if (places.length > 0) {
-        // 地名検索の場合は検索クエリをスラッグとして使用
-        const regionSlug = await generateRegionSlugAsync(searchQuery);
-        router.push(`/list/${regionSlug}`);
+        // 地名検索の場合は解析した地域（解決できなければ地名をスラッグに変換）の一覧ページへ
+        // クエリ中の葬儀形式（"練馬 家族葬"）は一覧ページの絞り込みとしてURLに付ける
+        const parsed = parseSearchQuery(searchQuery);
+        const regionSlug = parsed.region?.romaji || await generateRegionSlugAsync(parsed.location || searchQuery);
+        const servicesParam = parsed.services.length > 0 ? `?services=${formatFuneralServicesParam(parsed.services)}` : '';
+        router.push(`${getRegionListUrl(regionSlug)}${servicesParam}`);
       }
     } catch (e) {
       console.error(e);
@@ -83,12 +97,13 @@ export default function HomePage() {
     performSearch('近くの葬儀社', position, true);
   }, [position, geoError, performSearch]);
 
-  const handleManualSearch = useCallback(() => {
-    if (!manualQuery.trim()) {
+  // 入力補完の候補を選んだ場合は、選んだ地名で置き換えたクエリで検索する
+  const handleManualSearch = useCallback((query: string = manualQuery) => {
+    if (!query.trim()) {
       setError('検索キーワードを入力してください。');
       return;
     }
-    performSearch(manualQuery, position, false);
+    performSearch(query, position, false);
   }, [manualQuery, position, performSearch]);
 
   const handleSelectResult = async (result: SearchResult) => {
@@ -97,13 +112,8 @@ export default function HomePage() {
       return;
     }
 
-    // 施設詳細ページへ遷移
-    const facilitySlug = await generateFacilitySlugAsync(result.title, result.placeId);
-
-    // slug → placeId マッピングをsessionStorageに保存
-    await saveSlugPlaceIdMapping(facilitySlug, result.placeId);
-
-    router.push(`/detail/${facilitySlug}`);
+    // 施設詳細ページへ遷移（読めるURLが未発行の施設は詳細ページで発行・リダイレクトされる）
+    router.push(getFacilityDetailUrl(result));
   };
 
   const renderNearbyTabContent = () => (
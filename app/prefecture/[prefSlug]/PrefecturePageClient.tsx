@@ -3,24 +3,12 @@
 import React, { useMemo, useState, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import type { PrefectureData } from '../../utils/data/prefectures';
-import regionsDataModule from '../../utils/data/regions.json';
+import { getRegionsByPrefecture } from '../../utils/regionRegistry';
 import { LogoIcon, SearchIcon } from '../../components/Icons';
 import { searchFuneralHomes } from '../../services/geminiService';
 import { saveSearchResults } from '../../utils/urlHelpers';
 import { useGeolocation } from '../../hooks/useGeolocation';
 
-const regionsData = (regionsDataModule as any).default || regionsDataModule;
-
-interface RegionData {
-  romaji: string;
-  type: 'municipality' | 'station' | 'area';
-  priority: 1 | 2 | 3 | 4 | 5;
-  prefecture?: string;
-  lat?: number;
-  lon?: number;
-  lineIds?: string[];
-}
-
 interface PrefecturePageClientProps {
   prefSlug: string;
   prefCode: string;
@@ -42,25 +30,20 @@ export function PrefecturePageClient({ prefSlug, prefCode, prefecture }: Prefect
     const munis: Array<{ name: string; romaji: string; priority: number }> = [];
     const stats: Array<{ name: string; romaji: string; priority: number; lineIds?: string[] }> = [];
 
-    Object.entries(regionsData).forEach(([name, data]) => {
-      const regionData = data as RegionData;
-
-      // 都道府県コードが一致するものだけフィルタ
-      if (regionData.prefecture === prefCode) {
-        if (regionData.type === 'municipality') {
-          munis.push({
-            name,
-            romaji: regionData.romaji,
-            priority: regionData.priority,
-          });
-        } else if (regionData.type === 'station') {
-          stats.push({
-            name,
-            romaji: regionData.romaji,
-            priority: regionData.priority,
-            lineIds: regionData.lineIds,
-          });
-        }
+    getRegionsByPrefecture(prefCode).forEach((regionData) => {
+      if (regionData.type === 'municipality') {
+        munis.push({
+          name: regionData.name,
+          romaji: regionData.romaji,
+          priority: regionData.priority,
+        });
+      } else if (regionData.type === 'station') {
+        stats.push({
+          name: regionData.name,
+          romaji: regionData.romaji,
+          priority: regionData.priority,
+          lineIds: regionData.lineIds,
+        });
       }
     });
 
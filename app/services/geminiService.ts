@@ -1,5 +1,7 @@
-import type { SearchResult } from '../types';
+import type { Availability, FuneralService, NearbyArea, ReligionId, SearchResult } from '../types';
 import { getPlaceDetails } from './placesService';
+import { attachDistances } from '../utils/geo';
+import type { PlaceSuggestion } from '../utils/placeSuggestions';
 
 interface Position {
   latitude: number;
@@ -66,6 +68,7 @@ export const searchFuneralHomes = async (
         priceLevel: details.priceLevel,
         openingHours: details.openingHours,
         wheelchairAccessible: details.wheelchairAccessible,
+        location: place.location || details.location,
       };
     })
   );
@@ -74,5 +77,110 @@ export const searchFuneralHomes = async (
   console.log(`[Photos] ${places.filter(p => p.photoUrls && p.photoUrls.length > 0).length} places have photos`);
   console.log(`[Reviews] ${places.filter(p => p.detailedReviews && p.detailedReviews.length > 0).length} places have reviews`);
 
+  // ここで座標を取得できた施設にも現在地からの距離を付与（並び順はサーバー側の近い順のまま）
+  if (position) {
+    return attachDistances(places, { lat: position.latitude, lng: position.longitude });
+  }
   return places;
 };
+
+export interface SearchPagination {
+  page: number;
+  pageSize: number;
+  offset: number;
+  total: number;
+  hasMore: boolean;
+  nextCursor: string | null;
+}
+
+/**
+ * 地域検索の結果をページ単位で取得（「さらに表示」用）
+ * 2ページ目以降はサーバー側で同じ市区町村内の町域・駅でも検索して連結される
+ * services / religions / availability を指定すると、条件に合う施設のみを返す
+ * （サーバー側で詳細情報を取得済みのため、追加のPlace Details呼び出しは不要）
+ */
+export const searchFuneralHomesPage = async (
+  query: string,
+  options: {
+    cursor?: string | null;
+    page?: number;
+    pageSize?: number;
+    services?: FuneralService[];
+    religions?: ReligionId[];
+    availability?: Availability[];
+  } = {}
+): Promise<{ places: SearchResult[]; pagination: SearchPagination }> => {
+  const response = await fetch('/api/search-funeral-homes', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      query,
+      position: null,
+      page: options.page ?? (options.cursor ? undefined : 1),
+      pageSize: options.pageSize,
+      cursor: options.cursor || undefined,
+      services: options.services && options.services.length > 0 ? options.services : undefined,
+      religions: options.religions && options.religions.length > 0 ? options.religions : undefined,
+      availability: options.availability && options.availability.length > 0 ? options.availability : undefined,
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Unknown error' }));
+    throw new Error(error.error || 'Failed to search funeral homes');
+  }
+
+  const { places, pagination } = await response.json();
+
+  return { places: places as SearchResult[], pagination };
+};
+
+/**
+ * 現在地から地域（/list/{romaji}）を解決
+ * places には現在地検索の結果（近い順）を渡し、住所から市区町村を判定させる
+ * 解決できなければ null
+ */
+export const fetchNearbyArea = async (
+  position: Position,
+  places: SearchResult[] = []
+): Promise<NearbyArea | null> => {
+  const response = await fetch('/api/reverse-geocode', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      position,
+      addresses: places.map((place) => place.address).filter(Boolean),
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Unknown error' }));
+    throw new Error(error.error || 'Failed to resolve area');
+  }
+
+  const { area } = await response.json();
+  return area as NearbyArea | null;
+};
+
+/**
+ * 検索バーの地名の入力補完
+ * signal で入力が変わったときの古いリクエストを中断する
+ */
+export const fetchPlaceSuggestions = async (
+  query: string,
+  signal?: AbortSignal
+): Promise<PlaceSuggestion[]> => {
+  const response = await fetch(`/api/place-suggestions?q=${encodeURIComponent(query)}`, { signal });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Unknown error' }));
+    throw new Error(error.error || 'Failed to fetch place suggestions');
+  }
+
+  const { suggestions } = await response.json();
+  return suggestions as PlaceSuggestion[];
+};
@@ -3,7 +3,7 @@
  * Place IDを使用して施設の詳細情報を取得
  */
 
-import type { Review } from '../types';
+import type { GeoPoint, Review } from '../types';
 
 interface PlaceDetailsResponse {
   name?: string; // 公式な日本語名
@@ -23,6 +23,7 @@ interface PlaceDetailsResponse {
     weekday_text?: string[];
   };
   wheelchairAccessible?: boolean;
+  location?: GeoPoint;
 }
 
 /**
@@ -49,6 +50,7 @@ export const getPlaceDetails = async (
     weekday_text?: string[];
   };
   wheelchairAccessible?: boolean;
+  location?: GeoPoint;
 }> => {
   try {
     // Vercel Serverless Functionエンドポイントを呼び出し
@@ -78,6 +80,7 @@ export const getPlaceDetails = async (
       priceLevel: data.priceLevel,
       openingHours: data.openingHours,
       wheelchairAccessible: data.wheelchairAccessible,
+      location: data.location,
     };
 
   } catch (error) {
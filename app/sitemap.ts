@@ -1,19 +1,5 @@
 import { MetadataRoute } from 'next';
-import regionsDataModule from './utils/data/regions.json';
-
-// regions.jsonのインポート
-const regionsData = (regionsDataModule as any).default || regionsDataModule;
-
-// RegionData型定義
-interface RegionData {
-  romaji: string;
-  type: 'municipality' | 'station' | 'area';
-  priority: 1 | 2 | 3 | 4 | 5;
-  prefecture?: string;
-  lat?: number;
-  lon?: number;
-  lineIds?: string[];
-}
+import { getAllRegions } from './utils/regionRegistry';
 
 // 都道府県コードから名前へのマッピング
 const prefectureCodeToName: Record<string, string> = {
@@ -108,9 +94,7 @@ export default function sitemap(): MetadataRoute.Sitemap {
   Object.values(prefectureCodeToName).forEach((slug) => addedSlugs.add(slug));
   addedSlugs.add('current');
 
-  for (const [name, data] of Object.entries(regionsData)) {
-    const regionData = data as RegionData;
-
+  for (const regionData of getAllRegions()) {
     // 優先度1-3のみ（主要駅、市区町村）
     if (regionData.priority <= 3 && regionData.romaji && !addedSlugs.has(regionData.romaji)) {
       addedSlugs.add(regionData.romaji);
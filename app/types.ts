@@ -25,6 +25,80 @@ export interface OwnerInfo {
   posts?: string[];      // オーナーからの投稿
 }
 
+// 葬儀形式（family: 家族葬 / one-day: 一日葬 / direct: 直葬・火葬式 / company: 社葬）
+export type FuneralService = 'family' | 'one-day' | 'direct' | 'company';
+
+// 検索する施設の種別（funeral_home: 葬儀社 / hall: 斎場・葬儀場 / crematorium: 火葬場）
+export type FacilityType = 'funeral_home' | 'hall' | 'crematorium';
+
+// 宗教・宗派（any-sect: 宗派を問わず対応 / buddhism: 宗派不明の仏式）
+export type ReligionId =
+  | 'any-sect' | 'jodo-shinshu' | 'jodo' | 'soto' | 'rinzai' | 'nichiren' | 'shingon' | 'tendai' | 'buddhism'
+  | 'shinto' | 'christian' | 'nonreligious';
+
+// 宗教・宗派の対応を確認できた情報源
+export type ReligionSource = 'gemini' | 'owner' | 'qanda' | 'website';
+
+export interface ReligiousSupport {
+  religion: ReligionId;
+  sources: ReligionSource[];
+  evidence?: string; // 根拠となった本文の抜粋
+}
+
+// 営業時間（曜日ごと）。open / close は0時からの分数（日をまたぐ場合 close は1440以上）
+export interface DaySchedule {
+  day: number; // 0: 日曜 〜 6: 土曜
+  closed: boolean;
+  allDay: boolean;
+  periods: Array<{ open: number; close: number }>;
+}
+
+export interface WeeklySchedule {
+  days: DaySchedule[];
+  alwaysOpen: boolean; // 全曜日24時間営業
+}
+
+// 24時間対応を確認できた情報源（hours: 営業時間）
+export type TwentyFourHourSource = 'hours' | 'owner' | 'qanda' | 'website';
+
+export interface TwentyFourHourSupport {
+  sources: TwentyFourHourSource[];
+  evidence?: string; // 根拠となった本文の抜粋
+}
+
+// 緯度・経度
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+// 最寄り駅（regions.json の駅データから計算）
+export interface NearestStation {
+  name: string; // 駅名（「駅」なし）
+  romaji: string;
+  prefecture: string; // 都道府県コード
+  location: GeoPoint;
+  distance: number; // 施設からの直線距離（m）
+  walkingMinutes: number;
+  lines: string[]; // 路線名（lines.json 未生成の場合は空）
+}
+
+// 現在地から解決した地域（/list/{romaji} への遷移と「〇〇市周辺」の表示に使う）
+export interface NearbyArea {
+  name: string; // regions.json の地域名（例: 世田谷）
+  romaji: string;
+  type: 'municipality' | 'station';
+  label: string; // 表示名（例: 世田谷区 / 渋谷駅）
+  prefecture: string | null; // 都道府県コード
+  station: NearestStation | null; // 現在地の最寄り駅
+}
+
+// 検索結果の並び順（relevance: 検索結果の順のまま）
+export type SearchSortOrder = 'relevance' | 'distance' | 'rating' | 'reviews';
+
+// 連絡可能性の絞り込み（open-now: 今すぐ連絡可能 / 24h: 24時間対応）
+export type Availability = 'open-now' | '24h';
+
 export interface SearchResult {
   title:string;
   uri: string;
@@ -50,4 +124,14 @@ export interface SearchResult {
   wheelchairAccessible?: boolean;
   ownerInfo?: OwnerInfo;
   description?: string; // AI生成された施設紹介文
+  matchConfidence?: number; // Gemini抽出名とgroundingChunkの照合スコア（0〜1）
+  aliases?: string[]; // 同一施設として統合された他のplaceId（重複統合）
+  services?: FuneralService[]; // 対応している葬儀形式
+  religiousSupport?: ReligiousSupport[]; // 対応している宗教・宗派（情報源つき）
+  openingSchedule?: WeeklySchedule; // openingHours.weekday_text を解析した営業時間
+  twentyFourHour?: TwentyFourHourSupport; // 24時間対応（記載がなければ省略）
+  location?: GeoPoint; // 施設の座標（Place Details の geometry）
+  distance?: number; // 現在地からの距離（m）。現在地検索のレスポンスでのみ付与（キャッシュしない）
+  nearestStations?: NearestStation[]; // 最寄り駅（詳細ページの表示時に計算）
+  detailPath?: string; // 詳細ページの読めるURL（/detail/ 以降）。発行済みの施設のみレスポンス時に付与（キャッシュしない）
 }
\ No newline at end of file
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import type { GroundingChunk } from '../../types';
+import {
+  computeNameSimilarity,
+  matchDetailsToChunks,
+  MATCH_ACCEPT_THRESHOLD,
+  MATCH_REJECT_THRESHOLD,
+  normalizeFacilityName,
+} from '../facilityMatcher';
+
+function chunk(title: string, placeId: string): GroundingChunk {
+  return { maps: { title, placeId, uri: `https://maps.google.com/?cid=${placeId}` } } as GroundingChunk;
+}
+
+describe('normalizeFacilityName', () => {
+  it('法人格・空白・末尾の施設種別を除く', () => {
+    expect(normalizeFacilityName('株式会社 セレモニー　ＡＢＣ会館')).toBe('セレモニーabc');
+    expect(normalizeFacilityName('(株)練馬斎場')).toBe('練馬');
+  });
+});
+
+describe('computeNameSimilarity', () => {
+  it('表記揺れだけの施設名は ACCEPT 以上', () => {
+    expect(computeNameSimilarity('株式会社セレハウス谷原', 'セレハウス 谷原')).toBe(1);
+    expect(computeNameSimilarity('セレハウス谷原', 'セレハウス谷原ホール')).toBeGreaterThanOrEqual(MATCH_ACCEPT_THRESHOLD);
+  });
+
+  it('支店名の有無は包含関係で ACCEPT 以上', () => {
+    expect(computeNameSimilarity('マキノ祭典', 'マキノ祭典 石神井公園駅前店')).toBeGreaterThanOrEqual(MATCH_ACCEPT_THRESHOLD);
+  });
+
+  it('無関係な施設名は REJECT 未満', () => {
+    expect(computeNameSimilarity('セレハウス谷原', '練馬区立斎場')).toBeLessThan(MATCH_REJECT_THRESHOLD);
+  });
+});
+
+describe('matchDetailsToChunks', () => {
+  it('並び順ではなく名前で対応付ける', () => {
+    const matches = matchDetailsToChunks(
+      [['練馬斎場', 1], ['セレハウス谷原', 2]],
+      [chunk('セレハウス谷原', 'ChIJ-A'), chunk('練馬斎場', 'ChIJ-B')]
+    );
+
+    expect(matches.map((match) => match.chunk?.maps?.placeId)).toEqual(['ChIJ-B', 'ChIJ-A']);
+    expect(matches.every((match) => match.confidence === 1 && !match.needsVerification)).toBe(true);
+  });
+
+  it('REJECT 未満の施設には割り当てない', () => {
+    const [match] = matchDetailsToChunks([['セレハウス谷原', 1]], [chunk('練馬区立斎場', 'ChIJ-B')]);
+
+    expect(match.chunk).toBeNull();
+    expect(match.confidence).toBe(0);
+    expect(match.needsVerification).toBe(false);
+  });
+
+  it('ACCEPT 未満・REJECT 以上は再検証が必要', () => {
+    const [match] = matchDetailsToChunks([['セレハウス谷原', 1]], [chunk('セレモニー谷原', 'ChIJ-A')]);
+    const score = computeNameSimilarity('セレハウス谷原', 'セレモニー谷原');
+
+    expect(score).toBeGreaterThanOrEqual(MATCH_REJECT_THRESHOLD);
+    expect(score).toBeLessThan(MATCH_ACCEPT_THRESHOLD);
+    expect(match.chunk?.maps?.placeId).toBe('ChIJ-A');
+    expect(match.needsVerification).toBe(true);
+  });
+
+  it('1つの候補は1施設にだけ割り当てる', () => {
+    const matches = matchDetailsToChunks(
+      [['セレハウス谷原', 1], ['セレハウス谷原 別館', 2]],
+      [chunk('セレハウス谷原', 'ChIJ-A')]
+    );
+
+    expect(matches[0].chunk?.maps?.placeId).toBe('ChIJ-A');
+    expect(matches[1].chunk).toBeNull();
+  });
+});
@@ -0,0 +1,51 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { cacheSet, createMemoryBackend, setCacheBackend } from '../cache';
+import { issueFacilityPath, parseFacilityPath, resolveFacilityShortId } from '../facilityPath';
+
+// Kuroshiro の辞書を読み込まない（短縮IDの発行だけを確かめる）
+vi.mock('../romajiConversion', () => ({
+  convertTextsToRomaji: async (texts: string[]) =>
+    texts.map((text) => ({ text, romaji: 'serehausutanihara', cached: false })),
+}));
+
+const PLACE_ID = 'ChIJN1t_tDeuEmsRUsoyG83frY4';
+const ADDRESS = '日本、〒177-0033 東京都練馬区高野台1-2-3';
+
+function shortIdOf(path: string | null): string | null {
+  return path ? parseFacilityPath(path.split('/')) : null;
+}
+
+describe('issueFacilityPath', () => {
+  beforeEach(() => {
+    setCacheBackend(createMemoryBackend());
+  });
+
+  it('短縮IDを予約して読めるURLを発行する', async () => {
+    const path = await issueFacilityPath(`places/${PLACE_ID}`, 'セレハウス谷原', ADDRESS);
+    const shortId = shortIdOf(path);
+
+    expect(path).toMatch(/^tokyo\/nerima\/serehausutanihara-[0-9a-z]{6}$/);
+    expect(await resolveFacilityShortId(shortId!)).toBe(PLACE_ID);
+  });
+
+  it('他の施設と衝突した短縮IDは長くする', async () => {
+    const shortId = shortIdOf(await issueFacilityPath(PLACE_ID, 'セレハウス谷原', ADDRESS))!;
+
+    // 同じ短縮IDを他の施設が使っている状態で発行し直す
+    setCacheBackend(createMemoryBackend());
+    await cacheSet('shortid', shortId, 'ChIJanotherFacility');
+    const longer = shortIdOf(await issueFacilityPath(PLACE_ID, 'セレハウス谷原', ADDRESS))!;
+
+    expect(longer).toHaveLength(8);
+    expect(longer.startsWith(shortId)).toBe(true);
+    expect(await resolveFacilityShortId(longer)).toBe(PLACE_ID);
+    expect(await resolveFacilityShortId(shortId)).toBe('ChIJanotherFacility');
+  });
+
+  it('同じ施設には同じ短縮IDを返す', async () => {
+    const first = await issueFacilityPath(PLACE_ID, 'セレハウス谷原', ADDRESS);
+    const second = await issueFacilityPath(PLACE_ID, 'セレハウス谷原（新館）', ADDRESS);
+
+    expect(second).toBe(first);
+  });
+});
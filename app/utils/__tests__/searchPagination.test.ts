@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import type { SearchResult } from '../../types';
+import { decodeSearchCursor, encodeSearchCursor, paginateSearchResults } from '../searchPagination';
+import { generateSearchCacheId } from '../searchCache';
+
+// 名前・住所が重ならない施設（重複統合の対象にしない）
+function facilities(count: number): SearchResult[] {
+  return Array.from({ length: count }, (_, i) => ({
+    title: `施設${String.fromCharCode(0x30a2 + i * 2)}${i}号館`,
+    uri: `https://maps.google.com/?cid=${i}`,
+    placeId: `places/ChIJ${String(i).padStart(4, '0')}`,
+    address: `東京都練馬区谷原${i + 1}丁目${i + 1}-${i + 1}`,
+  }));
+}
+
+describe('encodeSearchCursor / decodeSearchCursor', () => {
+  it('往復で同じカーソルに戻る', () => {
+    const cursor = { q: '練馬', a: 'ChIJ0001', o: 20 };
+    expect(decodeSearchCursor(encodeSearchCursor(cursor))).toEqual(cursor);
+    expect(decodeSearchCursor(encodeSearchCursor({ q: '練馬', a: null, o: 0 }))).toEqual({ q: '練馬', a: null, o: 0 });
+  });
+
+  it('形式の違う値は null', () => {
+    expect(decodeSearchCursor('not-a-cursor')).toBeNull();
+    expect(decodeSearchCursor(Buffer.from(JSON.stringify({ q: '練馬', o: -1 })).toString('base64url'))).toBeNull();
+    expect(decodeSearchCursor(Buffer.from(JSON.stringify({ a: 'ChIJ0001', o: 1 })).toString('base64url'))).toBeNull();
+  });
+});
+
+describe('paginateSearchResults', () => {
+  const options = { pageSize: 3, expandSubAreas: false };
+
+  it('nextCursor で続きのページを返す', async () => {
+    const results = facilities(7);
+    const first = await paginateSearchResults('練馬', results, options);
+    const second = await paginateSearchResults('練馬', results, { ...options, cursor: first.nextCursor });
+    const third = await paginateSearchResults('練馬', results, { ...options, cursor: second.nextCursor });
+
+    expect(first.items.map((r) => r.placeId)).toEqual(['places/ChIJ0000', 'places/ChIJ0001', 'places/ChIJ0002']);
+    expect(second.offset).toBe(3);
+    expect(third.items.map((r) => r.placeId)).toEqual(['places/ChIJ0006']);
+    expect(third.hasMore).toBe(false);
+    expect(third.nextCursor).toBeNull();
+  });
+
+  it('結果の並びが変わっても直前の末尾の施設の次から返す', async () => {
+    const results = facilities(7);
+    const first = await paginateSearchResults('練馬', results, options);
+
+    // キャッシュ更新で先頭に2件増えた
+    const refreshed = [...facilities(9).slice(7), ...results];
+    const second = await paginateSearchResults('練馬', refreshed, { ...options, cursor: first.nextCursor });
+
+    expect(second.offset).toBe(5);
+    expect(second.items[0].placeId).toBe('places/ChIJ0003');
+  });
+
+  it('末尾の施設が消えた場合はカーソルの位置から返す', async () => {
+    const results = facilities(7);
+    const first = await paginateSearchResults('練馬', results, options);
+    const second = await paginateSearchResults('練馬', results.filter((r) => r.placeId !== 'places/ChIJ0002'), {
+      ...options,
+      cursor: first.nextCursor,
+    });
+
+    expect(second.offset).toBe(3);
+    expect(second.items[0].placeId).toBe('places/ChIJ0004');
+  });
+
+  it('別のクエリのカーソルは使わない', async () => {
+    const cursor = encodeSearchCursor({ q: generateSearchCacheId('世田谷'), a: 'ChIJ0002', o: 3 });
+    const page = await paginateSearchResults('練馬', facilities(7), { ...options, cursor });
+
+    expect(page.offset).toBe(0);
+  });
+});
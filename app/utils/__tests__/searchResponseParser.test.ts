@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { parseDetailsFromJson, parseSearchResponse } from '../searchResponseParser';
+
+const JSON_RESPONSE = `検索結果は以下のとおりです。
+
+\`\`\`json
+{
+  "facilities": [
+    {
+      "name": "セレハウス谷原",
+      "address": "東京都練馬区谷原1-2-3",
+      "phone": "03-1234-5678",
+      "rating": 4.5,
+      "reviewCount": "120件",
+      "reviews": ["「丁寧な対応でした」", "情報なし"],
+      "services": ["家族葬"]
+    },
+    { "address": "施設名のない施設" }
+  ]
+}
+\`\`\``;
+
+const MARKDOWN_RESPONSE = `### セレハウス谷原
+- **住所:** 東京都練馬区谷原1-2-3
+- **電話番号:** 情報なし
+- **評価:** 4.2
+- **レビュー数:** 35
+- **口コミ:**
+  - 「駅から近い」
+- **Q&A:**
+  - **Q:** 駐車場はありますか
+  - **A:** 10台あります
+
+### 練馬斎場
+- **住所:** 東京都練馬区春日町4-5-6
+`;
+
+describe('parseSearchResponse', () => {
+  it('スキーマに沿ったJSONを優先してパースする', () => {
+    const parsed = parseSearchResponse(JSON_RESPONSE);
+
+    expect(parsed.source).toBe('json');
+    expect(parsed.invalidEntries).toBe(1);
+    expect(parsed.detailsMap.get('セレハウス谷原')).toMatchObject({
+      address: '東京都練馬区谷原1-2-3',
+      phone: '03-1234-5678',
+      rating: 4.5,
+      reviewCount: 120,
+      reviews: ['丁寧な対応でした'],
+    });
+  });
+
+  it('JSONがなければMarkdownにフォールバックする', () => {
+    const parsed = parseSearchResponse(MARKDOWN_RESPONSE);
+
+    expect(parsed.source).toBe('markdown');
+    expect([...parsed.detailsMap.keys()]).toEqual(['セレハウス谷原', '練馬斎場']);
+    expect(parsed.detailsMap.get('セレハウス谷原')).toMatchObject({
+      address: '東京都練馬区谷原1-2-3',
+      rating: 4.2,
+      reviewCount: 35,
+      reviews: ['駅から近い'],
+      qanda: [{ question: '駐車場はありますか', answer: '10台あります' }],
+    });
+    expect(parsed.detailsMap.get('セレハウス谷原')?.phone).toBeUndefined();
+  });
+
+  it('JSONの施設がすべて検証で除外された場合はMarkdownにフォールバックする', () => {
+    const text = `{ "facilities": [{ "name": "" }] }\n\n${MARKDOWN_RESPONSE}`;
+    const parsed = parseSearchResponse(text);
+
+    expect(parsed.source).toBe('markdown');
+    expect(parsed.invalidEntries).toBe(1);
+    expect(parsed.detailsMap.size).toBe(2);
+  });
+
+  it('どちらの形式でもなければ none を返す', () => {
+    const parsed = parseSearchResponse('該当する施設は見つかりませんでした。');
+
+    expect(parsed.source).toBe('none');
+    expect(parsed.detailsMap.size).toBe(0);
+  });
+});
+
+describe('parseDetailsFromJson', () => {
+  it('壊れたJSON・facilities のないJSONは null', () => {
+    expect(parseDetailsFromJson('{ "facilities": [ }')).toBeNull();
+    expect(parseDetailsFromJson('{ "results": [] }')).toBeNull();
+  });
+
+  it('範囲外の評価・件数は捨てる', () => {
+    const parsed = parseDetailsFromJson('{ "facilities": [{ "name": "練馬斎場", "rating": 7, "reviewCount": -3 }] }');
+
+    expect(parsed?.detailsMap.get('練馬斎場')).toMatchObject({ rating: undefined, reviewCount: undefined });
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * 管理API の認証
+ *
+ * - x-admin-key ヘッダーを ADMIN_API_KEY（未設定時は CACHE_CLEAR_KEY）と照合
+ * - x-admin-actor ヘッダーを操作者名として監査ログに記録
+ * - キーが未設定の環境では管理APIを無効化する
+ */
+
+import { timingSafeEqual } from 'crypto';
+
+export type AdminAuthResult =
+  | { ok: true; actor: string }
+  | { ok: false; status: number; error: string };
+
+function getConfiguredAdminKey(): string | null {
+  return process.env.ADMIN_API_KEY || process.env.CACHE_CLEAR_KEY || null;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+}
+
+export function authenticateAdminRequest(request: Request): AdminAuthResult {
+  const configuredKey = getConfiguredAdminKey();
+  if (!configuredKey) {
+    return { ok: false, status: 503, error: 'Admin API is not configured' };
+  }
+
+  const providedKey = request.headers.get('x-admin-key');
+  if (!providedKey || !safeEqual(providedKey, configuredKey)) {
+    return { ok: false, status: 403, error: 'Forbidden' };
+  }
+
+  const actor = request.headers.get('x-admin-actor')?.trim() || 'admin-api';
+  return { ok: true, actor: actor.substring(0, 100) };
+}
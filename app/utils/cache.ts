@@ -0,0 +1,467 @@
+/**
+ * 統合キャッシュモジュール
+ * KVストアへのアクセスをこのモジュールに集約する
+ *
+ * - 名前空間付きキー（search: / place: / description: / slug: / prefix: / lock: / audit: / facility: / warm: / alias: / romaji: / slugs: / unresolved: / shortid: / website:）
+ * - 名前空間ごとのTTLポリシー
+ * - キー単位のロック（同一クエリの重複処理防止）
+ * - JSONシリアライズ／デシリアライズ
+ * - 名前空間ごとのメトリクス（ヒット・ミス・エラー）
+ * - バックエンド: Vercel KV (Upstash) またはインメモリ
+ *
+ * バックエンドの選択:
+ * - CACHE_BACKEND=memory|kv で明示指定
+ * - 未指定時は KV_REST_API_URL / KV_REST_API_TOKEN があれば kv、なければ memory
+ */
+
+import { createClient } from '@vercel/kv';
+
+// ========== 名前空間とTTL ==========
+
+export type CacheNamespace = 'search' | 'place' | 'description' | 'slug' | 'prefix' | 'lock' | 'audit' | 'facility' | 'warm' | 'alias' | 'romaji' | 'slugs' | 'unresolved' | 'shortid' | 'website';
+
+export const CACHE_NAMESPACES: CacheNamespace[] = ['search', 'place', 'description', 'slug', 'prefix', 'lock', 'audit', 'facility', 'warm', 'alias', 'romaji', 'slugs', 'unresolved', 'shortid', 'website'];
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+/**
+ * 名前空間ごとのTTL（秒）
+ * null は無期限（明示的に削除するまで保持）
+ */
+export const CACHE_TTL_POLICIES: Record<CacheNamespace, number | null> = {
+  search: 7 * DAY_SECONDS,      // 検索結果（Gemini + Place Details）
+  place: 7 * DAY_SECONDS,       // Place Details
+  description: null,            // AI生成の紹介文（生成コストが高いため無期限）
+  slug: null,                   // slug → placeId マッピング
+  prefix: null,                 // placeIdプレフィックス → placeId マッピング
+  lock: 60,                     // 処理中ロック（解放漏れに備えて短命）
+  audit: 90 * DAY_SECONDS,      // 管理操作の監査ログ
+  facility: null,               // placeId → 参照元キーの逆引きインデックス（消えたキーは参照時に除去）
+  warm: null,                   // キャッシュウォーミングの進捗（日次予算は個別にTTL指定）
+  alias: null,                  // 重複施設の placeId → 代表 placeId
+  romaji: null,                 // 表記方式 + 日本語テキスト → ローマ字（スラッグを固定するため無期限。短いテキストのみ）
+  slugs: null,                  // placeId → 発行した全slug（旧URLのリダイレクト・slug: の逆引き）
+  unresolved: 30 * DAY_SECONDS, // 解決できなかった詳細ページのslug（アクセス回数・参照元）
+  shortid: null,                // 詳細ページURLの短縮ID → placeId（URLを固定するため無期限）
+  website: 7 * DAY_SECONDS,     // placeId → 公式サイトの本文テキスト（葬儀形式・宗教宗派の判定用）
+};
+
+export function buildCacheKey(namespace: CacheNamespace, id: string): string {
+  return `${namespace}:${id}`;
+}
+
+// ========== バックエンド ==========
+
+export interface CacheBackend {
+  readonly name: 'kv' | 'memory';
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlSeconds: number | null): Promise<void>;
+  // キーが存在しない場合のみ保存（保存できたら true）
+  setIfAbsent(key: string, value: string, ttlSeconds: number | null): Promise<boolean>;
+  del(keys: string[]): Promise<number>;
+  scan(match: string, count?: number): Promise<string[]>;
+  // 値のバイト数（キーがなければ 0）
+  strlen(key: string): Promise<number>;
+  // 残りTTL秒（無期限は null、キーがなければ -2）
+  ttl(key: string): Promise<number | null>;
+}
+
+/**
+ * Vercel KV (Upstash REST) バックエンド
+ * シリアライズはこのモジュールで行うため自動デシリアライズは無効化
+ */
+function createKvBackend(): CacheBackend {
+  const client = createClient({
+    url: process.env.KV_REST_API_URL!,
+    token: process.env.KV_REST_API_TOKEN!,
+    automaticDeserialization: false,
+  });
+
+  return {
+    name: 'kv',
+    async get(key) {
+      const value = await client.get<string>(key);
+      return value ?? null;
+    },
+    async set(key, value, ttlSeconds) {
+      if (ttlSeconds) {
+        await client.set(key, value, { ex: ttlSeconds });
+      } else {
+        await client.set(key, value);
+      }
+    },
+    async setIfAbsent(key, value, ttlSeconds) {
+      const result = ttlSeconds
+        ? await client.set(key, value, { nx: true, ex: ttlSeconds })
+        : await client.set(key, value, { nx: true });
+      return result === 'OK';
+    },
+    async del(keys) {
+      if (keys.length === 0) return 0;
+      return client.del(...keys);
+    },
+    async scan(match, count = 1000) {
+      const keys: string[] = [];
+      let cursor: string | number = 0;
+      do {
+        const [nextCursor, batch] = await client.scan(cursor, { match, count });
+        cursor = nextCursor;
+        keys.push(...batch);
+      } while (String(cursor) !== '0');
+      return keys;
+    },
+    async strlen(key) {
+      return client.strlen(key);
+    },
+    async ttl(key) {
+      const seconds = await client.ttl(key);
+      return seconds === -1 ? null : seconds;
+    },
+  };
+}
+
+/**
+ * インメモリバックエンド
+ * Upstashなしでのローカル開発・テスト用（プロセス内のみで共有）
+ */
+export function createMemoryBackend(): CacheBackend {
+  const store = new Map<string, { value: string; expiresAt: number | null }>();
+
+  const isExpired = (entry: { expiresAt: number | null }) =>
+    entry.expiresAt !== null && entry.expiresAt <= Date.now();
+
+  const globToRegExp = (pattern: string) =>
+    new RegExp('^' + pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.') + '$');
+
+  return {
+    name: 'memory',
+    async get(key) {
+      const entry = store.get(key);
+      if (!entry) return null;
+      if (isExpired(entry)) {
+        store.delete(key);
+        return null;
+      }
+      return entry.value;
+    },
+    async set(key, value, ttlSeconds) {
+      store.set(key, { value, expiresAt: ttlSeconds ? Date.now() + ttlSeconds * 1000 : null });
+    },
+    async setIfAbsent(key, value, ttlSeconds) {
+      const existing = store.get(key);
+      if (existing && !isExpired(existing)) return false;
+      store.set(key, { value, expiresAt: ttlSeconds ? Date.now() + ttlSeconds * 1000 : null });
+      return true;
+    },
+    async del(keys) {
+      let deleted = 0;
+      for (const key of keys) {
+        if (store.delete(key)) deleted++;
+      }
+      return deleted;
+    },
+    async scan(match) {
+      const regex = globToRegExp(match);
+      const keys: string[] = [];
+      for (const [key, entry] of store.entries()) {
+        if (isExpired(entry)) {
+          store.delete(key);
+          continue;
+        }
+        if (regex.test(key)) keys.push(key);
+      }
+      return keys;
+    },
+    async strlen(key) {
+      const entry = store.get(key);
+      if (!entry || isExpired(entry)) return 0;
+      return Buffer.byteLength(entry.value, 'utf8');
+    },
+    async ttl(key) {
+      const entry = store.get(key);
+      if (!entry || isExpired(entry)) return -2;
+      return entry.expiresAt === null ? null : Math.ceil((entry.expiresAt - Date.now()) / 1000);
+    },
+  };
+}
+
+// 開発時のホットリロードでインメモリの内容が消えないよう globalThis に保持
+const globalForCache = globalThis as unknown as { __cacheBackend?: CacheBackend };
+
+export function getCacheBackend(): CacheBackend {
+  if (globalForCache.__cacheBackend) {
+    return globalForCache.__cacheBackend;
+  }
+
+  const requested = process.env.CACHE_BACKEND;
+  const hasKvCredentials = !!process.env.KV_REST_API_URL && !!process.env.KV_REST_API_TOKEN;
+  const useKv = requested === 'kv' || (requested !== 'memory' && hasKvCredentials);
+
+  const backend = useKv ? createKvBackend() : createMemoryBackend();
+  console.log(`[Cache] Using ${backend.name} backend`);
+  globalForCache.__cacheBackend = backend;
+  return backend;
+}
+
+/**
+ * バックエンドを差し替える（テスト・スクリプト用）
+ */
+export function setCacheBackend(backend: CacheBackend): void {
+  globalForCache.__cacheBackend = backend;
+}
+
+// ========== メトリクス ==========
+
+export interface NamespaceMetrics {
+  hits: number;
+  misses: number;
+  writes: number;
+  deletes: number;
+  errors: number;
+}
+
+export interface CacheMetrics {
+  backend: 'kv' | 'memory';
+  namespaces: Partial<Record<CacheNamespace, NamespaceMetrics>>;
+  lastError: { namespace: CacheNamespace; operation: string; message: string; at: number } | null;
+}
+
+const metrics: Omit<CacheMetrics, 'backend'> = {
+  namespaces: {},
+  lastError: null,
+};
+
+function metricsFor(namespace: CacheNamespace): NamespaceMetrics {
+  if (!metrics.namespaces[namespace]) {
+    metrics.namespaces[namespace] = { hits: 0, misses: 0, writes: 0, deletes: 0, errors: 0 };
+  }
+  return metrics.namespaces[namespace]!;
+}
+
+function recordError(namespace: CacheNamespace, operation: string, error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  metricsFor(namespace).errors++;
+  metrics.lastError = { namespace, operation, message, at: Date.now() };
+  console.warn(`[Cache ${operation.toUpperCase()} Error] ns=${namespace}:`, message);
+  return message;
+}
+
+export function getCacheMetrics(): CacheMetrics {
+  return {
+    backend: getCacheBackend().name,
+    namespaces: JSON.parse(JSON.stringify(metrics.namespaces)),
+    lastError: metrics.lastError,
+  };
+}
+
+// ========== シリアライズ ==========
+
+/**
+ * 保存済みの値をデシリアライズ
+ * JSONとして解釈できない値（旧形式で生文字列のまま保存されたslug・紹介文）はそのまま返す
+ */
+export function deserializeCacheValue<T>(raw: string): T {
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return raw as unknown as T;
+  }
+}
+
+// ========== 公開API ==========
+
+export interface CacheResult<T> {
+  value: T | null;
+  error: string | null;
+}
+
+/**
+ * キャッシュから値を取得
+ * エラーは握りつぶさず error として返す（呼び出し側はキャッシュなしとして続行できる）
+ */
+export async function cacheGet<T>(namespace: CacheNamespace, id: string): Promise<CacheResult<T>> {
+  const key = buildCacheKey(namespace, id);
+  try {
+    const raw = await getCacheBackend().get(key);
+    if (raw === null) {
+      metricsFor(namespace).misses++;
+      return { value: null, error: null };
+    }
+    metricsFor(namespace).hits++;
+    return { value: deserializeCacheValue<T>(raw), error: null };
+  } catch (error) {
+    return { value: null, error: recordError(namespace, 'get', error) };
+  }
+}
+
+/**
+ * キャッシュに値を保存
+ * TTLは名前空間のポリシーに従う（ttlSeconds で上書き可能）
+ */
+export async function cacheSet<T>(
+  namespace: CacheNamespace,
+  id: string,
+  value: T,
+  options: { ttlSeconds?: number | null } = {}
+): Promise<{ ok: boolean; error: string | null }> {
+  const key = buildCacheKey(namespace, id);
+  const ttl = options.ttlSeconds !== undefined ? options.ttlSeconds : CACHE_TTL_POLICIES[namespace];
+  try {
+    await getCacheBackend().set(key, JSON.stringify(value), ttl);
+    metricsFor(namespace).writes++;
+    return { ok: true, error: null };
+  } catch (error) {
+    return { ok: false, error: recordError(namespace, 'set', error) };
+  }
+}
+
+/**
+ * キーが存在しない場合のみ値を保存（保存できたら stored: true）
+ * TTLは名前空間のポリシーに従う
+ */
+export async function cacheSetIfAbsent<T>(
+  namespace: CacheNamespace,
+  id: string,
+  value: T
+): Promise<{ stored: boolean; error: string | null }> {
+  const key = buildCacheKey(namespace, id);
+  try {
+    const stored = await getCacheBackend().setIfAbsent(key, JSON.stringify(value), CACHE_TTL_POLICIES[namespace]);
+    if (stored) metricsFor(namespace).writes++;
+    return { stored, error: null };
+  } catch (error) {
+    return { stored: false, error: recordError(namespace, 'set', error) };
+  }
+}
+
+/**
+ * キャッシュから値を削除
+ */
+export async function cacheDelete(namespace: CacheNamespace, id: string): Promise<{ ok: boolean; error: string | null }> {
+  const key = buildCacheKey(namespace, id);
+  try {
+    const deleted = await getCacheBackend().del([key]);
+    metricsFor(namespace).deletes += deleted;
+    return { ok: true, error: null };
+  } catch (error) {
+    return { ok: false, error: recordError(namespace, 'delete', error) };
+  }
+}
+
+/**
+ * 名前空間内のキーを列挙（パターンは名前空間以降に適用）
+ * 例: cacheScan('search', '*練馬*')
+ */
+export async function cacheScan(namespace: CacheNamespace, pattern: string = '*'): Promise<string[]> {
+  try {
+    return await getCacheBackend().scan(buildCacheKey(namespace, pattern));
+  } catch (error) {
+    recordError(namespace, 'scan', error);
+    return [];
+  }
+}
+
+/**
+ * cacheScan で得たキー（名前空間付き）をまとめて削除
+ */
+export async function cacheDeleteKeys(namespace: CacheNamespace, keys: string[]): Promise<number> {
+  const prefix = `${namespace}:`;
+  const targets = keys.filter((key) => key.startsWith(prefix));
+  try {
+    const deleted = await getCacheBackend().del(targets);
+    metricsFor(namespace).deletes += deleted;
+    return deleted;
+  } catch (error) {
+    recordError(namespace, 'delete', error);
+    return 0;
+  }
+}
+
+// ========== ロック ==========
+
+export interface CacheLock {
+  acquired: boolean;
+  token: string | null;
+  error: string | null;
+}
+
+/**
+ * キー単位のロックを取得（lock: 名前空間）
+ * 他のインスタンスが保持中なら acquired: false。
+ * バックエンドのエラー時は処理を止めないよう acquired: true（ロックなし）として返す
+ */
+export async function cacheAcquireLock(id: string, ttlSeconds?: number): Promise<CacheLock> {
+  const key = buildCacheKey('lock', id);
+  const token = `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+  const ttl = ttlSeconds ?? CACHE_TTL_POLICIES.lock;
+  try {
+    const acquired = await getCacheBackend().setIfAbsent(key, token, ttl);
+    if (acquired) metricsFor('lock').writes++;
+    return { acquired, token: acquired ? token : null, error: null };
+  } catch (error) {
+    return { acquired: true, token: null, error: recordError('lock', 'lock', error) };
+  }
+}
+
+/**
+ * 保持中のロックの期限を延長（長時間の処理用）
+ * 既に他のインスタンスに取り直されていた場合は false
+ */
+export async function cacheExtendLock(id: string, lock: CacheLock, ttlSeconds: number): Promise<boolean> {
+  if (!lock.acquired || !lock.token) return lock.acquired;
+  const key = buildCacheKey('lock', id);
+  try {
+    const backend = getCacheBackend();
+    if ((await backend.get(key)) !== lock.token) return false;
+    await backend.set(key, lock.token, ttlSeconds);
+    return true;
+  } catch (error) {
+    recordError('lock', 'extend', error);
+    return true;
+  }
+}
+
+/**
+ * ロックを解放（自分が取得したロックのみ）
+ * TTL切れ後に他インスタンスが取り直したロックを消さないよう token を照合する
+ */
+export async function cacheReleaseLock(id: string, lock: CacheLock): Promise<void> {
+  if (!lock.acquired || !lock.token) return;
+  const key = buildCacheKey('lock', id);
+  try {
+    const backend = getCacheBackend();
+    if ((await backend.get(key)) === lock.token) {
+      metricsFor('lock').deletes += await backend.del([key]);
+    }
+  } catch (error) {
+    recordError('lock', 'unlock', error);
+  }
+}
+
+// 短い更新処理（read-modify-write）用のロックの待ち方
+const UPDATE_LOCK_TTL_SECONDS = 10;
+const UPDATE_LOCK_RETRY_DELAY_MS = 50;
+const UPDATE_LOCK_MAX_WAIT_MS = 2000;
+
+/**
+ * ロックを取得してから処理を実行（同じ id の read-modify-write を直列化する）
+ * 他のインスタンスが保持中なら取得できるまで待つ。
+ * UPDATE_LOCK_MAX_WAIT_MS 待っても取得できない場合は処理を止めないようロックなしで実行する
+ */
+export async function withCacheLock<T>(id: string, update: () => Promise<T>): Promise<T> {
+  const startedAt = Date.now();
+  let lock = await cacheAcquireLock(id, UPDATE_LOCK_TTL_SECONDS);
+  while (!lock.acquired && Date.now() - startedAt < UPDATE_LOCK_MAX_WAIT_MS) {
+    await new Promise((resolve) => setTimeout(resolve, UPDATE_LOCK_RETRY_DELAY_MS));
+    lock = await cacheAcquireLock(id, UPDATE_LOCK_TTL_SECONDS);
+  }
+  if (!lock.acquired) {
+    console.warn(`⚠️ [Cache] Lock ${id} is still held after ${UPDATE_LOCK_MAX_WAIT_MS}ms, updating without it`);
+  }
+
+  try {
+    return await update();
+  } finally {
+    await cacheReleaseLock(id, lock);
+  }
+}
@@ -0,0 +1,481 @@
+/**
+ * キャッシュ管理操作
+ * 管理API（/api/admin/cache）と CLI（scripts/cache-admin.ts）で共通利用する
+ *
+ * - 名前空間ごとのキー一覧（件数・サイズ）
+ * - 単一エントリの参照
+ * - パターン / placeId 指定の削除（dry-run対応）
+ * - 施設単位の無効化（削除または訂正内容の反映）
+ * - 削除・無効化操作の監査ログ（audit: 名前空間）
+ */
+
+import type { SearchResult } from '../types';
+import {
+  buildCacheKey,
+  cacheScan,
+  cacheSet,
+  CACHE_NAMESPACES,
+  deserializeCacheValue,
+  getCacheBackend,
+  type CacheNamespace,
+} from './cache';
+import { getFacilityReferences, normalizePlaceId, removeFacilityReferences } from './facilityIndex';
+import { getSlugRecord } from './slugRegistry';
+
+// 削除対象にしない名前空間（監査ログ自体は消せないようにする）
+const PROTECTED_NAMESPACES: CacheNamespace[] = ['audit'];
+
+// 施設の識別子（詳細ページのURL → placeId）の名前空間
+// 削除すると発行済みのURLが解決できなくなるため、includeIdentity を指定した場合のみ削除する
+// （facility: は識別子のキーの逆引きも持つため、識別子を残す場合は facility: も残す）
+const FACILITY_IDENTITY_NAMESPACES: CacheNamespace[] = ['slug', 'prefix', 'slugs', 'shortid'];
+
+// KVへの同時リクエスト数
+const BATCH_SIZE = 50;
+
+export function isCacheNamespace(value: string): value is CacheNamespace {
+  return (CACHE_NAMESPACES as string[]).includes(value);
+}
+
+/**
+ * 名前空間付きキーを分解
+ * 例: "search:練馬" → { namespace: 'search', id: '練馬' }
+ */
+export function parseCacheKey(key: string): { namespace: CacheNamespace; id: string } | null {
+  const index = key.indexOf(':');
+  if (index === -1) return null;
+  const namespace = key.substring(0, index);
+  if (!isCacheNamespace(namespace)) return null;
+  return { namespace, id: key.substring(index + 1) };
+}
+
+/**
+ * 配列を BATCH_SIZE ずつ並列処理
+ */
+async function mapInBatches<T, R>(items: T[], fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = [];
+  for (let i = 0; i < items.length; i += BATCH_SIZE) {
+    results.push(...(await Promise.all(items.slice(i, i + BATCH_SIZE).map(fn))));
+  }
+  return results;
+}
+
+// ========== 一覧 ==========
+
+export interface NamespaceListing {
+  namespace: CacheNamespace;
+  count: number;
+  totalBytes: number;
+  keys: Array<{ key: string; bytes: number }>; // サイズ降順、limit件まで
+}
+
+export interface CacheKeyListing {
+  pattern: string;
+  namespaces: NamespaceListing[];
+  totalCount: number;
+  totalBytes: number;
+}
+
+/**
+ * 名前空間ごとのキー一覧（件数・合計サイズ）
+ * namespace 未指定時はすべての名前空間を対象にする
+ */
+export async function listCacheKeys(options: {
+  namespace?: CacheNamespace;
+  pattern?: string;
+  limit?: number;
+} = {}): Promise<CacheKeyListing> {
+  const pattern = options.pattern || '*';
+  const limit = options.limit ?? 100;
+  const namespaces = options.namespace ? [options.namespace] : CACHE_NAMESPACES;
+  const backend = getCacheBackend();
+
+  const listings: NamespaceListing[] = [];
+  for (const namespace of namespaces) {
+    const keys = await cacheScan(namespace, pattern);
+    const sized = await mapInBatches(keys, async (key) => ({ key, bytes: await backend.strlen(key) }));
+    sized.sort((a, b) => b.bytes - a.bytes);
+
+    listings.push({
+      namespace,
+      count: sized.length,
+      totalBytes: sized.reduce((sum, item) => sum + item.bytes, 0),
+      keys: sized.slice(0, limit),
+    });
+  }
+
+  return {
+    pattern,
+    namespaces: listings,
+    totalCount: listings.reduce((sum, item) => sum + item.count, 0),
+    totalBytes: listings.reduce((sum, item) => sum + item.totalBytes, 0),
+  };
+}
+
+// ========== 参照 ==========
+
+export interface CacheEntryInspection {
+  key: string;
+  namespace: CacheNamespace | null;
+  exists: boolean;
+  bytes: number;
+  ttlSeconds: number | null; // null は無期限
+  value: unknown;
+}
+
+export async function inspectCacheEntry(key: string): Promise<CacheEntryInspection> {
+  const backend = getCacheBackend();
+  const raw = await backend.get(key);
+  const parsed = parseCacheKey(key);
+
+  if (raw === null) {
+    return { key, namespace: parsed?.namespace ?? null, exists: false, bytes: 0, ttlSeconds: null, value: null };
+  }
+
+  return {
+    key,
+    namespace: parsed?.namespace ?? null,
+    exists: true,
+    bytes: Buffer.byteLength(raw, 'utf8'),
+    ttlSeconds: await backend.ttl(key),
+    value: deserializeCacheValue(raw),
+  };
+}
+
+// ========== placeId による検索 ==========
+
+function searchEntryContains(raw: string | null, placeId: string): boolean {
+  if (raw === null) return false;
+  const entry = deserializeCacheValue<{ results?: SearchResult[] }>(raw);
+  const results = Array.isArray(entry?.results) ? entry.results : [];
+  return results.some((result) => !!result.placeId && normalizePlaceId(result.placeId) === placeId);
+}
+
+/**
+ * 指定した施設に関係するキーを全名前空間から探す
+ * - place: / description: / facility: / alias: / slugs: / website: はキーがplaceId
+ * - search: / slug: / prefix: / shortid: は逆引きインデックス（facility:）から取得
+ *
+ * fullScan: インデックス導入前のエントリも対象にするため全キーを走査する
+ * （slug: / prefix: は値がplaceId、search: は結果一覧にその施設を含むエントリ）
+ */
+export async function findKeysForPlaceId(
+  placeId: string,
+  options: { fullScan?: boolean } = {}
+): Promise<Partial<Record<CacheNamespace, string[]>>> {
+  const id = normalizePlaceId(placeId);
+  const backend = getCacheBackend();
+  const found: Partial<Record<CacheNamespace, string[]>> = {};
+  const add = (namespace: CacheNamespace, key: string) => {
+    found[namespace] = Array.from(new Set([...(found[namespace] || []), key]));
+  };
+
+  for (const namespace of ['place', 'description', 'facility', 'alias', 'slugs', 'website'] as CacheNamespace[]) {
+    const key = buildCacheKey(namespace, id);
+    if ((await backend.strlen(key)) > 0) add(namespace, key);
+  }
+
+  // 逆引きインデックス（参照先が消えている・施設を含まなくなったものは除外）
+  const indexedKeys = await getFacilityReferences(id);
+  await mapInBatches(indexedKeys, async (key) => {
+    const parsed = parseCacheKey(key);
+    if (!parsed) return;
+    const raw = await backend.get(key);
+    if (parsed.namespace === 'search') {
+      if (searchEntryContains(raw, id)) add('search', key);
+    } else if (raw !== null && normalizePlaceId(deserializeCacheValue<string>(raw)) === id) {
+      add(parsed.namespace, key);
+    }
+  });
+
+  if (options.fullScan) {
+    for (const namespace of ['slug', 'prefix'] as CacheNamespace[]) {
+      const keys = await cacheScan(namespace);
+      await mapInBatches(keys, async (key) => {
+        const raw = await backend.get(key);
+        if (raw !== null && normalizePlaceId(deserializeCacheValue<string>(raw)) === id) add(namespace, key);
+      });
+    }
+
+    const searchKeys = await cacheScan('search');
+    await mapInBatches(searchKeys, async (key) => {
+      if (searchEntryContains(await backend.get(key), id)) add('search', key);
+    });
+  }
+
+  return found;
+}
+
+// ========== 削除 ==========
+
+export interface PurgeRequest {
+  // パターン指定（名前空間以降に適用するglob。例: "*練馬*"）
+  pattern?: string;
+  namespace?: CacheNamespace;
+  // 施設指定（全名前空間から関連キーを探す）
+  placeId?: string;
+  // placeId 指定時にインデックス外のキーも走査する
+  fullScan?: boolean;
+  // 施設の識別子（slug: / prefix: / slugs: / shortid:）も削除する（発行済みの詳細ページURLが解決できなくなる）
+  // （namespace で識別子の名前空間を直接指定した場合は不要）
+  includeIdentity?: boolean;
+  dryRun?: boolean;
+  actor: string;
+  reason?: string;
+}
+
+export interface PurgeResult {
+  dryRun: boolean;
+  target: { pattern?: string; namespace?: CacheNamespace; placeId?: string; includeIdentity?: boolean };
+  matched: Partial<Record<CacheNamespace, string[]>>;
+  matchedCount: number;
+  deletedCount: number;
+  auditId: string | null;
+}
+
+/**
+ * パターンまたは placeId でキーを削除
+ * dryRun の場合は対象キーの列挙のみ行う（監査ログには記録する）
+ * 施設の識別子は includeIdentity の指定がなければ削除しない（invalidateFacility と同じ）
+ */
+export async function purgeCache(request: PurgeRequest): Promise<PurgeResult> {
+  const { pattern, namespace, placeId, actor, reason } = request;
+  const dryRun = !!request.dryRun;
+
+  if (!pattern && !placeId) {
+    throw new Error('pattern or placeId is required');
+  }
+  if (namespace && PROTECTED_NAMESPACES.includes(namespace)) {
+    throw new Error(`namespace "${namespace}" cannot be purged`);
+  }
+
+  let matched: Partial<Record<CacheNamespace, string[]>> = {};
+  // namespace を指定した場合はその名前空間だけを対象にする
+  const retained: CacheNamespace[] = namespace ? [] : [
+    ...PROTECTED_NAMESPACES,
+    ...(request.includeIdentity ? [] : [...FACILITY_IDENTITY_NAMESPACES, 'facility' as CacheNamespace]),
+  ];
+
+  if (placeId) {
+    matched = await findKeysForPlaceId(placeId, { fullScan: request.fullScan });
+    if (namespace) {
+      matched = matched[namespace] ? { [namespace]: matched[namespace] } : {};
+    }
+    for (const ns of retained) {
+      delete matched[ns];
+    }
+  } else {
+    const namespaces = namespace ? [namespace] : CACHE_NAMESPACES.filter((ns) => !retained.includes(ns));
+    for (const ns of namespaces) {
+      const keys = await cacheScan(ns, pattern);
+      if (keys.length > 0) matched[ns] = keys;
+    }
+  }
+
+  const allKeys = Object.values(matched).flat() as string[];
+  let deletedCount = 0;
+
+  if (!dryRun && allKeys.length > 0) {
+    const backend = getCacheBackend();
+    for (let i = 0; i < allKeys.length; i += BATCH_SIZE) {
+      deletedCount += await backend.del(allKeys.slice(i, i + BATCH_SIZE));
+    }
+  }
+
+  console.log(`🗑️ [Cache Admin] ${dryRun ? '(dry-run) ' : ''}actor=${actor} pattern=${pattern || '-'} namespace=${namespace || '*'} placeId=${placeId || '-'}${request.includeIdentity ? ' (include identity)' : ''} matched=${allKeys.length} deleted=${deletedCount}`);
+
+  const target = { pattern, namespace, placeId, ...(request.includeIdentity && { includeIdentity: true }) };
+  const auditId = await writeAuditEntry({
+    action: 'purge',
+    actor,
+    reason,
+    dryRun,
+    target,
+    matchedCount: allKeys.length,
+    deletedCount,
+    sampleKeys: allKeys.slice(0, 20),
+  });
+
+  return { dryRun, target, matched, matchedCount: allKeys.length, deletedCount, auditId };
+}
+
+// ========== 施設単位の無効化 ==========
+
+/**
+ * 施設情報の訂正内容（指定した項目のみ上書き）
+ */
+export interface FacilityPatch {
+  name?: string;
+  address?: string;
+  phone?: string;
+  website?: string;
+}
+
+export interface InvalidateFacilityRequest {
+  placeId: string;
+  // purge: 施設を含むエントリを削除（次回アクセス時に再取得）
+  // patch: 施設を含むエントリに訂正内容を反映
+  mode: 'purge' | 'patch';
+  patch?: FacilityPatch;
+  fullScan?: boolean;
+  dryRun?: boolean;
+  actor: string;
+  reason?: string;
+}
+
+export interface InvalidateFacilityResult {
+  placeId: string;
+  mode: 'purge' | 'patch';
+  dryRun: boolean;
+  deleted: string[];
+  patched: string[];
+  // 影響を受けたslug（詳細ページの再検証用）
+  slugs: string[];
+  auditId: string | null;
+}
+
+function applyPatchToSearchResult(result: SearchResult, patch: FacilityPatch): SearchResult {
+  return {
+    ...result,
+    ...(patch.name !== undefined && { title: patch.name }),
+    ...(patch.address !== undefined && { address: patch.address }),
+    ...(patch.phone !== undefined && { phone: patch.phone }),
+    ...(patch.website !== undefined && { website: patch.website }),
+  };
+}
+
+/**
+ * 1施設に関係するキャッシュをまとめて無効化
+ *
+ * - place: / search: は purge で削除、patch で訂正内容を反映（残りTTLは維持）
+ * - description: / website: は旧情報を含む文章のため、どちらのモードでも削除して再生成させる
+ * - slug: / prefix: / slugs: / shortid: は施設の識別子の対応なので変更しない
+ */
+export async function invalidateFacility(request: InvalidateFacilityRequest): Promise<InvalidateFacilityResult> {
+  const id = normalizePlaceId(request.placeId);
+  const { mode, actor, reason } = request;
+  const patch = request.patch || {};
+  const dryRun = !!request.dryRun;
+
+  if (mode === 'patch' && Object.values(patch).every((value) => value === undefined)) {
+    throw new Error('patch must contain at least one field');
+  }
+
+  const backend = getCacheBackend();
+  const found = await findKeysForPlaceId(id, { fullScan: request.fullScan });
+  const searchKeys = found.search || [];
+  const placeKeys = found.place || [];
+  // 詳細ページのURL（旧方式のslug・発行した正規URL）
+  const record = await getSlugRecord(id);
+  const slugs = Array.from(new Set([
+    ...(found.slug || []).map((key) => key.substring('slug:'.length)),
+    ...(record?.slugs || []).map((entry) => entry.slug),
+  ]));
+
+  const deleted: string[] = [...(found.description || []), ...(found.website || [])];
+  const patched: string[] = [];
+
+  if (mode === 'purge') {
+    // 重複統合（alias:）も解除する（誤って統合された施設の切り離し）
+    deleted.push(...placeKeys, ...searchKeys, ...(found.alias || []));
+  } else {
+    patched.push(...placeKeys, ...searchKeys);
+  }
+
+  if (!dryRun) {
+    if (deleted.length > 0) {
+      await backend.del(deleted);
+    }
+
+    // 残りTTLを維持したまま書き戻す（期限切れ直前のエントリを延命しない）
+    const rewrite = async (key: string, update: (value: any) => unknown) => {
+      const raw = await backend.get(key);
+      if (raw === null) return;
+      const ttl = await backend.ttl(key);
+      if (ttl !== null && ttl <= 0) return;
+      const parsed = parseCacheKey(key)!;
+      await cacheSet(parsed.namespace, parsed.id, update(deserializeCacheValue(raw)), { ttlSeconds: ttl });
+    };
+
+    await mapInBatches(patched, (key) => rewrite(key, (value) => {
+      if (key.startsWith('place:')) {
+        return {
+          ...value,
+          data: {
+            ...value.data,
+            ...(patch.name !== undefined && { name: patch.name }),
+            ...(patch.address !== undefined && { address: patch.address }),
+            ...(patch.phone !== undefined && { phone: patch.phone }),
+            ...(patch.website !== undefined && { website: patch.website }),
+          },
+        };
+      }
+      return {
+        ...value,
+        results: (value.results as SearchResult[]).map((result) =>
+          result.placeId && normalizePlaceId(result.placeId) === id ? applyPatchToSearchResult(result, patch) : result
+        ),
+      };
+    }));
+
+    // 削除した検索結果はインデックスからも外す
+    const deletedSearchKeys = deleted.filter((key) => key.startsWith('search:'));
+    if (deletedSearchKeys.length > 0) {
+      await removeFacilityReferences(id, deletedSearchKeys);
+    }
+  }
+
+  console.log(`♻️ [Facility Invalidate] ${dryRun ? '(dry-run) ' : ''}actor=${actor} placeId=${id} mode=${mode} deleted=${deleted.length} patched=${patched.length}`);
+
+  const auditId = await writeAuditEntry({
+    action: `invalidate-facility:${mode}`,
+    actor,
+    reason,
+    dryRun,
+    target: { placeId: id, ...(mode === 'patch' && { patch }) },
+    matchedCount: deleted.length + patched.length,
+    deletedCount: dryRun ? 0 : deleted.length,
+    sampleKeys: [...deleted, ...patched].slice(0, 20),
+  });
+
+  return { placeId: id, mode, dryRun, deleted, patched, slugs, auditId };
+}
+
+// ========== 監査ログ ==========
+
+export interface AuditEntry {
+  id: string;
+  at: string; // ISO 8601
+  action: string;
+  actor: string;
+  reason?: string;
+  dryRun: boolean;
+  target: Record<string, unknown>;
+  matchedCount: number;
+  deletedCount: number;
+  sampleKeys: string[];
+}
+
+/**
+ * 監査ログを記録（IDは時刻順にソート可能）
+ * 記録に失敗しても操作自体は成功扱いとし、null を返す
+ */
+export async function writeAuditEntry(entry: Omit<AuditEntry, 'id' | 'at'>): Promise<string | null> {
+  const at = new Date().toISOString();
+  const id = `${at}-${Math.random().toString(36).slice(2, 8)}`;
+  const { ok } = await cacheSet<AuditEntry>('audit', id, { id, at, ...entry });
+  return ok ? id : null;
+}
+
+/**
+ * 監査ログを新しい順に取得
+ */
+export async function listAuditLog(limit: number = 50): Promise<AuditEntry[]> {
+  const backend = getCacheBackend();
+  const keys = (await cacheScan('audit')).sort().reverse().slice(0, limit);
+  const entries = await mapInBatches(keys, async (key) => {
+    const raw = await backend.get(key);
+    return raw === null ? null : deserializeCacheValue<AuditEntry>(raw);
+  });
+  return entries.filter((entry): entry is AuditEntry => entry !== null);
+}
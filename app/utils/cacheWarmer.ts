@@ -0,0 +1,379 @@
+/**
+ * 検索キャッシュのウォーミング
+ * regions.json の地域を優先度 → 都道府県の順に巡回し、検索結果を事前にキャッシュする
+ *
+ * - 同時実行数の上限（concurrency）
+ * - 1日あたりの検索回数の上限（日次予算、日付はJST）
+ * - 進捗を warm: 名前空間に保存し、中断しても続きから再開できる
+ * - 都道府県ごとのキャッシュ充足率（カバレッジ）
+ *
+ * 既に新鮮なキャッシュがある地域は検索せずにスキップするため、予算を消費しない
+ */
+
+import { PREFECTURES } from './data/prefectures';
+import {
+  buildCacheKey,
+  cacheAcquireLock,
+  cacheExtendLock,
+  cacheGet,
+  cacheReleaseLock,
+  cacheScan,
+  cacheSet,
+} from './cache';
+import { completeSearchRefresh, generateSearchCacheId, readSearchCache, refreshSearchCache } from './searchCache';
+import { getAllRegions, type RegionType } from './regionRegistry';
+
+export const DEFAULT_WARM_MAX_PRIORITY = 3;
+export const DEFAULT_WARM_CONCURRENCY = 2;
+const DEFAULT_DAILY_BUDGET = 100;
+
+// 保持する失敗履歴の件数
+const MAX_RECORDED_FAILURES = 50;
+
+// 同時に複数のウォーミングが走らないようにするロック
+const JOB_LOCK_ID = 'warm:job';
+const JOB_LOCK_TTL_SECONDS = 5 * 60;
+
+// 都道府県不明の地域の集計キー
+const UNKNOWN_PREFECTURE = '00';
+
+export interface WarmingTarget {
+  name: string;
+  romaji: string;
+  type: RegionType;
+  priority: number;
+  prefecture: string | null;
+}
+
+export interface WarmingOptions {
+  maxPriority?: number;
+  prefectures?: string[];
+  concurrency?: number;
+  dailyBudget?: number;
+  // 今回の実行で行う検索回数の上限
+  maxRequests?: number;
+  // 今回の実行時間の上限（APIのタイムアウト対策）
+  timeLimitMs?: number;
+  // 保存済みの進捗を破棄して最初から
+  restart?: boolean;
+  // 検索せず、対象の確認のみ
+  dryRun?: boolean;
+}
+
+export interface WarmingFailure {
+  name: string;
+  error: string;
+  at: number;
+}
+
+export interface WarmingProgress {
+  planId: string;
+  total: number;
+  cursor: number; // ここまでの地域は処理済み
+  warmed: number;
+  skipped: number;
+  failed: number;
+  failures: WarmingFailure[];
+  startedAt: number;
+  updatedAt: number;
+  completedAt: number | null;
+}
+
+export interface WarmingBudget {
+  date: string;
+  used: number;
+  limit: number;
+}
+
+export type WarmingStopReason = 'completed' | 'budget' | 'max-requests' | 'time-limit' | 'locked';
+
+export interface WarmingRunSummary {
+  dryRun: boolean;
+  stoppedBy: WarmingStopReason;
+  progress: WarmingProgress;
+  budget: WarmingBudget;
+  thisRun: { requests: number; warmed: number; skipped: number; failed: number };
+  // dryRun 時: 検索が必要な地域（先頭から予算の範囲まで）
+  pending?: string[];
+}
+
+/**
+ * 巡回順の地域一覧を生成（優先度 → 都道府県コード → 名前）
+ */
+export function buildWarmingPlan(options: { maxPriority?: number; prefectures?: string[] } = {}): WarmingTarget[] {
+  const maxPriority = options.maxPriority ?? DEFAULT_WARM_MAX_PRIORITY;
+  const prefectureFilter = options.prefectures && options.prefectures.length > 0
+    ? new Set(options.prefectures)
+    : null;
+
+  const targets: WarmingTarget[] = [];
+  for (const regionData of getAllRegions()) {
+    if (regionData.priority > maxPriority) continue;
+    if (prefectureFilter && (!regionData.prefecture || !prefectureFilter.has(regionData.prefecture))) continue;
+
+    targets.push({
+      name: regionData.name,
+      romaji: regionData.romaji,
+      type: regionData.type,
+      priority: regionData.priority,
+      prefecture: regionData.prefecture || null,
+    });
+  }
+
+  return targets.sort((a, b) =>
+    a.priority - b.priority ||
+    (a.prefecture || UNKNOWN_PREFECTURE).localeCompare(b.prefecture || UNKNOWN_PREFECTURE) ||
+    a.name.localeCompare(b.name, 'ja')
+  );
+}
+
+export function getWarmingPlanId(maxPriority: number, prefectures?: string[]): string {
+  const prefPart = prefectures && prefectures.length > 0 ? [...prefectures].sort().join(',') : 'all';
+  return `p${maxPriority}:${prefPart}`;
+}
+
+/**
+ * 予算の日付（JST）
+ */
+function getBudgetDate(now: number = Date.now()): string {
+  return new Date(now + 9 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+function getDailyBudgetLimit(override?: number): number {
+  if (override !== undefined) return override;
+  const fromEnv = parseInt(process.env.WARM_DAILY_BUDGET || '', 10);
+  return isNaN(fromEnv) ? DEFAULT_DAILY_BUDGET : fromEnv;
+}
+
+export async function getWarmingBudget(limitOverride?: number): Promise<WarmingBudget> {
+  const date = getBudgetDate();
+  const { value } = await cacheGet<{ used: number }>('warm', `budget:${date}`);
+  return { date, used: value?.used || 0, limit: getDailyBudgetLimit(limitOverride) };
+}
+
+async function saveWarmingBudget(budget: WarmingBudget): Promise<void> {
+  // 翌日以降は不要なので2日で失効
+  await cacheSet('warm', `budget:${budget.date}`, { used: budget.used }, { ttlSeconds: 2 * 24 * 60 * 60 });
+}
+
+export async function getWarmingProgress(planId: string): Promise<WarmingProgress | null> {
+  const { value } = await cacheGet<WarmingProgress>('warm', `progress:${planId}`);
+  return value;
+}
+
+/**
+ * ウォーミングを実行
+ * 予算・回数・時間の上限に達したら途中で止まり、次回は続きから再開する
+ */
+export async function runCacheWarming(options: WarmingOptions = {}): Promise<WarmingRunSummary> {
+  const maxPriority = options.maxPriority ?? DEFAULT_WARM_MAX_PRIORITY;
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_WARM_CONCURRENCY);
+  const dryRun = !!options.dryRun;
+  const planId = getWarmingPlanId(maxPriority, options.prefectures);
+  const plan = buildWarmingPlan({ maxPriority, prefectures: options.prefectures });
+  const budget = await getWarmingBudget(options.dailyBudget);
+  const startedAt = Date.now();
+
+  const saved = options.restart ? null : await getWarmingProgress(planId);
+  const progress: WarmingProgress = saved && saved.total === plan.length && saved.completedAt === null
+    ? saved
+    : {
+        planId,
+        total: plan.length,
+        cursor: 0,
+        warmed: 0,
+        skipped: 0,
+        failed: 0,
+        failures: [],
+        startedAt,
+        updatedAt: startedAt,
+        completedAt: null,
+      };
+
+  const thisRun = { requests: 0, warmed: 0, skipped: 0, failed: 0 };
+
+  const lock = dryRun ? null : await cacheAcquireLock(JOB_LOCK_ID, JOB_LOCK_TTL_SECONDS);
+  if (lock && !lock.acquired) {
+    console.log('🔒 [Cache Warmer] Another warming job is running');
+    return { dryRun, stoppedBy: 'locked', progress, budget, thisRun };
+  }
+
+  console.log(`🔥 [Cache Warmer] plan=${planId} total=${plan.length} cursor=${progress.cursor} budget=${budget.used}/${budget.limit} concurrency=${concurrency}${dryRun ? ' (dry-run)' : ''}`);
+
+  let stoppedBy: WarmingStopReason | null = null;
+  let nextIndex = progress.cursor;
+  let lastLockExtend = Date.now();
+  const done = new Set<number>();
+  const pending: string[] = [];
+
+  const shouldStop = (): WarmingStopReason | null => {
+    if (stoppedBy) return stoppedBy;
+    if (options.timeLimitMs !== undefined && Date.now() - startedAt >= options.timeLimitMs) return 'time-limit';
+    if (options.maxRequests !== undefined && thisRun.requests >= options.maxRequests) return 'max-requests';
+    if (budget.used >= budget.limit) return 'budget';
+    return null;
+  };
+
+  const complete = async (index: number) => {
+    done.add(index);
+    while (done.has(progress.cursor)) {
+      done.delete(progress.cursor);
+      progress.cursor++;
+    }
+    progress.updatedAt = Date.now();
+    if (!dryRun) {
+      await cacheSet('warm', `progress:${planId}`, progress);
+      if (lock && Date.now() - lastLockExtend > (JOB_LOCK_TTL_SECONDS * 1000) / 2) {
+        lastLockExtend = Date.now();
+        await cacheExtendLock(JOB_LOCK_ID, lock, JOB_LOCK_TTL_SECONDS);
+      }
+    }
+  };
+
+  const worker = async () => {
+    while (nextIndex < plan.length) {
+      const reason = shouldStop();
+      if (reason) {
+        stoppedBy = reason;
+        return;
+      }
+
+      const index = nextIndex++;
+      const target = plan[index];
+
+      const { entry, stale } = await readSearchCache(target.name);
+      if (entry && !stale) {
+        progress.skipped++;
+        thisRun.skipped++;
+        await complete(index);
+        continue;
+      }
+
+      // 予算を先に確保（並列実行時の超過を防ぐ）
+      // 確保できなかった地域は未完了のまま残し、次回この地域から再開する
+      if (budget.used >= budget.limit) {
+        stoppedBy = 'budget';
+        return;
+      }
+      budget.used++;
+      thisRun.requests++;
+
+      if (dryRun) {
+        pending.push(target.name);
+        await complete(index);
+        continue;
+      }
+      await saveWarmingBudget(budget);
+
+      try {
+        const refreshed = await refreshSearchCache(target.name);
+        const { status, outcome } = refreshed;
+        if (status === 'locked') {
+          progress.skipped++;
+          thisRun.skipped++;
+        } else if (outcome && outcome.places.length > 0) {
+          progress.warmed++;
+          thisRun.warmed++;
+          console.log(`✅ [Cache Warmer] ${target.name} (${target.prefecture || '??'}, p${target.priority}): ${outcome.places.length}件`);
+          // 一覧ページの再検証・詳細ページURLの発行・公式サイト本文の取得
+          await completeSearchRefresh(target.name, refreshed);
+        } else {
+          throw new Error('no results');
+        }
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        progress.failed++;
+        thisRun.failed++;
+        progress.failures = [...progress.failures, { name: target.name, error: message, at: Date.now() }].slice(-MAX_RECORDED_FAILURES);
+        console.warn(`❌ [Cache Warmer] ${target.name}: ${message}`);
+      }
+
+      await complete(index);
+    }
+  };
+
+  try {
+    await Promise.all(Array.from({ length: concurrency }, () => worker()));
+  } finally {
+    if (lock) await cacheReleaseLock(JOB_LOCK_ID, lock);
+  }
+
+  if (!stoppedBy) {
+    stoppedBy = 'completed';
+    if (!dryRun) {
+      progress.completedAt = Date.now();
+      await cacheSet('warm', `progress:${planId}`, progress);
+    }
+  }
+
+  console.log(`🔥 [Cache Warmer] stopped by ${stoppedBy}: cursor=${progress.cursor}/${progress.total}, this run warmed=${thisRun.warmed} skipped=${thisRun.skipped} failed=${thisRun.failed}, budget=${budget.used}/${budget.limit}`);
+
+  return {
+    dryRun,
+    stoppedBy,
+    progress,
+    budget,
+    thisRun,
+    ...(dryRun && { pending }),
+  };
+}
+
+// ========== カバレッジ ==========
+
+export interface PrefectureCoverage {
+  code: string;
+  name: string;
+  total: number;
+  cached: number;
+  coverage: number; // 0〜1
+}
+
+export interface WarmingCoverage {
+  maxPriority: number;
+  total: number;
+  cached: number;
+  coverage: number;
+  prefectures: PrefectureCoverage[];
+}
+
+/**
+ * 都道府県ごとのキャッシュ充足率
+ * search: のキーを1回走査し、対象地域のキャッシュ有無を集計する
+ */
+export async function getWarmingCoverage(maxPriority: number = DEFAULT_WARM_MAX_PRIORITY): Promise<WarmingCoverage> {
+  const cachedKeys = new Set(await cacheScan('search'));
+  const byPrefecture = new Map<string, PrefectureCoverage>();
+
+  for (const target of buildWarmingPlan({ maxPriority })) {
+    const code = target.prefecture || UNKNOWN_PREFECTURE;
+    if (!byPrefecture.has(code)) {
+      byPrefecture.set(code, {
+        code,
+        name: PREFECTURES[code]?.name || '都道府県不明',
+        total: 0,
+        cached: 0,
+        coverage: 0,
+      });
+    }
+    const item = byPrefecture.get(code)!;
+    item.total++;
+    if (cachedKeys.has(buildCacheKey('search', generateSearchCacheId(target.name)))) {
+      item.cached++;
+    }
+  }
+
+  const prefectures = Array.from(byPrefecture.values())
+    .map((item) => ({ ...item, coverage: item.total > 0 ? Math.round((item.cached / item.total) * 1000) / 1000 : 0 }))
+    .sort((a, b) => a.code.localeCompare(b.code));
+
+  const total = prefectures.reduce((sum, item) => sum + item.total, 0);
+  const cached = prefectures.reduce((sum, item) => sum + item.cached, 0);
+
+  return {
+    maxPriority,
+    total,
+    cached,
+    coverage: total > 0 ? Math.round((cached / total) * 1000) / 1000 : 0,
+    prefectures,
+  };
+}
@@ -0,0 +1,173 @@
+/**
+ * 地域名の別名マスターデータ
+ * 合併・改称で消えた旧市町村名と、政令指定都市の区名を regions.json の地域に対応付ける
+ *
+ * - region: 解決先の regions.json の地域名（検索クエリ・/list/{romaji}・キャッシュキーに使う）
+ *   区になった旧市は区の中心駅の地域（例: 浦和市 → 浦和）、同じ都道府県にない場合は市の地域
+ * - prefecture: 解決先の都道府県コード（別の都道府県の同名の駅に解決しないよう検証する）
+ * - current: 現在の正式名称（一覧ページの案内に表示）
+ *
+ * 同名の旧市町村が複数ある名前（若松市など）は載せない
+ */
+
+export type RegionAliasKind = 'merger' | 'ward' | 'renamed';
+
+export interface RegionAliasData {
+  region: string;
+  prefecture: string;
+  current: string;
+  kind: RegionAliasKind;
+  since?: number; // 合併・改称の年
+}
+
+export const REGION_ALIASES: Record<string, RegionAliasData> = {
+  // 北海道
+  '虻田町': { region: '洞爺湖', prefecture: '01', current: '洞爺湖町', kind: 'merger', since: 2006 },
+  '静内町': { region: '新ひだか', prefecture: '01', current: '新ひだか町', kind: 'merger', since: 2006 },
+  '女満別町': { region: '大空', prefecture: '01', current: '大空町', kind: 'merger', since: 2006 },
+  '瀬棚町': { region: 'せたな', prefecture: '01', current: 'せたな町', kind: 'merger', since: 2005 },
+  '穂別町': { region: 'むかわ', prefecture: '01', current: 'むかわ町', kind: 'merger', since: 2006 },
+  '上磯町': { region: '北斗', prefecture: '01', current: '北斗市', kind: 'merger', since: 2006 },
+  '厚田村': { region: '石狩', prefecture: '01', current: '石狩市', kind: 'merger', since: 2005 },
+  '浜益村': { region: '石狩', prefecture: '01', current: '石狩市', kind: 'merger', since: 2005 },
+  '早来町': { region: '安平', prefecture: '01', current: '安平町', kind: 'merger', since: 2006 },
+  '追分町': { region: '安平', prefecture: '01', current: '安平町', kind: 'merger', since: 2006 },
+  '風連町': { region: '名寄', prefecture: '01', current: '名寄市', kind: 'merger', since: 2006 },
+
+  // 東北
+  '水沢市': { region: '奥州', prefecture: '03', current: '奥州市', kind: 'merger', since: 2006 },
+  '本荘市': { region: '由利本荘', prefecture: '05', current: '由利本荘市', kind: 'merger', since: 2005 },
+  '大曲市': { region: '大仙', prefecture: '05', current: '大仙市', kind: 'merger', since: 2005 },
+  '角館町': { region: '仙北', prefecture: '05', current: '仙北市', kind: 'merger', since: 2005 },
+  '鷹巣町': { region: '北秋田', prefecture: '05', current: '北秋田市', kind: 'merger', since: 2005 },
+  '原町市': { region: '南相馬', prefecture: '07', current: '南相馬市', kind: 'merger', since: 2006 },
+
+  // 関東
+  '勝田市': { region: 'ひたちなか', prefecture: '08', current: 'ひたちなか市', kind: 'merger', since: 1994 },
+  '那珂湊市': { region: 'ひたちなか', prefecture: '08', current: 'ひたちなか市', kind: 'merger', since: 1994 },
+  '水海道市': { region: '常総', prefecture: '08', current: '常総市', kind: 'merger', since: 2006 },
+  '下館市': { region: '筑西', prefecture: '08', current: '筑西市', kind: 'merger', since: 2005 },
+  '岩井市': { region: '坂東', prefecture: '08', current: '坂東市', kind: 'merger', since: 2005 },
+  '今市市': { region: '日光', prefecture: '09', current: '日光市', kind: 'merger', since: 2006 },
+  '黒磯市': { region: '那須塩原', prefecture: '09', current: '那須塩原市', kind: 'merger', since: 2005 },
+  '浦和市': { region: '浦和', prefecture: '11', current: 'さいたま市浦和区', kind: 'merger', since: 2001 },
+  '大宮市': { region: '大宮', prefecture: '11', current: 'さいたま市大宮区', kind: 'merger', since: 2001 },
+  '与野市': { region: '与野', prefecture: '11', current: 'さいたま市中央区', kind: 'merger', since: 2001 },
+  '岩槻市': { region: '岩槻', prefecture: '11', current: 'さいたま市岩槻区', kind: 'merger', since: 2005 },
+  '浦和区': { region: '浦和', prefecture: '11', current: 'さいたま市浦和区', kind: 'ward' },
+  '大宮区': { region: '大宮', prefecture: '11', current: 'さいたま市大宮区', kind: 'ward' },
+  '岩槻区': { region: '岩槻', prefecture: '11', current: 'さいたま市岩槻区', kind: 'ward' },
+  '鳩ヶ谷市': { region: '川口', prefecture: '11', current: '川口市', kind: 'merger', since: 2011 },
+  '上福岡市': { region: 'ふじみ野', prefecture: '11', current: 'ふじみ野市', kind: 'merger', since: 2005 },
+  '庄和町': { region: '春日部', prefecture: '11', current: '春日部市', kind: 'merger', since: 2005 },
+  '沼南町': { region: '柏', prefecture: '12', current: '柏市', kind: 'merger', since: 2005 },
+  '八日市場市': { region: '匝瑳', prefecture: '12', current: '匝瑳市', kind: 'merger', since: 2006 },
+  '佐原市': { region: '香取', prefecture: '12', current: '香取市', kind: 'merger', since: 2006 },
+  '田無市': { region: '西東京', prefecture: '13', current: '西東京市', kind: 'merger', since: 2001 },
+  '保谷市': { region: '西東京', prefecture: '13', current: '西東京市', kind: 'merger', since: 2001 },
+  '秋川市': { region: 'あきる野', prefecture: '13', current: 'あきる野市', kind: 'merger', since: 1995 },
+  '五日市町': { region: 'あきる野', prefecture: '13', current: 'あきる野市', kind: 'merger', since: 1995 },
+  '相模湖町': { region: '相模原', prefecture: '14', current: '相模原市緑区', kind: 'merger', since: 2006 },
+  '津久井町': { region: '相模原', prefecture: '14', current: '相模原市緑区', kind: 'merger', since: 2006 },
+  '藤野町': { region: '相模原', prefecture: '14', current: '相模原市緑区', kind: 'merger', since: 2007 },
+  '城山町': { region: '相模原', prefecture: '14', current: '相模原市緑区', kind: 'merger', since: 2007 },
+
+  // 中部
+  '新津市': { region: '新津', prefecture: '15', current: '新潟市秋葉区', kind: 'merger', since: 2005 },
+  '豊栄市': { region: '豊栄', prefecture: '15', current: '新潟市北区', kind: 'merger', since: 2005 },
+  '白根市': { region: '新潟', prefecture: '15', current: '新潟市南区', kind: 'merger', since: 2005 },
+  '秋葉区': { region: '新津', prefecture: '15', current: '新潟市秋葉区', kind: 'ward' },
+  '新湊市': { region: '射水', prefecture: '16', current: '射水市', kind: 'merger', since: 2005 },
+  '小杉町': { region: '射水', prefecture: '16', current: '射水市', kind: 'merger', since: 2005 },
+  '福光町': { region: '南砺', prefecture: '16', current: '南砺市', kind: 'merger', since: 2004 },
+  '城端町': { region: '南砺', prefecture: '16', current: '南砺市', kind: 'merger', since: 2004 },
+  '武生市': { region: '越前', prefecture: '18', current: '越前市', kind: 'merger', since: 2005 },
+  '丸岡町': { region: '坂井', prefecture: '18', current: '坂井市', kind: 'merger', since: 2006 },
+  '三国町': { region: '坂井', prefecture: '18', current: '坂井市', kind: 'merger', since: 2006 },
+  '塩山市': { region: '甲州', prefecture: '19', current: '甲州市', kind: 'merger', since: 2005 },
+  '石和町': { region: '笛吹', prefecture: '19', current: '笛吹市', kind: 'merger', since: 2004 },
+  '河口湖町': { region: '富士河口湖', prefecture: '19', current: '富士河口湖町', kind: 'merger', since: 2003 },
+  '更埴市': { region: '千曲', prefecture: '20', current: '千曲市', kind: 'merger', since: 2003 },
+  '戸倉上山田町': { region: '千曲', prefecture: '20', current: '千曲市', kind: 'merger', since: 2003 },
+  '豊科町': { region: '安曇野', prefecture: '20', current: '安曇野市', kind: 'merger', since: 2005 },
+  '穂高町': { region: '安曇野', prefecture: '20', current: '安曇野市', kind: 'merger', since: 2005 },
+  '清水市': { region: '静岡', prefecture: '22', current: '静岡市清水区', kind: 'merger', since: 2003 },
+  '蒲原町': { region: '静岡', prefecture: '22', current: '静岡市清水区', kind: 'merger', since: 2006 },
+  '清水区': { region: '静岡', prefecture: '22', current: '静岡市清水区', kind: 'ward' },
+  '浜北市': { region: '浜北', prefecture: '22', current: '浜松市浜名区', kind: 'merger', since: 2005 },
+  '浜北区': { region: '浜北', prefecture: '22', current: '浜松市浜名区', kind: 'merger', since: 2024 },
+  '浜名区': { region: '浜北', prefecture: '22', current: '浜松市浜名区', kind: 'ward' },
+  '天竜市': { region: '浜松', prefecture: '22', current: '浜松市天竜区', kind: 'merger', since: 2005 },
+  '天竜区': { region: '浜松', prefecture: '22', current: '浜松市天竜区', kind: 'ward' },
+  '祖父江町': { region: '稲沢', prefecture: '23', current: '稲沢市', kind: 'merger', since: 2005 },
+
+  // 近畿
+  '久居市': { region: '津', prefecture: '24', current: '津市', kind: 'merger', since: 2006 },
+  '長島町': { region: '桑名', prefecture: '24', current: '桑名市', kind: 'merger', since: 2004 },
+  '大安町': { region: 'いなべ', prefecture: '24', current: 'いなべ市', kind: 'merger', since: 2003 },
+  '八日市市': { region: '東近江', prefecture: '25', current: '東近江市', kind: 'merger', since: 2005 },
+  '安土町': { region: '近江八幡', prefecture: '25', current: '近江八幡市', kind: 'merger', since: 2010 },
+  '水口町': { region: '甲賀', prefecture: '25', current: '甲賀市', kind: 'merger', since: 2004 },
+  '甲西町': { region: '湖南', prefecture: '25', current: '湖南市', kind: 'merger', since: 2004 },
+  '木之本町': { region: '長浜', prefecture: '25', current: '長浜市', kind: 'merger', since: 2010 },
+  '園部町': { region: '南丹', prefecture: '26', current: '南丹市', kind: 'merger', since: 2006 },
+  '美山町': { region: '南丹', prefecture: '26', current: '南丹市', kind: 'merger', since: 2006 },
+  '峰山町': { region: '京丹後', prefecture: '26', current: '京丹後市', kind: 'merger', since: 2004 },
+  '美原町': { region: '堺', prefecture: '27', current: '堺市美原区', kind: 'merger', since: 2005 },
+  '美原区': { region: '堺', prefecture: '27', current: '堺市美原区', kind: 'ward' },
+  '龍野市': { region: 'たつの', prefecture: '28', current: 'たつの市', kind: 'merger', since: 2005 },
+  '八鹿町': { region: '養父', prefecture: '28', current: '養父市', kind: 'merger', since: 2004 },
+  '氷上町': { region: '丹波', prefecture: '28', current: '丹波市', kind: 'merger', since: 2004 },
+  '篠山市': { region: '丹波篠山', prefecture: '28', current: '丹波篠山市', kind: 'renamed', since: 2019 },
+  '新庄町': { region: '葛城', prefecture: '29', current: '葛城市', kind: 'merger', since: 2004 },
+  '當麻町': { region: '葛城', prefecture: '29', current: '葛城市', kind: 'merger', since: 2004 },
+  '榛原町': { region: '宇陀', prefecture: '29', current: '宇陀市', kind: 'merger', since: 2006 },
+  '西吉野村': { region: '五條', prefecture: '29', current: '五條市', kind: 'merger', since: 2005 },
+  '打田町': { region: '紀の川', prefecture: '30', current: '紀の川市', kind: 'merger', since: 2005 },
+
+  // 中国・四国
+  '淀江町': { region: '米子', prefecture: '31', current: '米子市', kind: 'merger', since: 2005 },
+  '平田市': { region: '出雲', prefecture: '32', current: '出雲市', kind: 'merger', since: 2005 },
+  '大社町': { region: '出雲', prefecture: '32', current: '出雲市', kind: 'merger', since: 2005 },
+  '西郷町': { region: '隠岐の島', prefecture: '32', current: '隠岐の島町', kind: 'merger', since: 2004 },
+  '邑久町': { region: '瀬戸内', prefecture: '33', current: '瀬戸内市', kind: 'merger', since: 2004 },
+  '因島市': { region: '尾道', prefecture: '34', current: '尾道市', kind: 'merger', since: 2006 },
+  '瀬戸田町': { region: '尾道', prefecture: '34', current: '尾道市', kind: 'merger', since: 2006 },
+  '甲山町': { region: '世羅', prefecture: '34', current: '世羅町', kind: 'merger', since: 2004 },
+  '徳山市': { region: '周南', prefecture: '35', current: '周南市', kind: 'merger', since: 2003 },
+  '新南陽市': { region: '周南', prefecture: '35', current: '周南市', kind: 'merger', since: 2003 },
+  '小野田市': { region: '山陽小野田', prefecture: '35', current: '山陽小野田市', kind: 'merger', since: 2005 },
+  '秋芳町': { region: '美祢', prefecture: '35', current: '美祢市', kind: 'merger', since: 2008 },
+  '鴨島町': { region: '吉野川', prefecture: '36', current: '吉野川市', kind: 'merger', since: 2004 },
+  '脇町': { region: '美馬', prefecture: '36', current: '美馬市', kind: 'merger', since: 2005 },
+  '大内町': { region: '東かがわ', prefecture: '37', current: '東かがわ市', kind: 'merger', since: 2003 },
+  '詫間町': { region: '三豊', prefecture: '37', current: '三豊市', kind: 'merger', since: 2006 },
+  '川之江市': { region: '四国中央', prefecture: '38', current: '四国中央市', kind: 'merger', since: 2004 },
+  '伊予三島市': { region: '四国中央', prefecture: '38', current: '四国中央市', kind: 'merger', since: 2004 },
+  '中村市': { region: '四万十', prefecture: '39', current: '四万十市', kind: 'merger', since: 2005 },
+
+  // 九州・沖縄
+  '山田市': { region: '嘉麻', prefecture: '40', current: '嘉麻市', kind: 'merger', since: 2006 },
+  '前原市': { region: '糸島', prefecture: '40', current: '糸島市', kind: 'merger', since: 2010 },
+  '厳原町': { region: '対馬', prefecture: '42', current: '対馬市', kind: 'merger', since: 2004 },
+  '福江市': { region: '五島', prefecture: '42', current: '五島市', kind: 'merger', since: 2004 },
+  '本渡市': { region: '天草', prefecture: '43', current: '天草市', kind: 'merger', since: 2006 },
+  '牛深市': { region: '天草', prefecture: '43', current: '天草市', kind: 'merger', since: 2006 },
+  '松橋町': { region: '宇城', prefecture: '43', current: '宇城市', kind: 'merger', since: 2005 },
+  '三角町': { region: '宇城', prefecture: '43', current: '宇城市', kind: 'merger', since: 2005 },
+  '三重町': { region: '豊後大野', prefecture: '44', current: '豊後大野市', kind: 'merger', since: 2005 },
+  '佐土原町': { region: '宮崎', prefecture: '45', current: '宮崎市', kind: 'merger', since: 2006 },
+  '田野町': { region: '宮崎', prefecture: '45', current: '宮崎市', kind: 'merger', since: 2006 },
+  '名瀬市': { region: '奄美', prefecture: '46', current: '奄美市', kind: 'merger', since: 2006 },
+  '国分市': { region: '霧島', prefecture: '46', current: '霧島市', kind: 'merger', since: 2005 },
+  '加治木町': { region: '姶良', prefecture: '46', current: '姶良市', kind: 'merger', since: 2010 },
+  '串木野市': { region: 'いちき串木野', prefecture: '46', current: 'いちき串木野市', kind: 'merger', since: 2005 },
+  '大口市': { region: '伊佐', prefecture: '46', current: '伊佐市', kind: 'merger', since: 2008 },
+  '川内市': { region: '薩摩川内', prefecture: '46', current: '薩摩川内市', kind: 'merger', since: 2004 },
+  '加世田市': { region: '南さつま', prefecture: '46', current: '南さつま市', kind: 'merger', since: 2005 },
+  '平良市': { region: '宮古島', prefecture: '47', current: '宮古島市', kind: 'merger', since: 2005 },
+  '具志川市': { region: 'うるま', prefecture: '47', current: 'うるま市', kind: 'merger', since: 2005 },
+  '石川市': { region: 'うるま', prefecture: '47', current: 'うるま市', kind: 'merger', since: 2005 },
+  '玉城村': { region: '南城', prefecture: '47', current: '南城市', kind: 'merger', since: 2006 },
+  '佐敷町': { region: '南城', prefecture: '47', current: '南城市', kind: 'merger', since: 2006 },
+};
@@ -0,0 +1,293 @@
+/**
+ * 施設の重複判定・統合
+ * 同じ葬儀社が別の placeId・表記ゆれ（"(株)" と "株式会社"、支店名の有無など）で
+ * 複数の検索結果に現れるため、施設名・電話番号・住所の近さでまとめ、代表レコードに統合する
+ *
+ * - 代表（canonical）: 営業中 → 口コミ数 → 写真数 → placeId の順で選ぶ
+ * - 統合された placeId は代表レコードの aliases に保持し、
+ *   alias: 名前空間に「重複 placeId → 代表 placeId」を永続化する
+ *   （slug-lookup・詳細ページで重複施設を代表施設へリダイレクトするため）
+ * - 住所が離れている施設は名前・電話番号が同じでも統合しない（支店・別ホール）
+ */
+
+import type { SearchResult } from '../types';
+import { cacheGet, cacheSet } from './cache';
+import { computeNameSimilarity } from './facilityMatcher';
+import { normalizePlaceId } from './facilityIndex';
+
+// 電話番号が一致する場合に必要な名前の類似度
+const PHONE_MATCH_NAME_THRESHOLD = 0.5;
+// 電話番号なしで統合する場合に必要な名前の類似度
+const NAME_MATCH_THRESHOLD = 0.85;
+// 住所がこの値未満なら別施設とみなす
+const ADDRESS_NEAR_THRESHOLD = 0.6;
+
+export type DuplicateReason = 'phone' | 'name-address';
+
+export interface FacilityAlias {
+  canonicalId: string;
+  reason: DuplicateReason;
+  title: string; // 統合された側の施設名（管理用）
+  updatedAt: number;
+}
+
+export interface FacilityCluster {
+  canonical: SearchResult;   // 統合後の代表レコード
+  members: SearchResult[];   // 統合前のレコード（代表を含む）
+  aliasIds: string[];        // 代表以外の placeId
+  reasons: Record<string, DuplicateReason>; // placeId → 統合理由
+}
+
+/**
+ * 電話番号を比較用に正規化（数字のみ、+81 は 0 に置換）
+ * 10桁未満は比較に使わない
+ */
+export function normalizePhoneNumber(phone?: string): string | null {
+  if (!phone) return null;
+  let digits = phone.normalize('NFKC').replace(/[^\d+]/g, '');
+  if (digits.startsWith('+81')) digits = `0${digits.substring(3)}`;
+  digits = digits.replace(/\D/g, '');
+  return digits.length >= 10 ? digits : null;
+}
+
+/**
+ * 住所を比較用に正規化
+ * 例: "日本、〒156-0052 東京都世田谷区経堂２丁目３番４号 ABCビル1F" → "東京都世田谷区経堂2-3-4"
+ */
+export function normalizeAddress(address?: string): string | null {
+  if (!address) return null;
+  let normalized = address.normalize('NFKC')
+    .replace(/^日本[、,]?\s*/, '')
+    .replace(/〒?\d{3}-?\d{4}\s*/, '')
+    .replace(/\s+/g, '')
+    .replace(/(\d)[‐―ー−](?=\d)/g, '$1-')
+    .replace(/丁目|番地|番|号/g, '-');
+
+  // 番地以降の建物名・階数を除去
+  const block = normalized.match(/^(\D*?\d+(?:-\d+)*)/);
+  if (block) normalized = block[1];
+  return normalized.replace(/-+$/, '') || null;
+}
+
+/**
+ * 2つの住所の近さ（0〜1）
+ * 1: 番地まで一致 / 0.9: 丁目・番まで一致 / 0.6: 同じ丁目 / 0.3: 同じ町域 / 0: それ以外
+ */
+export function computeAddressProximity(a?: string, b?: string): number {
+  const na = normalizeAddress(a);
+  const nb = normalizeAddress(b);
+  if (!na || !nb) return 0;
+  if (na === nb) return 1;
+
+  const split = (value: string) => {
+    const match = value.match(/^(\D*)([\d-]*)$/);
+    return match ? { town: match[1], numbers: match[2].split('-').filter(Boolean) } : { town: value, numbers: [] };
+  };
+  const pa = split(na);
+  const pb = split(nb);
+  if (!pa.town || pa.town !== pb.town) return 0;
+
+  if (pa.numbers.length === 0 || pb.numbers.length === 0) return 0.3;
+  if (pa.numbers[0] !== pb.numbers[0]) return 0.3;
+  if (pa.numbers.length >= 2 && pb.numbers.length >= 2 && pa.numbers[1] === pb.numbers[1]) return 0.9;
+  return 0.6;
+}
+
+/**
+ * 2つの検索結果が同一施設かを判定（同一でなければ null）
+ */
+export function detectDuplicate(a: SearchResult, b: SearchResult): DuplicateReason | null {
+  const hasBothAddresses = !!normalizeAddress(a.address) && !!normalizeAddress(b.address);
+  const proximity = computeAddressProximity(a.address, b.address);
+
+  // 住所が離れている（支店・別ホール）
+  if (hasBothAddresses && proximity < ADDRESS_NEAR_THRESHOLD) return null;
+
+  const nameSimilarity = computeNameSimilarity(a.title, b.title);
+  const phoneA = normalizePhoneNumber(a.phone);
+  if (phoneA && phoneA === normalizePhoneNumber(b.phone) && nameSimilarity >= PHONE_MATCH_NAME_THRESHOLD) {
+    return 'phone';
+  }
+
+  if (hasBothAddresses && nameSimilarity >= NAME_MATCH_THRESHOLD) {
+    return 'name-address';
+  }
+
+  return null;
+}
+
+function resultKey(result: SearchResult): string {
+  return result.placeId ? normalizePlaceId(result.placeId) : `title:${result.title}`;
+}
+
+/**
+ * 代表レコードの優先度（大きいほど優先）
+ */
+function compareCanonicalPriority(a: SearchResult, b: SearchResult): number {
+  const operational = (r: SearchResult) => (!r.businessStatus || r.businessStatus === 'OPERATIONAL' ? 1 : 0);
+  const photos = (r: SearchResult) => (r.photoRefs?.length || r.photoUrls?.length || 0);
+  return (
+    operational(b) - operational(a) ||
+    (b.reviewCount || 0) - (a.reviewCount || 0) ||
+    photos(b) - photos(a) ||
+    (a.placeId ? 0 : 1) - (b.placeId ? 0 : 1) ||
+    resultKey(a).localeCompare(resultKey(b))
+  );
+}
+
+/**
+ * 代表レコードに他のレコードの情報を補完して統合
+ */
+function mergeCluster(members: SearchResult[]): SearchResult {
+  const [canonical, ...others] = [...members].sort(compareCanonicalPriority);
+  const merged: SearchResult = { ...canonical };
+
+  for (const other of others) {
+    merged.phone = merged.phone || other.phone;
+    merged.address = merged.address || other.address;
+    merged.website = merged.website || other.website;
+    merged.openingHours = merged.openingHours || other.openingHours;
+    merged.openingSchedule = merged.openingSchedule || other.openingSchedule;
+    merged.twentyFourHour = merged.twentyFourHour || other.twentyFourHour;
+    merged.location = merged.location || other.location;
+    if (!merged.photoRefs?.length && other.photoRefs?.length) merged.photoRefs = other.photoRefs;
+    if (other.services?.length) {
+      merged.services = Array.from(new Set([...(merged.services || []), ...other.services]));
+    }
+    for (const support of other.religiousSupport || []) {
+      const existing = (merged.religiousSupport || []).find((s) => s.religion === support.religion);
+      merged.religiousSupport = existing
+        ? merged.religiousSupport!.map((s) => s === existing
+          ? { ...s, sources: Array.from(new Set([...s.sources, ...support.sources])), evidence: s.evidence || support.evidence }
+          : s)
+        : [...(merged.religiousSupport || []), support];
+    }
+    if (merged.rating === undefined && other.rating !== undefined) {
+      merged.rating = other.rating;
+      merged.reviewCount = other.reviewCount;
+    }
+  }
+
+  const canonicalId = resultKey(canonical);
+  const aliasIds = new Set<string>(canonical.aliases || []);
+  for (const other of others) {
+    if (other.placeId) aliasIds.add(normalizePlaceId(other.placeId));
+    (other.aliases || []).forEach((id) => aliasIds.add(id));
+  }
+  aliasIds.delete(canonicalId);
+  if (aliasIds.size > 0) merged.aliases = Array.from(aliasIds);
+
+  return merged;
+}
+
+/**
+ * 検索結果を同一施設ごとにまとめる（元の並び順を維持し、各クラスタは最初の出現位置に置く）
+ */
+export function clusterFacilities(results: SearchResult[]): FacilityCluster[] {
+  const parent = results.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const reasons = new Map<number, DuplicateReason>();
+
+  for (let i = 0; i < results.length; i++) {
+    for (let j = i + 1; j < results.length; j++) {
+      const sameId = resultKey(results[i]) === resultKey(results[j]) ||
+        (results[i].aliases || []).includes(resultKey(results[j])) ||
+        (results[j].aliases || []).includes(resultKey(results[i]));
+      const reason = sameId ? null : detectDuplicate(results[i], results[j]);
+      if (!sameId && !reason) continue;
+
+      const ri = find(i);
+      const rj = find(j);
+      if (ri === rj) continue;
+      parent[rj] = ri;
+      if (reason) {
+        if (!reasons.has(i)) reasons.set(i, reason);
+        if (!reasons.has(j)) reasons.set(j, reason);
+      }
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  results.forEach((_, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) || []), i]);
+  });
+
+  return Array.from(groups.values())
+    .sort((a, b) => a[0] - b[0])
+    .map((indexes) => {
+      const members = indexes.map((i) => results[i]);
+      const canonical = members.length > 1 ? mergeCluster(members) : members[0];
+      const canonicalId = resultKey(canonical);
+      const reasonMap: Record<string, DuplicateReason> = {};
+      for (const i of indexes) {
+        const id = resultKey(results[i]);
+        if (id !== canonicalId && results[i].placeId) reasonMap[id] = reasons.get(i) || 'phone';
+      }
+      return {
+        canonical,
+        members,
+        aliasIds: Object.keys(reasonMap),
+        reasons: reasonMap,
+      };
+    });
+}
+
+/**
+ * 重複を統合した検索結果一覧を返す
+ */
+export function dedupeFacilities(results: SearchResult[]): { results: SearchResult[]; clusters: FacilityCluster[] } {
+  const clusters = clusterFacilities(results);
+  const merged = clusters.filter((cluster) => cluster.members.length > 1);
+  if (merged.length > 0) {
+    console.log(`🧩 [Dedup] ${results.length}件 → ${clusters.length}件 (${merged.map((c) => `${c.canonical.title}+${c.members.length - 1}`).join(', ')})`);
+  }
+  return { results: clusters.map((cluster) => cluster.canonical), clusters: merged };
+}
+
+/**
+ * 統合された placeId → 代表 placeId の対応を保存（既に同じ内容なら書き込まない）
+ */
+export async function recordFacilityAliases(clusters: FacilityCluster[]): Promise<number> {
+  let written = 0;
+  for (const cluster of clusters) {
+    if (!cluster.canonical.placeId) continue;
+    const canonicalId = normalizePlaceId(cluster.canonical.placeId);
+
+    for (const aliasId of cluster.aliasIds) {
+      const { value } = await cacheGet<FacilityAlias>('alias', aliasId);
+      if (value?.canonicalId === canonicalId) continue;
+
+      const member = cluster.members.find((m) => m.placeId && normalizePlaceId(m.placeId) === aliasId);
+      const { ok } = await cacheSet<FacilityAlias>('alias', aliasId, {
+        canonicalId,
+        reason: cluster.reasons[aliasId],
+        title: member?.title || '',
+        updatedAt: Date.now(),
+      });
+      if (ok) written++;
+    }
+  }
+  if (written > 0) {
+    console.log(`🧩 [Dedup] Recorded ${written} facility aliases`);
+  }
+  return written;
+}
+
+/**
+ * 代表 placeId を解決（統合されていなければそのまま返す）
+ * 代表がさらに統合されている場合に備えて数段たどる
+ */
+export async function resolveCanonicalPlaceId(placeId: string): Promise<string> {
+  let id = normalizePlaceId(placeId);
+  const visited = new Set<string>([id]);
+
+  for (let depth = 0; depth < 3; depth++) {
+    const { value } = await cacheGet<FacilityAlias>('alias', id);
+    if (!value?.canonicalId || visited.has(value.canonicalId)) break;
+    id = value.canonicalId;
+    visited.add(id);
+  }
+
+  return id;
+}
@@ -0,0 +1,91 @@
+/**
+ * 施設の逆引きインデックス（facility: 名前空間）
+ * placeId → その施設を含むキャッシュキー（search: / slug: / prefix: / shortid:）
+ *
+ * 施設情報の訂正時に、どの検索結果・slugマッピングに影響するかを
+ * 全キーをスキャンせずに特定するために使う。
+ * 参照先が期限切れで消えていても害はないため、書き込み時は追記のみ行い、
+ * 無効になった参照は無効化処理の際に除去する
+ * 同じ施設の更新（検索結果の同時更新など）は lock: で直列化し、互いの参照を上書きしない
+ */
+
+import type { SearchResult } from '../types';
+import { cacheGet, cacheSet, withCacheLock } from './cache';
+
+export interface FacilityReferences {
+  placeId: string;
+  keys: string[];
+  updatedAt: number;
+}
+
+export function normalizePlaceId(placeId: string): string {
+  return placeId.replace(/^places\//, '');
+}
+
+/**
+ * 施設の参照元キー一覧を取得
+ */
+export async function getFacilityReferences(placeId: string): Promise<string[]> {
+  const { value } = await cacheGet<FacilityReferences>('facility', normalizePlaceId(placeId));
+  return Array.isArray(value?.keys) ? value!.keys : [];
+}
+
+/**
+ * 施設の参照元キーを追加（既に登録済みなら書き込まない）
+ */
+export async function addFacilityReferences(placeId: string, keys: string[]): Promise<void> {
+  const id = normalizePlaceId(placeId);
+  const current = await getFacilityReferences(id);
+  if (keys.every((key) => current.includes(key))) return;
+
+  await withCacheLock(`facility:${id}`, async () => {
+    // ロック取得までに他の更新が入っている可能性があるため読み直す
+    const latest = await getFacilityReferences(id);
+    const merged = Array.from(new Set([...latest, ...keys]));
+    if (merged.length === latest.length) return;
+    await cacheSet<FacilityReferences>('facility', id, { placeId: id, keys: merged, updatedAt: Date.now() });
+  });
+}
+
+/**
+ * 施設の参照元キーを削除
+ */
+export async function removeFacilityReferences(placeId: string, keys: string[]): Promise<void> {
+  const id = normalizePlaceId(placeId);
+  await withCacheLock(`facility:${id}`, async () => {
+    const current = await getFacilityReferences(id);
+    const remaining = current.filter((key) => !keys.includes(key));
+    if (remaining.length === current.length) return;
+    await cacheSet<FacilityReferences>('facility', id, { placeId: id, keys: remaining, updatedAt: Date.now() });
+  });
+}
+
+/**
+ * 検索結果キャッシュに含まれる全施設について参照を登録
+ */
+export async function recordSearchReferences(searchKey: string, results: SearchResult[]): Promise<void> {
+  const placeIds = Array.from(new Set(
+    results
+      .map((result) => result.placeId && normalizePlaceId(result.placeId))
+      .filter((placeId): placeId is string => !!placeId)
+  ));
+
+  await Promise.all(placeIds.map((placeId) => addFacilityReferences(placeId, [searchKey])));
+  console.log(`🗂️ [Facility Index] ${searchKey} → ${placeIds.length} facilities`);
+}
+
+/**
+ * 検索結果キャッシュからその施設のレコードを取得（見つからなければ null）
+ * 詳細ページ（Place Details のみ）に検索時に判定した情報（Q&A・葬儀形式・宗教宗派など）を補うために使う
+ */
+export async function findCachedSearchResult(placeId: string): Promise<SearchResult | null> {
+  const id = normalizePlaceId(placeId);
+  const keys = (await getFacilityReferences(id)).filter((key) => key.startsWith('search:'));
+
+  for (const key of keys) {
+    const { value } = await cacheGet<{ results?: SearchResult[] }>('search', key.substring('search:'.length));
+    const found = (value?.results || []).find((result) => result.placeId && normalizePlaceId(result.placeId) === id);
+    if (found) return found;
+  }
+  return null;
+}
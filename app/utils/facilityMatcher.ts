@@ -0,0 +1,183 @@
+/**
+ * 施設名マッチングユーティリティ
+ * Geminiの応答から抽出した施設名と groundingChunks の maps.title を名前で対応付ける
+ *
+ * 配列の位置で対応付けると、Geminiが施設を並べ替えたり省略した場合に
+ * 以降の施設すべてに誤った placeId / URI が割り当てられるため、名前の類似度で照合する
+ */
+
+import type { GroundingChunk } from '../types';
+
+// この値以上は一致とみなす
+export const MATCH_ACCEPT_THRESHOLD = 0.6;
+// この値未満は不一致として除外（間の値は Place Details で再検証）
+export const MATCH_REJECT_THRESHOLD = 0.3;
+
+// 法人格の表記（前後どちらにも付く）
+const CORPORATE_PATTERNS = [
+  /株式会社/g,
+  /有限会社/g,
+  /合同会社/g,
+  /合資会社/g,
+  /一般社団法人/g,
+  /宗教法人/g,
+  /\(株\)/g,
+  /\(有\)/g,
+  /\(同\)/g,
+  /㈱/g,
+  /㈲/g,
+];
+
+// 施設種別の末尾表記（「○○斎場」と「○○」を同一視する）
+const FACILITY_SUFFIXES = [
+  'セレモニーホール',
+  'セレモニー会館',
+  'メモリアルホール',
+  '葬祭会館',
+  '葬儀会館',
+  '葬祭場',
+  '葬儀場',
+  '斎場',
+  '会館',
+  'ホール',
+];
+
+/**
+ * 施設名を比較用に正規化
+ * - 全角/半角の統一（NFKC）
+ * - 法人格（株式会社・(株) 等）の除去
+ * - 空白・記号の除去
+ * - 斎場/会館などの末尾表記の除去（除去後に空になる場合は残す）
+ *
+ * 例: "株式会社 セレモニー　ＡＢＣ会館" → "セレモニーabc"
+ */
+export function normalizeFacilityName(name: string): string {
+  let normalized = (name || '').normalize('NFKC').toLowerCase();
+
+  for (const pattern of CORPORATE_PATTERNS) {
+    normalized = normalized.replace(pattern, '');
+  }
+
+  normalized = normalized.replace(/[\s・･\-‐－―_.,，、。()（）「」『』【】\[\]"'’]/g, '');
+
+  for (const suffix of FACILITY_SUFFIXES) {
+    if (normalized.endsWith(suffix) && normalized.length > suffix.length) {
+      normalized = normalized.slice(0, -suffix.length);
+      break;
+    }
+  }
+
+  return normalized;
+}
+
+/**
+ * 文字バイグラムの集合を生成（1文字の場合はその文字のみ）
+ */
+function toBigrams(text: string): string[] {
+  if (text.length < 2) return text ? [text] : [];
+  const bigrams: string[] = [];
+  for (let i = 0; i < text.length - 1; i++) {
+    bigrams.push(text.substring(i, i + 2));
+  }
+  return bigrams;
+}
+
+/**
+ * 2つの施設名の類似度（0〜1）
+ * 正規化後のバイグラムDice係数と包含関係のうち高い方を採用
+ */
+export function computeNameSimilarity(a: string, b: string): number {
+  const na = normalizeFacilityName(a);
+  const nb = normalizeFacilityName(b);
+
+  if (!na || !nb) return 0;
+  if (na === nb) return 1;
+
+  // 包含関係（支店名・ホール名の有無など）
+  let containment = 0;
+  const [shorter, longer] = na.length <= nb.length ? [na, nb] : [nb, na];
+  if (shorter.length >= 2 && longer.includes(shorter)) {
+    containment = 0.7 + 0.3 * (shorter.length / longer.length);
+  }
+
+  // バイグラム Dice 係数
+  const bigramsA = toBigrams(na);
+  const bigramsB = toBigrams(nb);
+  const counts = new Map<string, number>();
+  for (const bg of bigramsA) {
+    counts.set(bg, (counts.get(bg) || 0) + 1);
+  }
+  let overlap = 0;
+  for (const bg of bigramsB) {
+    const count = counts.get(bg) || 0;
+    if (count > 0) {
+      overlap++;
+      counts.set(bg, count - 1);
+    }
+  }
+  const dice = (2 * overlap) / (bigramsA.length + bigramsB.length);
+
+  return Math.max(dice, containment);
+}
+
+export interface FacilityMatch<T> {
+  title: string;
+  details: T;
+  chunk: GroundingChunk | null;
+  confidence: number;
+  // ACCEPT未満・REJECT以上: Place Details の施設名で再検証が必要
+  needsVerification: boolean;
+}
+
+/**
+ * 抽出した施設と groundingChunks を名前の類似度で1対1に対応付ける
+ *
+ * 全組み合わせのスコアを計算し、高い順に貪欲法で割り当てる。
+ * REJECT_THRESHOLD 未満のペアは割り当てない（chunk: null）。
+ */
+export function matchDetailsToChunks<T>(
+  detailEntries: Array<[string, T]>,
+  groundingChunks: GroundingChunk[]
+): FacilityMatch<T>[] {
+  const candidates: Array<{ detailIndex: number; chunkIndex: number; score: number }> = [];
+
+  detailEntries.forEach(([title], detailIndex) => {
+    groundingChunks.forEach((chunk, chunkIndex) => {
+      const chunkTitle = chunk.maps?.title;
+      if (!chunkTitle || !chunk.maps?.placeId) return;
+      const score = computeNameSimilarity(title, chunkTitle);
+      if (score >= MATCH_REJECT_THRESHOLD) {
+        candidates.push({ detailIndex, chunkIndex, score });
+      }
+    });
+  });
+
+  // スコア降順、同点の場合は元の並び順が近いものを優先
+  candidates.sort((a, b) =>
+    b.score - a.score ||
+    Math.abs(a.detailIndex - a.chunkIndex) - Math.abs(b.detailIndex - b.chunkIndex)
+  );
+
+  const assignedDetails = new Map<number, { chunkIndex: number; score: number }>();
+  const usedChunks = new Set<number>();
+
+  for (const candidate of candidates) {
+    if (assignedDetails.has(candidate.detailIndex) || usedChunks.has(candidate.chunkIndex)) continue;
+    assignedDetails.set(candidate.detailIndex, { chunkIndex: candidate.chunkIndex, score: candidate.score });
+    usedChunks.add(candidate.chunkIndex);
+  }
+
+  return detailEntries.map(([title, details], detailIndex) => {
+    const assigned = assignedDetails.get(detailIndex);
+    if (!assigned) {
+      return { title, details, chunk: null, confidence: 0, needsVerification: false };
+    }
+    return {
+      title,
+      details,
+      chunk: groundingChunks[assigned.chunkIndex],
+      confidence: Math.round(assigned.score * 100) / 100,
+      needsVerification: assigned.score < MATCH_ACCEPT_THRESHOLD,
+    };
+  });
+}
@@ -0,0 +1,226 @@
+/**
+ * 施設詳細ページの読めるURL（/detail/{都道府県}/{市区町村}/{施設名}-{短縮ID}）
+ * 例: /detail/tokyo/nerima/kazokusonoserehausutanihara-3k9x2a
+ *
+ * - 都道府県・市区町村は住所から regions.json の地域を引いてローマ字にする（/list/{romaji} と同じ表記）
+ * - 施設名はローマ字変換（hepburn-ascii で長音符を外す。romaji: 名前空間でメモ化、表記が変わらない）
+ * - 短縮IDは PlaceID のハッシュ（Crockford Base32）。他の施設と衝突した場合は長くする
+ *   短縮ID → PlaceID を shortid: に保存し、URLの解決はこの1回のキャッシュ参照だけで行う（施設名検索は呼ばない）
+ * - 都道府県・市区町村・施設名はURLの表示用で、解決には使わない。表記が違うURLは正規のURLへリダイレクトする
+ * - 発行したURLは slugs: の path に保存し、施設名・住所が変わってもURLは変えない
+ *   slug:{パス} → PlaceID も保存し、shortid: が消えていてもURLを解決できるようにする
+ * - 施設一覧・地図のリンクは検索APIが付与する detailPath（発行済みのURL）を使う（attachFacilityPaths）
+ *
+ * サーバー専用（Kuroshiro・node:crypto を使う）
+ */
+
+import { createHash } from 'crypto';
+import type { SearchResult } from '../types';
+import { buildCacheKey, cacheGet, cacheSetIfAbsent } from './cache';
+import { PREFECTURES, type PrefectureData } from './data/prefectures';
+import { addFacilityReferences, normalizePlaceId } from './facilityIndex';
+import type { RomajiStyle } from './kuroshiro';
+import { resolveRegionAlias } from './regionAliases';
+import { getRegion, isMunicipality, type Region } from './regionRegistry';
+import { convertTextsToRomaji } from './romajiConversion';
+import { getIssuedFacilityPath, registerFacilityPath } from './slugRegistry';
+
+export interface FacilityAddressLocation {
+  prefecture: PrefectureData | null;
+  municipality: Region | null;
+  // 住所から切り出した市区町村名（regions.json にない場合のURL表記用、例: "檜原村"）
+  municipalityName: string | null;
+}
+
+// /detail/{都道府県}/{市区町村}/{施設名}-{短縮ID}
+export const FACILITY_PATH_SEGMENT_COUNT = 3;
+
+// 紛らわしい文字（i, l, o, u）を除いた Crockford Base32（電話口で読み上げやすくする）
+const SHORT_ID_ALPHABET = '0123456789abcdefghjkmnpqrstvwxyz';
+const SHORT_ID_PATTERN = /^[0-9a-hjkmnp-tv-z]{6,}$/;
+
+// 短縮IDの長さ（衝突したら次の長さを試す）
+const SHORT_ID_LENGTHS = [6, 8, 10, 12, 16, 20, 26];
+
+// 施設名・市区町村名のローマ字表記（"東京" → "tokyo"。既定の hepburn では "tky" になる）
+const FACILITY_ROMAJI_STYLE: RomajiStyle = 'hepburn-ascii';
+
+const MAX_FACILITY_SEGMENT_LENGTH = 48;
+const MIN_FACILITY_SEGMENT_LENGTH = 3;
+
+// 住所・地域が分からない場合の表記
+const UNKNOWN_PREFECTURE_SEGMENT = 'japan';
+const UNKNOWN_MUNICIPALITY_SEGMENT = 'area';
+
+// 住所の市区町村名を探す範囲（都道府県名の後ろの文字数）
+const MAX_MUNICIPALITY_LENGTH = 12;
+
+// 施設名から除く法人格（"kabushikigaisha" をURLに入れない）
+const CORPORATE_FORM_PATTERN = /株式会社|有限会社|合同会社|合資会社|[（(][株有][）)]/g;
+
+/**
+ * PlaceID のハッシュ（Crockford Base32、SHORT_ID_LENGTHS の最大長）
+ */
+function hashPlaceId(placeId: string): string {
+  const digest = createHash('sha256').update(normalizePlaceId(placeId)).digest();
+  let bits = 0;
+  let buffer = 0;
+  let encoded = '';
+  for (const byte of digest) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      encoded += SHORT_ID_ALPHABET[(buffer >> (bits - 5)) & 31];
+      bits -= 5;
+    }
+    buffer &= (1 << bits) - 1;
+  }
+  return encoded;
+}
+
+/**
+ * 短縮IDを予約（既に予約済みならそのID）
+ * 他の施設が使っている長さは飛ばすため、同じ施設には常に同じIDが返る
+ * キャッシュのエラー時は null（読めるURLを発行しない）
+ */
+async function reserveFacilityShortId(placeId: string): Promise<string | null> {
+  const id = normalizePlaceId(placeId);
+  const hash = hashPlaceId(id);
+
+  for (const length of SHORT_ID_LENGTHS) {
+    const shortId = hash.substring(0, length);
+    const { stored, error } = await cacheSetIfAbsent('shortid', shortId, id);
+    if (error) return null;
+    if (stored) return shortId;
+
+    const { value } = await cacheGet<string>('shortid', shortId);
+    if (value === id) return shortId;
+    console.warn(`⚠️ [Facility Path] Short id ${shortId} is taken by ${value}, trying a longer one for ${id}`);
+  }
+  return null;
+}
+
+/**
+ * 住所から都道府県・市区町村を取得
+ * 例: "日本、〒177-0033 東京都練馬区高野台1-2-3" → 東京都 / 練馬
+ * 例: "神奈川県横浜市港北区新横浜2丁目" → 神奈川県 / 港北（政令指定都市は区を優先）
+ */
+export function parseFacilityAddress(address?: string): FacilityAddressLocation {
+  const normalized = (address || '')
+    .replace(/^日本[、,]\s*/, '')
+    .replace(/〒?\s*\d{3}-?\d{4}\s*/, '')
+    .replace(/[\s　]+/g, '');
+
+  const prefecture = Object.values(PREFECTURES).find((pref) => normalized.startsWith(pref.name)) || null;
+  if (!prefecture) {
+    return { prefecture: null, municipality: null, municipalityName: null };
+  }
+
+  // 「市」「区」「町」「村」で終わる先頭部分（長い順: "横浜市港北区" → "横浜市"）
+  const rest = normalized.slice(prefecture.name.length, prefecture.name.length + MAX_MUNICIPALITY_LENGTH);
+  const candidates: string[] = [];
+  for (let i = rest.length - 1; i > 0; i--) {
+    if (/[市区町村]/.test(rest[i])) candidates.push(rest.slice(0, i + 1));
+  }
+
+  for (const candidate of candidates) {
+    const alias = resolveRegionAlias(`${prefecture.name}${candidate}`);
+    if (alias) {
+      return { prefecture, municipality: alias.region, municipalityName: candidate };
+    }
+    const region = getRegion(candidate);
+    if (region && region.prefecture === prefecture.code && isMunicipality(region)) {
+      return { prefecture, municipality: region, municipalityName: candidate };
+    }
+  }
+
+  // regions.json にない市区町村は郡名を除いた最初の市区町村名（"西多摩郡檜原村" → "檜原村"）
+  const shortest = candidates[candidates.length - 1];
+  return { prefecture, municipality: null, municipalityName: shortest ? shortest.replace(/^.+?郡/, '') : null };
+}
+
+/**
+ * 読めるURLから短縮IDを取り出す（形式が違えば null）
+ * 例: ["tokyo", "nerima", "serehausu-3k9x2a"] → "3k9x2a"
+ */
+export function parseFacilityPath(segments: string[]): string | null {
+  if (segments.length !== FACILITY_PATH_SEGMENT_COUNT) return null;
+  const last = segments[FACILITY_PATH_SEGMENT_COUNT - 1].toLowerCase();
+  const shortId = last.substring(last.lastIndexOf('-') + 1);
+  return SHORT_ID_PATTERN.test(shortId) ? shortId : null;
+}
+
+/**
+ * 短縮IDから PlaceID を取得（キャッシュのみ）
+ */
+export async function resolveFacilityShortId(shortId: string): Promise<string | null> {
+  const { value, error } = await cacheGet<string>('shortid', shortId.toLowerCase());
+  if (error) console.warn('[Facility Path] Short id lookup error:', error);
+  return value || null;
+}
+
+/**
+ * 施設の読めるURLを発行（/detail/ 以降のパス）
+ * 短縮IDを予約し、slugs: に記録する。短縮IDを予約できなければ null
+ */
+export async function issueFacilityPath(placeId: string, title: string, address?: string): Promise<string | null> {
+  const id = normalizePlaceId(placeId);
+  const shortId = await reserveFacilityShortId(id);
+  if (!shortId) {
+    console.error(`❌ [Facility Path] Could not reserve a short id for ${id}`);
+    return null;
+  }
+
+  const location = parseFacilityAddress(address);
+  const facilityName = title.replace(CORPORATE_FORM_PATTERN, '').trim() || title;
+  const texts = [facilityName];
+  if (!location.municipality && location.municipalityName) {
+    texts.push(location.municipalityName.replace(/[市区町村]$/, ''));
+  }
+  const [facilityRomaji, municipalityRomaji] = (await convertTextsToRomaji(texts, FACILITY_ROMAJI_STYLE))
+    .map((conversion) => conversion.romaji);
+
+  const facilitySegment = (facilityRomaji || '').substring(0, MAX_FACILITY_SEGMENT_LENGTH);
+  const candidate = [
+    location.prefecture?.romaji || UNKNOWN_PREFECTURE_SEGMENT,
+    location.municipality?.romaji || municipalityRomaji || UNKNOWN_MUNICIPALITY_SEGMENT,
+    facilitySegment.length >= MIN_FACILITY_SEGMENT_LENGTH ? `${facilitySegment}-${shortId}` : shortId,
+  ].join('/');
+
+  // 同時に発行した場合は先に登録されたURLを使う
+  const path = await registerFacilityPath(id, candidate);
+  await addFacilityReferences(id, [buildCacheKey('shortid', shortId), buildCacheKey('slug', path)]);
+
+  console.log(`🔗 [Facility Path] Issued /detail/${path} for ${id}`);
+  return path;
+}
+
+/**
+ * 施設一覧に発行済みの詳細ページURL（detailPath）を付与
+ * 未発行の施設はそのまま返す（リンクは PlaceID のURLになり、詳細ページで発行・リダイレクトされる）
+ */
+export async function attachFacilityPaths(places: SearchResult[]): Promise<SearchResult[]> {
+  return Promise.all(places.map(async (place) => {
+    if (!place.placeId) return place;
+    const detailPath = await getIssuedFacilityPath(place.placeId);
+    return detailPath ? { ...place, detailPath } : place;
+  }));
+}
+
+/**
+ * detailPath のない施設の読めるURLを発行（レスポンス返却後・バックグラウンド処理から呼ぶ）
+ * 発行した件数を返す
+ */
+export async function issueMissingFacilityPaths(places: SearchResult[]): Promise<number> {
+  let issued = 0;
+  for (const place of places) {
+    if (!place.placeId || place.detailPath || !place.title) continue;
+    if (await getIssuedFacilityPath(place.placeId)) continue;
+    try {
+      if (await issueFacilityPath(place.placeId, place.title, place.address)) issued++;
+    } catch (err) {
+      console.warn(`[Facility Path] Failed to issue a path for ${place.placeId}:`, err instanceof Error ? err.message : err);
+    }
+  }
+  return issued;
+}
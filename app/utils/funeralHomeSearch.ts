@@ -0,0 +1,380 @@
+/**
+ * 葬儀社検索パイプライン
+ * Gemini（Googleマップ グラウンディング）→ 応答パース → groundingChunks照合 → Place Details 取得
+ * → 葬儀形式・宗教宗派・営業時間の判定（保存済みの公式サイト本文を含む、utils/websiteText.ts）→ 重複統合
+ *
+ * APIルートとキャッシュのバックグラウンド再検証の両方から利用する
+ */
+
+import { GoogleGenAI } from '@google/genai';
+import type { GroundingChunk, ReligionId, SearchResult } from '../types';
+import { FACILITY_JSON_SCHEMA, parseSearchResponse, type ParseSource } from './searchResponseParser';
+import { computeNameSimilarity, matchDetailsToChunks, MATCH_ACCEPT_THRESHOLD } from './facilityMatcher';
+import { dedupeFacilities, type FacilityCluster } from './facilityDedup';
+import { normalizePlaceId } from './facilityIndex';
+import { extractFacilityServices } from './funeralServices';
+import { extractReligiousSupport } from './religiousSupport';
+import { detectTwentyFourHourSupport, parseWeekdayText } from './openingHours';
+import { formatSearchQuery, getFacilityTypePromptLabel, parseSearchQuery } from './searchQuery';
+import { getCachedWebsiteTexts } from './websiteText';
+
+export interface SearchPosition {
+  latitude: number;
+  longitude: number;
+}
+
+export interface FuneralHomeSearchOutcome {
+  places: SearchResult[];
+  // 同一施設として統合したもの（alias: への保存は呼び出し側で行う）
+  duplicates: FacilityCluster[];
+  debug: {
+    parseSource: ParseSource;
+    invalidEntries: number;
+    matchConfidences: Array<{ title: string; placeId?: string; confidence: number }>;
+    droppedByVerification: number;
+    mergedDuplicates: number;
+  };
+}
+
+/**
+ * 検索クエリ（と任意の現在地）で葬儀社を検索し、詳細情報込みの結果を返す
+ * キャッシュの読み書きは呼び出し側で行う
+ */
+export async function runFuneralHomeSearch(
+  query: string,
+  position: SearchPosition | null = null
+): Promise<FuneralHomeSearchOutcome> {
+  const apiKey = process.env.VITE_GEMINI_API_KEY;
+  if (!apiKey) {
+    console.error('VITE_GEMINI_API_KEY not set in environment variables');
+    throw new Error('API key not configured');
+  }
+
+  const ai = new GoogleGenAI({ apiKey });
+
+  const contents = `${buildSearchInstruction(query, !!position)}レストラン、公園、その他の無関係な施設は**絶対に含めないでください**。
+
+Googleマップで見つかった各施設について、以下のJSONスキーマに厳密に従って情報を出力してください。
+出力は \`\`\`json で始まるコードブロック1つのみとし、前置きや説明文は書かないでください。
+情報がない項目は省略するか、配列の場合は空配列にしてください（「情報なし」とは書かないでください）。
+
+**【重要】すべての情報は必ず日本語で記載してください。ローマ字や英語は使用しないでください。**
+
+\`\`\`json
+${FACILITY_JSON_SCHEMA}
+\`\`\`
+
+【各項目のルール】
+- name: 施設の正式名称（日本語）
+- address: 都道府県から始まる完全な住所（必ず日本語で記載）。例: 新潟県長岡市○○町○-○-○
+- phone: 市外局番から始まる電話番号
+- rating: 5段階評価の数値
+- reviewCount: レビューの件数（整数）
+- reviews: 詳細な口コミ情報は別のAPIで取得するため、代表的なものを1-2件程度の簡易版で記載してください。口コミがない場合は空配列にしてください。
+- services: 施設が対応している葬儀形式を「家族葬」「一日葬」「直葬・火葬式」「社葬」から選んで記載してください。ビジネスプロフィールやオーナーの投稿で確認できるもののみ記載し、分からない場合は空配列にしてください。
+- religions: 施設が対応している宗教・宗派（例: 「浄土真宗」「曹洞宗」「日蓮宗」「全宗派」「神道」「キリスト教」「無宗教」）を記載してください。ビジネスプロフィール・オーナー情報・Q&Aで確認できるもののみ記載し、分からない場合は空配列にしてください。
+
+---
+【🔴 最重要項目1: qanda（質問と回答）】
+---
+  【絶対に守るべきルール】
+  1. Googleマップのビジネスプロフィールページで「質問と回答」または「Q&A」という**専用セクション**を必ず探してください
+  2. その専用セクションに実際に投稿されている質問と回答のペアのみを抽出してください
+  3. **レビュー・口コミの内容は絶対にQ&Aとして記載しないでください**
+  4. 想像や推測で質問と回答を作成しないでください
+  5. Q&A専用セクションが見つからない場合、または投稿がゼロの場合は空配列にしてください
+
+  【抽出すべきQ&A内容の例】
+  - 駐車場: 「駐車場はありますか？」「無料駐車場が20台分ございます」
+  - 予約: 「予約は必要ですか？」「事前予約をお勧めしております」
+  - 営業時間: 「夜間対応は可能ですか？」「24時間365日対応しております」
+  - アクセス: 「最寄り駅はどこですか？」「○○駅から徒歩5分です」
+  - 料金: 「家族葬の料金は？」「30万円からのプランがございます」
+  - 宗派: 「無宗教でも対応できますか？」「はい、対応可能です」
+
+---
+【🔴 最重要項目2: ownerInfo（オーナー情報）】
+---
+- ownerInfo.message:
+
+  【絶対に守るべきルール】
+  1. Googleビジネスプロフィールの「オーナー」セクションに直接投稿されているテキストメッセージや挨拶文を抽出してください
+  2. オーナーが書いた文章そのものを、そのまま引用してください
+  3. **施設のアクセシビリティ情報（車椅子対応、駐車場、トイレ、バリアフリー等）は絶対に含めないでください**
+  4. オーナーの挨拶文・メッセージがない場合は省略してください
+
+  【抽出すべきメッセージの例】
+  - 「当社は創業50年の実績があり、故人様とご遺族様に寄り添った丁寧なサービスを心がけております」
+  - 「地域の皆様に愛される葬儀社を目指して、日々精進しております」
+
+  【記載してはいけない内容】
+  - ❌ 「車椅子で入れます」「駐車場があります」「バリアフリー対応」などのアクセシビリティ情報
+  - ❌ Googleが自動生成した施設情報
+  - ❌ レビューや口コミの内容
+
+- ownerInfo.posts:
+
+  【絶対に守るべきルール】
+  1. Googleマップの「オーナー」セクションに表示されているオーナーの投稿文やお知らせを抽出してください
+  2. オーナーが書いたテキストメッセージのみを抽出してください（写真の説明文も含む）
+  3. **施設のアクセシビリティ情報（車椅子対応、駐車場、トイレ、バリアフリー等）は絶対に含めないでください**
+  4. 投稿がない場合は空配列にしてください
+
+  【抽出すべき投稿の例】
+  - 「新しいプランを開始しました。お気軽にご相談ください」
+  - 「年末年始も24時間対応いたします」
+  - 「ホームページをリニューアルしました」
+
+  【記載してはいけない内容】
+  - ❌ 「車椅子対応トイレ完備」「駐車場20台分」などのアクセシビリティ情報
+  - ❌ Googleが自動生成した施設情報
+  - ❌ レビューや口コミの内容
+
+---
+
+見つかった全ての施設を facilities 配列に含めてください。`;
+
+  const config: any = {
+    tools: [{ googleMaps: {} }],
+  };
+
+  if (position) {
+    config.toolConfig = {
+      retrievalConfig: {
+        latLng: {
+          latitude: position.latitude,
+          longitude: position.longitude,
+        },
+      },
+    };
+  }
+
+  const response = await ai.models.generateContent({
+    model: 'gemini-2.5-flash',
+    contents,
+    config,
+  });
+
+  const groundingChunks: GroundingChunk[] = (response.candidates?.[0]?.groundingMetadata?.groundingChunks || []) as any;
+
+  console.log(`[Gemini API] Found ${groundingChunks.length} places`);
+  console.log(`[Gemini Response] First 500 chars:`, response.text?.substring(0, 500) || '');
+
+  // JSON（スキーマ検証）を優先し、失敗時のみMarkdownとしてパース
+  const { source: parseSource, detailsMap, invalidEntries } = parseSearchResponse(response.text || '');
+
+  console.log(`[Data Processor] Parsed details map contains ${detailsMap.size} items (source: ${parseSource}).`);
+
+  // Q&A 詳細ログ
+  const placesWithQandA = Array.from(detailsMap.values()).filter(d => d.qanda && d.qanda.length > 0);
+  console.log(`[Q&A] ${placesWithQandA.length}/${detailsMap.size} places have Q&A`);
+  placesWithQandA.forEach((place, idx) => {
+    const title = Array.from(detailsMap.keys())[idx];
+    console.log(`[Q&A Details] ${title}: ${place.qanda?.length} Q&A pairs`);
+    place.qanda?.forEach((qa, qaIdx) => {
+      console.log(`  [Q&A #${qaIdx + 1}] Q: ${qa.question.substring(0, 50)}...`);
+      console.log(`  [Q&A #${qaIdx + 1}] A: ${qa.answer.substring(0, 50)}...`);
+    });
+  });
+
+  // オーナー情報詳細ログ
+  const placesWithOwnerInfo = Array.from(detailsMap.values()).filter(d => d.ownerInfo && (d.ownerInfo.message || (d.ownerInfo.posts && d.ownerInfo.posts.length > 0)));
+  console.log(`[Owner Info] ${placesWithOwnerInfo.length}/${detailsMap.size} places have owner info`);
+  placesWithOwnerInfo.forEach((place, idx) => {
+    const title = Array.from(detailsMap.entries()).filter(([_, v]) => v === place)[0]?.[0];
+    if (place.ownerInfo?.message) {
+      console.log(`[Owner Message] ${title}: ${place.ownerInfo.message.substring(0, 50)}...`);
+    }
+    if (place.ownerInfo?.posts && place.ownerInfo.posts.length > 0) {
+      console.log(`[Owner Posts] ${title}: ${place.ownerInfo.posts.length} posts`);
+      place.ownerInfo.posts.forEach((post, postIdx) => {
+        console.log(`  [Post #${postIdx + 1}] ${post.substring(0, 50)}...`);
+      });
+    }
+  });
+
+  // detailsMap を配列に変換（順序保持）
+  const detailsArray = Array.from(detailsMap.entries());
+  console.log(`[Title Matching] Total: groundingChunks=${groundingChunks.length}, detailsMap=${detailsArray.length}`);
+  console.log(`[Title Matching] detailsMap keys:`, Array.from(detailsMap.keys()));
+  console.log(`[Title Matching] groundingChunks titles:`, groundingChunks.map(c => c.maps?.title).filter(Boolean));
+
+  // detailsMap を基準にして、groundingChunks から URI と placeId を取得
+  // 位置ではなく施設名の類似度で対応付ける（Geminiの並べ替え・省略に強くする）
+  const matches = matchDetailsToChunks(detailsArray, groundingChunks);
+  const placeIdsToVerify = new Set<string>();
+  // Geminiが返した宗教・宗派（情報源: gemini）。公式サイト本文と合わせて後で判定する
+  const geminiReligions = new Map<string, ReligionId[]>();
+
+  const placesWithoutPhotos = matches
+    .map((match, index) => {
+      const { title: detailTitle, details, chunk, confidence } = match;
+
+      // chunk がない、または URI/placeId がない場合はスキップ
+      if (!chunk?.maps?.uri || !chunk?.maps?.placeId) {
+        console.warn(`⚠️ [Mapping] #${index}: No matching groundingChunk for "${detailTitle}"`);
+        return null;
+      }
+
+      const chunkTitle = chunk.maps?.title || '';
+      console.log(`✅ [Mapping] #${index}: "${detailTitle}" ← groundingTitle="${chunkTitle}" (confidence=${confidence}${match.needsVerification ? ', needs verification' : ''})`);
+      console.log(`  → URI: ${chunk.maps.uri}`);
+      console.log(`  → placeId: ${chunk.maps.placeId}`);
+
+      if (match.needsVerification) {
+        placeIdsToVerify.add(chunk.maps.placeId);
+      }
+      if (details.religions && details.religions.length > 0) {
+        geminiReligions.set(chunk.maps.placeId, details.religions);
+      }
+
+      return {
+        title: detailTitle,  // Gemini レスポンステキストから抽出したフルネームを使用
+        uri: chunk.maps.uri,
+        placeId: chunk.maps.placeId,
+        address: details.address,
+        phone: details.phone,
+        rating: details.rating,
+        reviewCount: details.reviewCount,
+        reviews: details.reviews,
+        qanda: details.qanda,
+        ownerInfo: details.ownerInfo,
+        services: details.services,
+        matchConfidence: confidence,
+      };
+    })
+    .filter((place) => place !== null) as SearchResult[];
+
+  console.log(`📊 [Final Results] ${placesWithoutPhotos.length} places mapped successfully (from ${detailsMap.size} detailsMap entries)`);
+  placesWithoutPhotos.forEach((place, i) => {
+    console.log(`  ${i + 1}. "${place.title}" → ${place.placeId || 'undefined'}`);
+  });
+
+  // === 施設詳細を取得してマージ ===
+  // キャッシュ保存前に写真・レビュー等の詳細情報を取得
+  const googleMapsApiKey = process.env.GOOGLE_MAPS_API_KEY || process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY;
+
+  const detailedPlaces = await Promise.all(
+    placesWithoutPhotos.map(async (place): Promise<SearchResult | null> => {
+      const needsVerification = !!place.placeId && placeIdsToVerify.has(place.placeId);
+
+      if (!place.placeId || !googleMapsApiKey) {
+        // 再検証できない低信頼度のペアは誤った施設を表示しないよう除外
+        return needsVerification ? null : place;
+      }
+
+      try {
+        const cleanPlaceId = place.placeId.replace('places/', '');
+        const detailsUrl = `https://maps.googleapis.com/maps/api/place/details/json?place_id=${cleanPlaceId}&fields=name,formatted_address,formatted_phone_number,photos,reviews,website,business_status,price_level,opening_hours,wheelchair_accessible_entrance,rating,user_ratings_total,geometry&language=ja&key=${googleMapsApiKey}`;
+
+        const detailsResponse = await fetch(detailsUrl);
+        const detailsData = await detailsResponse.json();
+
+        if (detailsData.status !== 'OK') {
+          console.warn(`[Place Details] Failed for ${place.title}: ${detailsData.status}`);
+          return needsVerification ? null : place;
+        }
+
+        const details = detailsData.result;
+
+        // 低信頼度のペアは Places API の公式名と照合して再検証
+        if (needsVerification) {
+          const verifiedScore = computeNameSimilarity(place.title, details.name || '');
+          if (verifiedScore < MATCH_ACCEPT_THRESHOLD) {
+            console.warn(`❌ [Match Verify] Dropped "${place.title}" ≠ "${details.name}" (score=${verifiedScore.toFixed(2)})`);
+            return null;
+          }
+          console.log(`✅ [Match Verify] "${place.title}" = "${details.name}" (score=${verifiedScore.toFixed(2)})`);
+          place = { ...place, matchConfidence: Math.max(place.matchConfidence || 0, Math.round(verifiedScore * 100) / 100) };
+        }
+
+        // 写真リファレンスを保存（APIキーは含めない - セキュリティ対策）
+        const photoRefs = details.photos
+          ? details.photos.map((photo: any) => photo.photo_reference)
+          : [];
+
+        console.log(`✅ [Place Details] ${place.title}: ${photoRefs.length} photos, ${details.reviews?.length || 0} reviews`);
+
+        return {
+          ...place,
+          title: details.name || place.title, // Places APIの公式名で上書き
+          photoRefs,  // APIキーなしのリファレンスのみ
+          detailedReviews: details.reviews || [],
+          website: details.website,
+          businessStatus: details.business_status,
+          priceLevel: details.price_level,
+          openingHours: details.opening_hours,
+          wheelchairAccessible: details.wheelchair_accessible_entrance,
+          ...(details.geometry?.location && {
+            location: { lat: details.geometry.location.lat, lng: details.geometry.location.lng },
+          }),
+        };
+      } catch (err) {
+        console.warn(`[Place Details Error] ${place.title}:`, err);
+        return needsVerification ? null : place;
+      }
+    })
+  );
+  const placesWithDetails = detailedPlaces.filter((place): place is SearchResult => place !== null);
+
+  console.log(`📊 [With Details] ${placesWithDetails.filter(p => p.photoRefs && p.photoRefs.length > 0).length}/${placesWithDetails.length} places have photos`);
+
+  // 葬儀形式（家族葬・一日葬など）・宗教宗派・24時間対応を Gemini出力・オーナー情報・Q&A・公式サイト本文から判定
+  // 公式サイト本文は保存済みのもののみ使う（未取得のサイトは呼び出し側がレスポンス返却後に取得する）
+  const websiteTexts = await getCachedWebsiteTexts(placesWithDetails);
+  console.log(`📊 [Website] ${websiteTexts.size}/${placesWithDetails.filter(p => p.website).length} websites cached`);
+  const placesWithServices = placesWithDetails.map((place) => {
+    const websiteText = place.placeId ? websiteTexts.get(normalizePlaceId(place.placeId)) ?? null : null;
+    const services = extractFacilityServices(place, websiteText);
+    const religiousSupport = extractReligiousSupport(
+      { ...place, religions: place.placeId ? geminiReligions.get(place.placeId) : undefined },
+      websiteText
+    );
+    const openingSchedule = parseWeekdayText(place.openingHours?.weekday_text);
+    const twentyFourHour = detectTwentyFourHourSupport({ ...place, openingSchedule: openingSchedule || undefined }, websiteText);
+    return {
+      ...place,
+      ...(services.length > 0 && { services }),
+      ...(religiousSupport.length > 0 && { religiousSupport }),
+      ...(openingSchedule && { openingSchedule }),
+      ...(twentyFourHour && { twentyFourHour }),
+    };
+  });
+  console.log(`📊 [Services] ${placesWithServices.filter(p => p.services && p.services.length > 0).length}/${placesWithServices.length} places have funeral services`);
+  console.log(`📊 [Religion] ${placesWithServices.filter(p => p.religiousSupport && p.religiousSupport.length > 0).length}/${placesWithServices.length} places have religious support info`);
+  console.log(`📊 [24h] ${placesWithServices.filter(p => p.twentyFourHour).length}/${placesWithServices.length} places offer 24-hour support`);
+
+  // 別placeId・表記ゆれで重複している施設を統合（電話番号・住所は Place Details 取得後に揃う）
+  const { results: uniquePlaces, clusters: duplicates } = dedupeFacilities(placesWithServices);
+
+  return {
+    places: uniquePlaces,
+    duplicates,
+    debug: {
+      parseSource,
+      invalidEntries,
+      matchConfidences: matches.map(m => ({ title: m.title, placeId: m.chunk?.maps?.placeId, confidence: m.confidence })),
+      droppedByVerification: placesWithoutPhotos.length - placesWithDetails.length,
+      mergedDuplicates: placesWithDetails.length - uniquePlaces.length,
+    },
+  };
+}
+
+/**
+ * プロンプト冒頭の検索指示（クエリの解析結果から地名・施設の種別・その他の条件を指定）
+ * 葬儀形式は検索後の絞り込みで扱うため指定しない（同じ地域の検索結果をキャッシュで共有する）
+ */
+function buildSearchInstruction(query: string, hasPosition: boolean): string {
+  const parsed = parseSearchQuery(query);
+  const target = `日本の**${getFacilityTypePromptLabel(parsed.facilityType)}のみ**`;
+
+  if (parsed.region) {
+    const conditions = parsed.keywords.length > 0 ? `（条件: ${parsed.keywords.join('、')}）` : '';
+    return `「${parsed.region.name}」にある${target}を検索してください${conditions}。`;
+  }
+  if (hasPosition && !parsed.location) {
+    return `現在地周辺にある${target}を検索してください。`;
+  }
+  // 地域として解決できない地名・施設名
+  return `「${formatSearchQuery(parsed)}」という検索クエリに合致する${target}を検索してください。`;
+}
@@ -0,0 +1,140 @@
+/**
+ * 葬儀形式（家族葬・一日葬・直葬/火葬式・社葬）の分類
+ * Geminiの出力・オーナー投稿・Q&A・公式サイトの本文から施設が対応する形式を判定し、
+ * 検索APIと一覧ページの絞り込みに使う
+ *
+ * クライアント・サーバーの両方から利用する（Node専用のAPIは使わない）
+ */
+
+import type { FuneralService, SearchResult } from '../types';
+
+export interface FuneralServiceDefinition {
+  id: FuneralService;
+  label: string;
+  // 本文中の表記ゆれ（NFKC正規化後に照合）
+  keywords: string[];
+}
+
+export const FUNERAL_SERVICES: FuneralServiceDefinition[] = [
+  { id: 'family', label: '家族葬', keywords: ['家族葬', '家族だけの葬儀', '身内だけの葬儀', '小さなお葬式', '少人数の葬儀'] },
+  { id: 'one-day', label: '一日葬', keywords: ['一日葬', '1日葬', 'ワンデー葬', '告別式のみ'] },
+  { id: 'direct', label: '直葬・火葬式', keywords: ['直葬', '火葬式', '火葬のみ', '荼毘葬'] },
+  { id: 'company', label: '社葬', keywords: ['社葬', '合同葬', 'お別れの会', 'お別れ会', '偲ぶ会'] },
+];
+
+const SERVICE_IDS = FUNERAL_SERVICES.map((service) => service.id);
+
+export function isFuneralService(value: unknown): value is FuneralService {
+  return typeof value === 'string' && (SERVICE_IDS as string[]).includes(value);
+}
+
+export function getFuneralServiceLabel(id: FuneralService): string {
+  return FUNERAL_SERVICES.find((service) => service.id === id)?.label || id;
+}
+
+/**
+ * 「一日葬は行っておりません」のような否定表現
+ * キーワードの直後（同じ文中）に現れる場合はその形式に対応していないとみなす
+ */
+const NEGATION_PATTERN = /^[^。！!？?\n]{0,12}?(?:不可|できません|出来ません|行っておりません|行っていません|しておりません|していません|承っておりません|対応しておりません|対応していません|お受けしておりません)/;
+
+/**
+ * 否定されていない最初の出現位置（見つからなければ -1）
+ * text は NFKC 正規化済みであること
+ */
+export function findAffirmedKeyword(text: string, keyword: string): number {
+  let index = text.indexOf(keyword);
+  while (index !== -1) {
+    const following = text.substring(index + keyword.length, index + keyword.length + 30);
+    if (!NEGATION_PATTERN.test(following)) return index;
+    index = text.indexOf(keyword, index + keyword.length);
+  }
+  return -1;
+}
+
+/**
+ * テキストから対応している葬儀形式を判定
+ */
+export function detectFuneralServices(text: string | undefined | null): FuneralService[] {
+  if (!text) return [];
+  const normalized = text.normalize('NFKC');
+  const found: FuneralService[] = [];
+
+  for (const service of FUNERAL_SERVICES) {
+    if (service.keywords.some((keyword) => findAffirmedKeyword(normalized, keyword) !== -1)) {
+      found.push(service.id);
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Geminiが返した形式名（「家族葬」「火葬式」など）を分類IDに変換
+ */
+export function normalizeFuneralServices(values: unknown): FuneralService[] {
+  if (!Array.isArray(values)) return [];
+  const found = new Set<FuneralService>();
+  for (const value of values) {
+    if (isFuneralService(value)) {
+      found.add(value);
+      continue;
+    }
+    if (typeof value === 'string') {
+      detectFuneralServices(value).forEach((id) => found.add(id));
+    }
+  }
+  return sortFuneralServices(Array.from(found));
+}
+
+/**
+ * 施設の情報源（Gemini出力・オーナー投稿・Q&A・公式サイト本文）から葬儀形式をまとめる
+ * 口コミは遺族の感想で形式を取り違えやすいため使わない
+ */
+export function extractFacilityServices(
+  result: Pick<SearchResult, 'services' | 'ownerInfo' | 'qanda'>,
+  websiteText?: string | null
+): FuneralService[] {
+  const texts = [
+    result.ownerInfo?.message,
+    ...(result.ownerInfo?.posts || []),
+    ...(result.qanda || []).map((qa) => `${qa.question} ${qa.answer}`),
+    websiteText,
+  ];
+
+  const found = new Set<FuneralService>(result.services || []);
+  for (const text of texts) {
+    detectFuneralServices(text).forEach((id) => found.add(id));
+  }
+  return sortFuneralServices(Array.from(found));
+}
+
+function sortFuneralServices(services: FuneralService[]): FuneralService[] {
+  return [...services].sort((a, b) => SERVICE_IDS.indexOf(a) - SERVICE_IDS.indexOf(b));
+}
+
+/**
+ * 指定した葬儀形式にすべて対応している施設のみ残す
+ * （形式が判定できていない施設は除外される）
+ */
+export function filterByFuneralServices<T extends Pick<SearchResult, 'services'>>(results: T[], services: FuneralService[]): T[] {
+  if (services.length === 0) return results;
+  return results.filter((result) => services.every((service) => result.services?.includes(service)));
+}
+
+/**
+ * URL・APIパラメータ（"family,one-day" または配列）を分類IDの配列に変換
+ * 未知の値は無視する
+ */
+export function parseFuneralServicesParam(value: unknown): FuneralService[] {
+  const values = Array.isArray(value)
+    ? value
+    : typeof value === 'string'
+      ? value.split(',')
+      : [];
+  return sortFuneralServices(Array.from(new Set(values.map((v) => String(v).trim()).filter(isFuneralService))));
+}
+
+export function formatFuneralServicesParam(services: FuneralService[]): string {
+  return sortFuneralServices(services).join(',');
+}
@@ -0,0 +1,111 @@
+/**
+ * 座標・距離の計算と検索結果の並べ替え
+ *
+ * 現在地検索では施設の座標（Place Details の geometry）と利用者の位置から距離を計算し、
+ * 近い順・評価順・口コミ数順に並べ替える
+ *
+ * クライアント・サーバーの両方から利用する（Node専用のAPIは使わない）
+ */
+
+import type { GeoPoint, NearestStation, SearchResult, SearchSortOrder } from '../types';
+
+// 徒歩の速さ（不動産の表示規約と同じ 80m/分）
+export const WALKING_METERS_PER_MINUTE = 80;
+
+export const SEARCH_SORT_ORDERS: Array<{ id: SearchSortOrder; label: string }> = [
+  { id: 'relevance', label: 'おすすめ順' },
+  { id: 'distance', label: '近い順' },
+  { id: 'rating', label: '評価の高い順' },
+  { id: 'reviews', label: '口コミの多い順' },
+];
+
+export function isSearchSortOrder(value: unknown): value is SearchSortOrder {
+  return SEARCH_SORT_ORDERS.some((order) => order.id === value);
+}
+
+/**
+ * 2点間の距離を計算 (メートル) - Haversine formula
+ */
+export function calculateDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const R = 6371000; // 地球の半径 (m)
+  const dLat = (lat2 - lat1) * Math.PI / 180;
+  const dLng = (lng2 - lng1) * Math.PI / 180;
+  const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+            Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
+            Math.sin(dLng / 2) * Math.sin(dLng / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return R * c;
+}
+
+export function walkingMinutes(distance: number): number {
+  return Math.ceil(distance / WALKING_METERS_PER_MINUTE);
+}
+
+/**
+ * 距離の表示（"350m" / "1.2km" / "12km"）
+ */
+export function formatDistance(distance: number): string {
+  if (distance < 1000) {
+    return `${Math.max(10, Math.round(distance / 10) * 10)}m`;
+  }
+  const km = distance / 1000;
+  return `${km < 10 ? km.toFixed(1) : Math.round(km)}km`;
+}
+
+/**
+ * 最寄り駅の表示（"渋谷駅（JR山手線ほか） 徒歩5分"）
+ */
+export function formatStationAccess(station: NearestStation): string {
+  const lines = station.lines.length > 0
+    ? `（${station.lines[0]}${station.lines.length > 1 ? 'ほか' : ''}）`
+    : '';
+  return `${station.name}駅${lines} 徒歩${station.walkingMinutes}分`;
+}
+
+/**
+ * 利用者の位置からの距離（m）を各施設に付与
+ * 座標のない施設には付与しない
+ */
+export function attachDistances<T extends SearchResult>(results: T[], origin: GeoPoint): T[] {
+  return results.map((result) => {
+    if (!result.location) return result;
+    const distance = Math.round(calculateDistance(origin.lat, origin.lng, result.location.lat, result.location.lng));
+    return { ...result, distance };
+  });
+}
+
+/**
+ * 検索結果を並べ替える（元の配列は変更しない）
+ * - relevance: 検索結果の順（Geminiの並び）のまま
+ * - distance: 近い順（距離のない施設は末尾）
+ * - rating: 評価の高い順（同評価は口コミ数の多い順）
+ * - reviews: 口コミ数の多い順（同数は評価の高い順）
+ */
+export function sortSearchResults<T extends SearchResult>(results: T[], order: SearchSortOrder): T[] {
+  if (order === 'relevance') return results;
+
+  const compare = (a: T, b: T): number => {
+    switch (order) {
+      case 'distance':
+        return (a.distance ?? Infinity) - (b.distance ?? Infinity);
+      case 'rating':
+        return (b.rating ?? -1) - (a.rating ?? -1) || (b.reviewCount ?? 0) - (a.reviewCount ?? 0);
+      case 'reviews':
+        return (b.reviewCount ?? 0) - (a.reviewCount ?? 0) || (b.rating ?? -1) - (a.rating ?? -1);
+    }
+  };
+
+  // 同順位は元の順序を保つ
+  return results
+    .map((result, index) => ({ result, index }))
+    .sort((a, b) => compare(a.result, b.result) || a.index - b.index)
+    .map(({ result }) => result);
+}
+
+/**
+ * URL・APIパラメータを並び順に変換（未知の値は null）
+ */
+export function parseSortParam(value: unknown): SearchSortOrder | null {
+  const normalized = typeof value === 'string' ? value.trim() : value;
+  return isSearchSortOrder(normalized) ? normalized : null;
+}
@@ -0,0 +1,56 @@
+/**
+ * Google Maps JavaScript API の読み込み（ブラウザのみ・1回だけ読み込む）
+ * 型定義パッケージは入れていないため google.maps は any として扱う
+ */
+
+const CALLBACK_NAME = '__onGoogleMapsLoaded';
+
+let loading: Promise<any> | null = null;
+const authFailureListeners = new Set<() => void>();
+
+/**
+ * APIキーが無効な場合（RefererNotAllowed など）の通知を受け取る
+ * 認証エラーは読み込み完了後に通知されるため、Promiseとは別に扱う
+ */
+export function onGoogleMapsAuthFailure(listener: () => void): () => void {
+  authFailureListeners.add(listener);
+  return () => {
+    authFailureListeners.delete(listener);
+  };
+}
+
+export function loadGoogleMaps(apiKey: string): Promise<any> {
+  if (typeof window === 'undefined') {
+    return Promise.reject(new Error('Google Maps can only be loaded in the browser'));
+  }
+
+  const w = window as any;
+  if (w.google?.maps?.Map) {
+    return Promise.resolve(w.google.maps);
+  }
+
+  if (!loading) {
+    loading = new Promise((resolve, reject) => {
+      w[CALLBACK_NAME] = () => {
+        delete w[CALLBACK_NAME];
+        resolve(w.google.maps);
+      };
+      w.gm_authFailure = () => {
+        console.warn('[Google Maps] Authentication failed');
+        authFailureListeners.forEach((listener) => listener());
+      };
+
+      const script = document.createElement('script');
+      script.src = `https://maps.googleapis.com/maps/api/js?key=${encodeURIComponent(apiKey)}&language=ja&region=JP&callback=${CALLBACK_NAME}`;
+      script.async = true;
+      script.onerror = () => {
+        loading = null;
+        script.remove();
+        reject(new Error('Failed to load Google Maps'));
+      };
+      document.head.appendChild(script);
+    });
+  }
+
+  return loading;
+}
@@ -0,0 +1,119 @@
+/**
+ * Kuroshiro + Kuromoji Analyzer の共通セットアップ
+ * /api/convert-romaji とデータ生成スクリプト（scripts/build-region-readings.ts）から利用する
+ * ローマ字の表記方式（hepburn / kunrei / passport）は明示的に指定し、Kuroshiro の既定値の変更でスラッグが変わらないようにする
+ *
+ * サーバー専用（Kuromoji の辞書を Node の fs で読み込むため、クライアントからは import しない）
+ */
+
+import Kuroshiro from 'kuroshiro';
+import KuromojiAnalyzerModule from 'kuroshiro-analyzer-kuromoji';
+
+// スクリプト（tsx）から ESM として読み込んだ場合は CommonJS の default が1段深くなる
+const KuroshiroClass: typeof Kuroshiro = (Kuroshiro as any).default || Kuroshiro;
+const KuromojiAnalyzer: typeof KuromojiAnalyzerModule = (KuromojiAnalyzerModule as any).default || KuromojiAnalyzerModule;
+
+// ローマ字の表記方式（kunrei は Kuroshiro の nippon を使う）
+// hepburn-ascii: ヘボン式の長音符付きの文字（ō）を長音符を外して残す（"東京" → "tokyo"）
+//   他の表記方式は従来どおり長音符付きの文字を削る（"東京" → "tky"）。既存のスラッグを変えないため既定値にはしない
+export type RomajiStyle = 'hepburn' | 'kunrei' | 'passport' | 'hepburn-ascii';
+
+export const ROMAJI_STYLES: RomajiStyle[] = ['hepburn', 'kunrei', 'passport', 'hepburn-ascii'];
+
+export const DEFAULT_ROMAJI_STYLE: RomajiStyle = 'hepburn';
+
+const KUROSHIRO_ROMAJI_SYSTEMS: Record<RomajiStyle, 'hepburn' | 'nippon' | 'passport'> = {
+  hepburn: 'hepburn',
+  kunrei: 'nippon',
+  passport: 'passport',
+  'hepburn-ascii': 'hepburn',
+};
+
+// Kuroshiroインスタンスをモジュールレベルでキャッシュ
+let kuroshiroInstance: Kuroshiro | null = null;
+let initPromise: Promise<void> | null = null;
+
+/**
+ * Kuroshiroの初期化（1度のみ実行）
+ */
+export async function initKuroshiro(): Promise<Kuroshiro> {
+  if (kuroshiroInstance && kuroshiroInstance._analyzer) {
+    return kuroshiroInstance; // 既に初期化済み
+  }
+
+  if (!initPromise) {
+    initPromise = (async () => {
+      try {
+        console.log('[Kuroshiro] Initializing...');
+        const instance = new KuroshiroClass();
+
+        // Vercel環境でも辞書ファイルを見つけられるように明示的にパスを指定
+        const dictPath = process.env.VERCEL
+          ? '/var/task/node_modules/kuromoji/dict'
+          : undefined;
+
+        console.log('[Kuroshiro] Dict path:', dictPath || 'default');
+
+        await instance.init(new KuromojiAnalyzer({
+          dictPath: dictPath
+        }));
+
+        kuroshiroInstance = instance;
+        console.log('[Kuroshiro] Initialized successfully');
+      } catch (error) {
+        console.error('[Kuroshiro] Initialization failed:', error);
+        kuroshiroInstance = null;
+        initPromise = null;
+        throw error;
+      }
+    })();
+  }
+
+  await initPromise; // 初期化中の場合は待機
+  if (!kuroshiroInstance) {
+    throw new Error('Kuroshiro initialization failed');
+  }
+  return kuroshiroInstance;
+}
+
+/**
+ * 日本語テキストの読み（ひらがな）
+ * 例: "練馬" → "ねりま"（辞書にないカタカナ語はカタカナのまま返る: "高輪ゲートウェイ" → "たかなわゲートウェイ"）
+ */
+export async function convertToHiragana(text: string): Promise<string> {
+  const kuroshiro = await initKuroshiro();
+  return kuroshiro.convert(text, { mode: 'normal', to: 'hiragana' });
+}
+
+/**
+ * かな → ローマ字（辞書を使わない文字単位の変換、長音は "ou" "uu" のまま）
+ * 例: "とうきょう" → "toukyou"
+ */
+export function convertKanaToRomaji(kana: string, style: RomajiStyle = DEFAULT_ROMAJI_STYLE): string {
+  return KuroshiroClass.Util.kanaToRomaji(kana, KUROSHIRO_ROMAJI_SYSTEMS[style]);
+}
+
+/**
+ * 日本語テキストをURLスラッグ用のローマ字に変換（英数字のみ）
+ * 例: "練馬区" → "nerimaku"（hepburn）、"新橋" → "sinbasi"（kunrei）
+ *
+ * 長音符付きの文字（ō）は hepburn-ascii のみ長音符を外して残す（"東京" → "tokyo"）
+ * それ以外の表記方式は従来のスラッグと同じく削る（"東京" → "tky"）
+ */
+export async function convertToRomajiSlug(text: string, style: RomajiStyle = DEFAULT_ROMAJI_STYLE): Promise<string> {
+  const kuroshiro = await initKuroshiro();
+  const romaji: string = await kuroshiro.convert(text, {
+    mode: 'normal',
+    to: 'romaji',
+    romajiSystem: KUROSHIRO_ROMAJI_SYSTEMS[style],
+  });
+
+  const normalized = style === 'hepburn-ascii'
+    ? romaji.normalize('NFD').replace(/[\u0300-\u036f]/g, '') // 長音符・アクセントを外す
+    : romaji;
+
+  return normalized
+    .toLowerCase()
+    .replace(/\s+/g, '')            // スペースを削除
+    .replace(/[^a-z0-9]/g, '');     // 英数字以外を削除
+}
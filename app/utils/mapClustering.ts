@@ -0,0 +1,132 @@
+/**
+ * 地図表示用の座標変換とマーカーのクラスタリング
+ *
+ * Webメルカトル（Google Maps・地理院タイル共通）のピクセル座標で計算するため、
+ * Google Maps とタイル表示のどちらでも同じ結果になる
+ *
+ * クライアント・サーバーの両方から利用する（Node専用のAPIは使わない）
+ */
+
+import type { GeoPoint } from '../types';
+
+export const TILE_SIZE = 256;
+export const MIN_MAP_ZOOM = 5;
+export const MAX_MAP_ZOOM = 18;
+
+// この距離（px）以内のマーカーを1つのクラスタにまとめる
+export const CLUSTER_RADIUS = 44;
+
+export interface MapPoint<T> {
+  id: string;
+  location: GeoPoint;
+  item: T;
+}
+
+export interface MapCluster<T> {
+  id: string;
+  center: GeoPoint;
+  points: MapPoint<T>[];
+}
+
+export interface PixelPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * 緯度経度 → ズームレベルでの世界座標（px）
+ */
+export function projectToPixel(location: GeoPoint, zoom: number): PixelPoint {
+  const scale = TILE_SIZE * Math.pow(2, zoom);
+  const siny = Math.min(Math.max(Math.sin(location.lat * Math.PI / 180), -0.9999), 0.9999);
+  return {
+    x: (location.lng + 180) / 360 * scale,
+    y: (0.5 - Math.log((1 + siny) / (1 - siny)) / (4 * Math.PI)) * scale,
+  };
+}
+
+/**
+ * 世界座標（px）→ 緯度経度
+ */
+export function unprojectFromPixel(point: PixelPoint, zoom: number): GeoPoint {
+  const scale = TILE_SIZE * Math.pow(2, zoom);
+  const n = Math.PI - 2 * Math.PI * point.y / scale;
+  return {
+    lat: 180 / Math.PI * Math.atan(Math.sinh(n)),
+    lng: point.x / scale * 360 - 180,
+  };
+}
+
+/**
+ * すべての地点が収まる中心とズームレベル
+ */
+export function fitBounds(
+  locations: GeoPoint[],
+  width: number,
+  height: number,
+  padding: number = 48,
+  maxZoom: number = 16
+): { center: GeoPoint; zoom: number } {
+  if (locations.length === 0) {
+    // 地点がない場合は日本全体
+    return { center: { lat: 36.2, lng: 138.25 }, zoom: MIN_MAP_ZOOM };
+  }
+
+  for (let zoom = maxZoom; zoom > MIN_MAP_ZOOM; zoom--) {
+    const pixels = locations.map((location) => projectToPixel(location, zoom));
+    const xs = pixels.map((p) => p.x);
+    const ys = pixels.map((p) => p.y);
+    const spanX = Math.max(...xs) - Math.min(...xs);
+    const spanY = Math.max(...ys) - Math.min(...ys);
+    if (spanX <= width - padding * 2 && spanY <= height - padding * 2) {
+      const center = unprojectFromPixel({ x: (Math.max(...xs) + Math.min(...xs)) / 2, y: (Math.max(...ys) + Math.min(...ys)) / 2 }, zoom);
+      return { center, zoom };
+    }
+  }
+
+  const pixels = locations.map((location) => projectToPixel(location, MIN_MAP_ZOOM));
+  const x = pixels.reduce((sum, p) => sum + p.x, 0) / pixels.length;
+  const y = pixels.reduce((sum, p) => sum + p.y, 0) / pixels.length;
+  return { center: unprojectFromPixel({ x, y }, MIN_MAP_ZOOM), zoom: MIN_MAP_ZOOM };
+}
+
+/**
+ * ズームレベルで近接するマーカーをまとめる（入力順に貪欲にまとめるため結果は安定）
+ * 1件だけのクラスタは単独のマーカーとして表示する
+ */
+export function clusterPoints<T>(points: MapPoint<T>[], zoom: number, radius: number = CLUSTER_RADIUS): MapCluster<T>[] {
+  const clusters: Array<{ pixel: PixelPoint; points: MapPoint<T>[]; pixels: PixelPoint[] }> = [];
+
+  for (const point of points) {
+    const pixel = projectToPixel(point.location, zoom);
+    const nearest = clusters.find((cluster) =>
+      Math.abs(cluster.pixel.x - pixel.x) <= radius && Math.abs(cluster.pixel.y - pixel.y) <= radius
+    );
+    if (nearest) {
+      nearest.points.push(point);
+      nearest.pixels.push(pixel);
+      nearest.pixel = {
+        x: nearest.pixels.reduce((sum, p) => sum + p.x, 0) / nearest.pixels.length,
+        y: nearest.pixels.reduce((sum, p) => sum + p.y, 0) / nearest.pixels.length,
+      };
+    } else {
+      clusters.push({ pixel, points: [point], pixels: [pixel] });
+    }
+  }
+
+  return clusters.map((cluster) => ({
+    id: cluster.points.length === 1 ? cluster.points[0].id : `cluster:${cluster.points.map((p) => p.id).join(',')}`,
+    center: cluster.points.length === 1 ? cluster.points[0].location : unprojectFromPixel(cluster.pixel, zoom),
+    points: cluster.points,
+  }));
+}
+
+/**
+ * クラスタを展開するためのズームレベル（構成する地点がばらけるまで拡大）
+ */
+export function getClusterExpansionZoom<T>(cluster: MapCluster<T>, zoom: number, radius: number = CLUSTER_RADIUS): number {
+  for (let next = zoom + 1; next <= MAX_MAP_ZOOM; next++) {
+    if (clusterPoints(cluster.points, next, radius).length > 1) return next;
+  }
+  return MAX_MAP_ZOOM;
+}
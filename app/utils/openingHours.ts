@@ -0,0 +1,237 @@
+/**
+ * 営業時間の解析と「今すぐ連絡可能」「24時間対応」の判定
+ *
+ * Place Details の openingHours.weekday_text（例: "月曜日: 9時00分～18時00分"）を曜日ごとの
+ * 構造化スケジュールに変換する。open_now は検索時点の値でキャッシュ中は古くなるため使わず、
+ * スケジュールと現在時刻（日本時間）から判定する
+ *
+ * 24時間対応は営業時間に加えてオーナー投稿・Q&A・公式サイト本文の記載からも判定する
+ * （葬儀社は「営業時間 9〜18時」でも電話は24時間受け付けていることが多い）
+ *
+ * クライアント・サーバーの両方から利用する（Node専用のAPIは使わない）
+ */
+
+import type { Availability, DaySchedule, SearchResult, TwentyFourHourSource, TwentyFourHourSupport, WeeklySchedule } from '../types';
+import { findAffirmedKeyword } from './funeralServices';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// 曜日（0: 日曜 〜 6: 土曜）
+const DAY_PATTERNS: Array<[number, RegExp]> = [
+  [0, /^(日曜日?|sunday)/i],
+  [1, /^(月曜日?|monday)/i],
+  [2, /^(火曜日?|tuesday)/i],
+  [3, /^(水曜日?|wednesday)/i],
+  [4, /^(木曜日?|thursday)/i],
+  [5, /^(金曜日?|friday)/i],
+  [6, /^(土曜日?|saturday)/i],
+];
+
+// 24時間対応の記載（NFKC正規化後に照合）
+const TWENTY_FOUR_HOUR_KEYWORDS = [
+  '24時間365日',
+  '24時間対応',
+  '24時間受付',
+  '24時間いつでも',
+  '24時間営業',
+  '24時間体制',
+  '深夜・早朝',
+  '深夜早朝',
+  '夜間もご相談',
+  '夜間対応',
+];
+
+export const AVAILABILITY_FILTERS: Array<{ id: Availability; label: string }> = [
+  { id: 'open-now', label: '今すぐ連絡可能' },
+  { id: '24h', label: '24時間対応' },
+];
+
+export function isAvailability(value: unknown): value is Availability {
+  return value === 'open-now' || value === '24h';
+}
+
+/**
+ * "9時00分" / "9:00 AM" / "18:30" → 0時からの分数
+ */
+function parseTime(text: string): number | null {
+  const normalized = text.normalize('NFKC').trim();
+
+  const ja = normalized.match(/^(午前|午後)?\s*(\d{1,2})\s*時\s*(?:(\d{1,2})\s*分)?/);
+  if (ja) {
+    let hours = parseInt(ja[2], 10);
+    if (ja[1] === '午後' && hours < 12) hours += 12;
+    if (ja[1] === '午前' && hours === 12) hours = 0;
+    return hours * 60 + (ja[3] ? parseInt(ja[3], 10) : 0);
+  }
+
+  const en = normalized.match(/^(\d{1,2})(?::(\d{2}))?\s*([AaPp][Mm])?/);
+  if (en) {
+    let hours = parseInt(en[1], 10);
+    const suffix = en[3]?.toUpperCase();
+    if (suffix === 'PM' && hours < 12) hours += 12;
+    if (suffix === 'AM' && hours === 12) hours = 0;
+    return hours * 60 + (en[2] ? parseInt(en[2], 10) : 0);
+  }
+
+  return null;
+}
+
+/**
+ * 1日分の記載（曜日名を除いた部分）を解析
+ */
+function parseDayText(day: number, text: string): DaySchedule {
+  const normalized = text.normalize('NFKC').trim();
+
+  if (/24\s*時間|open 24 hours/i.test(normalized)) {
+    return { day, closed: false, allDay: true, periods: [{ open: 0, close: MINUTES_PER_DAY }] };
+  }
+  if (/定休日|休業|closed/i.test(normalized)) {
+    return { day, closed: true, allDay: false, periods: [] };
+  }
+
+  const periods = normalized
+    .split(/[,、]/)
+    .map((range) => range.split(/[~〜～\-–—]/))
+    .filter((parts) => parts.length === 2)
+    .map(([openText, closeText]) => {
+      let open = parseTime(openText);
+      let close = parseTime(closeText);
+      if (open === null || close === null) return null;
+      // "1:00 – 6:00 PM" のように午前/午後が終了時刻にだけ付く表記
+      if (/pm/i.test(closeText) && !/am|pm/i.test(openText) && open < 12 * 60 && open + 12 * 60 <= close) {
+        open += 12 * 60;
+      }
+      // 日をまたぐ営業（例: 18時〜翌2時）は当日の終わりまでを延長として扱う
+      if (close <= open) close += MINUTES_PER_DAY;
+      return { open, close };
+    })
+    .filter((period): period is { open: number; close: number } => period !== null);
+
+  const allDay = periods.some((period) => period.open === 0 && period.close >= MINUTES_PER_DAY);
+  return { day, closed: periods.length === 0, allDay, periods };
+}
+
+/**
+ * weekday_text を曜日ごとのスケジュールに変換
+ * 解析できた曜日が1つもなければ null
+ */
+export function parseWeekdayText(weekdayText?: string[]): WeeklySchedule | null {
+  if (!weekdayText || weekdayText.length === 0) return null;
+
+  const days: DaySchedule[] = [];
+  for (const line of weekdayText) {
+    const normalized = line.normalize('NFKC').trim();
+    const matched = DAY_PATTERNS.find(([, pattern]) => pattern.test(normalized));
+    if (!matched) continue;
+    const [day, pattern] = matched;
+    const rest = normalized.replace(pattern, '').replace(/^\s*[:：]\s*/, '');
+    days.push(parseDayText(day, rest));
+  }
+
+  if (days.length === 0) return null;
+  days.sort((a, b) => a.day - b.day);
+  return { days, alwaysOpen: days.length === 7 && days.every((d) => d.allDay) };
+}
+
+/**
+ * 施設のスケジュール（保存済みでなければ weekday_text から解析）
+ */
+export function getWeeklySchedule(result: Pick<SearchResult, 'openingSchedule' | 'openingHours'>): WeeklySchedule | null {
+  return result.openingSchedule || parseWeekdayText(result.openingHours?.weekday_text);
+}
+
+/**
+ * 日本時間の曜日と0時からの分数
+ */
+function toJapanTime(date: Date): { day: number; minutes: number } {
+  const jst = new Date(date.getTime() + 9 * 60 * 60 * 1000);
+  return { day: jst.getUTCDay(), minutes: jst.getUTCHours() * 60 + jst.getUTCMinutes() };
+}
+
+/**
+ * スケジュール上、指定時刻（既定: 現在）に営業しているか
+ * スケジュールがない場合は null（不明）
+ */
+export function isOpenAt(schedule: WeeklySchedule | null, date: Date = new Date()): boolean | null {
+  if (!schedule) return null;
+  if (schedule.alwaysOpen) return true;
+
+  const { day, minutes } = toJapanTime(date);
+  const today = schedule.days.find((d) => d.day === day);
+  if (today?.periods.some((p) => p.open <= minutes && minutes < p.close)) return true;
+
+  // 前日からの深夜営業（close が 24時以降）
+  const yesterday = schedule.days.find((d) => d.day === (day + 6) % 7);
+  return !!yesterday?.periods.some((p) => p.close > MINUTES_PER_DAY && minutes < p.close - MINUTES_PER_DAY);
+}
+
+/**
+ * 24時間対応かを判定（営業時間・オーナー投稿・Q&A・公式サイト本文）
+ * 記載が見つからなければ null
+ */
+export function detectTwentyFourHourSupport(
+  result: Pick<SearchResult, 'openingSchedule' | 'openingHours' | 'ownerInfo' | 'qanda'>,
+  websiteText?: string | null
+): TwentyFourHourSupport | null {
+  const sources: TwentyFourHourSource[] = [];
+  let evidence: string | undefined;
+
+  if (getWeeklySchedule(result)?.alwaysOpen) {
+    sources.push('hours');
+  }
+
+  const check = (source: TwentyFourHourSource, text?: string | null) => {
+    if (!text || sources.includes(source)) return;
+    const normalized = text.normalize('NFKC').replace(/\s+/g, ' ');
+    for (const keyword of TWENTY_FOUR_HOUR_KEYWORDS) {
+      const index = findAffirmedKeyword(normalized, keyword);
+      if (index === -1) continue;
+      sources.push(source);
+      evidence = evidence || normalized.substring(Math.max(0, index - 15), index + keyword.length + 15).trim();
+      return;
+    }
+  };
+
+  check('owner', result.ownerInfo?.message);
+  (result.ownerInfo?.posts || []).forEach((post) => check('owner', post));
+  (result.qanda || []).forEach((qa) => check('qanda', `${qa.question} ${qa.answer}`));
+  check('website', websiteText);
+
+  return sources.length > 0 ? { sources, ...(evidence && { evidence }) } : null;
+}
+
+/**
+ * 24時間対応か（保存済みの判定がなければその場で判定）
+ */
+export function isTwentyFourHours(result: SearchResult): boolean {
+  return !!(result.twentyFourHour || detectTwentyFourHourSupport(result));
+}
+
+/**
+ * 今すぐ連絡可能か（24時間対応、または営業時間内）
+ */
+export function isAvailableNow(result: SearchResult, date: Date = new Date()): boolean {
+  return isTwentyFourHours(result) || isOpenAt(getWeeklySchedule(result), date) === true;
+}
+
+/**
+ * 指定した条件（今すぐ連絡可能・24時間対応）をすべて満たす施設のみ残す
+ */
+export function filterByAvailability<T extends SearchResult>(results: T[], availability: Availability[], date: Date = new Date()): T[] {
+  if (availability.length === 0) return results;
+  return results.filter((result) =>
+    availability.every((condition) => (condition === '24h' ? isTwentyFourHours(result) : isAvailableNow(result, date)))
+  );
+}
+
+/**
+ * URL・APIパラメータ（"open-now,24h" または配列）を変換
+ */
+export function parseAvailabilityParam(value: unknown): Availability[] {
+  const values = Array.isArray(value)
+    ? value
+    : typeof value === 'string'
+      ? value.split(',')
+      : [];
+  return Array.from(new Set(values.map((v) => String(v).trim()).filter(isAvailability)));
+}
@@ -0,0 +1,151 @@
+/**
+ * 地名の入力補完（検索バーの候補）
+ * regions.json の地域名・読み（kana）・ローマ字と municipalities.json の市区町村から、前方一致と読み（かな・ローマ字）で候補を探す
+ * かなの入力は regions.json の読みと照合し、読みのない地域はローマ字に変換して照合する
+ *
+ * - 並び順: 地域名の完全一致 → 読みの一致 → 地域名の前方一致 → 読みの前方一致（同じ順位なら priority → 市区町村 → 短い名前）
+ * - 同名の地域は都道府県で区別して表示する（例: 「府中（東京都）」）
+ *   regions.json の同名のエントリが別の都道府県の駅の場合（東京都の「松原」駅と大阪府松原市）は、
+ *   市区町村を「松原（大阪府）」として別の候補にする（検索には都道府県名付きの "大阪府松原" を使う）
+ *
+ * 誤字のまま Gemini を呼ばないよう、候補を選ぶと正規の地名で検索する
+ */
+
+import municipalitiesJson from './data/municipalities.json';
+import { PREFECTURES } from './data/prefectures';
+import {
+  getAllRegions,
+  getMunicipalityPrefecture,
+  isMunicipality,
+  toHiragana,
+  type RegionPriority,
+} from './regionRegistry';
+import { kanaToRomaji } from './searchQuery';
+
+const municipalityMap: Record<string, string> = municipalitiesJson satisfies Record<string, string>;
+
+export const DEFAULT_SUGGESTION_LIMIT = 8;
+export const MAX_SUGGESTION_LIMIT = 20;
+
+// ローマ字での照合に必要な入力の長さ（"s" だけで数百件に一致しないように）
+const MIN_READING_LENGTH = 2;
+
+export interface PlaceSuggestion {
+  name: string;             // 地域名（例: 府中）
+  label: string;            // 表示名（例: 府中（東京都））
+  query: string;            // 選択時に検索する正規の地名（例: 府中、大阪府松原）
+  romaji: string;
+  type: 'municipality' | 'station';
+  prefecture: string | null; // 都道府県コード
+  priority: RegionPriority;
+}
+
+interface SuggestionEntry extends PlaceSuggestion {
+  key: string; // 照合用（NFKC・小文字）
+  kana: string | null; // 読み（ひらがな）
+}
+
+// 照合の順位（小さいほど上位）
+const MATCH_EXACT = 0;
+const MATCH_READING_EXACT = 1;
+const MATCH_PREFIX = 2;
+const MATCH_READING_PREFIX = 3;
+
+let suggestionEntries: SuggestionEntry[] | null = null;
+
+function formatLabel(name: string, prefecture: string | null): string {
+  const prefectureName = prefecture ? PREFECTURES[prefecture]?.name : null;
+  return prefectureName ? `${name}（${prefectureName}）` : name;
+}
+
+function getSuggestionEntries(): SuggestionEntry[] {
+  if (suggestionEntries) return suggestionEntries;
+
+  const entries: SuggestionEntry[] = [];
+  for (const region of getAllRegions()) {
+    if (!region.romaji) continue;
+    const prefecture = region.prefecture || null;
+    entries.push({
+      name: region.name,
+      label: formatLabel(region.name, prefecture),
+      query: region.name,
+      romaji: region.romaji,
+      type: isMunicipality(region) ? 'municipality' : 'station',
+      prefecture,
+      priority: region.priority,
+      key: region.name.normalize('NFKC').toLowerCase(),
+      kana: region.kana || null,
+    });
+
+    // 同名のエントリが別の都道府県の駅になっている市区町村
+    const municipalityPrefecture = municipalityMap[region.name] ? getMunicipalityPrefecture(region.name) : null;
+    if (municipalityPrefecture && municipalityPrefecture !== prefecture && PREFECTURES[municipalityPrefecture]) {
+      entries.push({
+        name: region.name,
+        label: formatLabel(region.name, municipalityPrefecture),
+        query: `${PREFECTURES[municipalityPrefecture].name}${region.name}`,
+        romaji: municipalityMap[region.name],
+        type: 'municipality',
+        prefecture: municipalityPrefecture,
+        priority: 2,
+        key: region.name.normalize('NFKC').toLowerCase(),
+        // regions.json の読みは同名の駅のもの（市区町村の読みとは限らない）
+        kana: null,
+      });
+    }
+  }
+
+  suggestionEntries = entries;
+  return entries;
+}
+
+/**
+ * 照合の順位（一致しなければ null）
+ */
+function matchRank(entry: SuggestionEntry, text: string, kana: string | null, readings: string[]): number | null {
+  if (entry.key === text) return MATCH_EXACT;
+  if (entry.key.startsWith(text)) return MATCH_PREFIX;
+  // "練馬区" "新宿駅" のように接尾辞まで入力された場合
+  if (text.length === entry.key.length + 1 && text.startsWith(entry.key) && /[市区町村駅]$/.test(text)) return MATCH_EXACT;
+  if (kana && entry.kana) {
+    if (entry.kana === kana) return MATCH_READING_EXACT;
+    if (entry.kana.startsWith(kana)) return MATCH_READING_PREFIX;
+    return null;
+  }
+  if (readings.includes(entry.romaji)) return MATCH_READING_EXACT;
+  if (readings.some((reading) => entry.romaji.startsWith(reading))) return MATCH_READING_PREFIX;
+  return null;
+}
+
+/**
+ * 入力中の地名の候補を返す
+ * 例: "ふちゅう" → [府中（東京都）, ...]、"nerim" → [練馬（東京都）, 練馬高野台（東京都）, ...]
+ */
+export function suggestPlaces(input: string, limit: number = DEFAULT_SUGGESTION_LIMIT): PlaceSuggestion[] {
+  const text = input.normalize('NFKC').trim().toLowerCase();
+  if (!text) return [];
+
+  // 読み: ローマ字の入力はそのまま、かなはローマ字に変換（長音を省いた表記も照合する）
+  const hiragana = /^[ぁ-んァ-ヶー]+$/.test(text) ? toHiragana(text) : null;
+  const romaji = /^[a-z-]+$/.test(text) ? text : kanaToRomaji(text);
+  const readings = romaji && romaji.length >= MIN_READING_LENGTH
+    ? Array.from(new Set([romaji, romaji.replace(/ou/g, 'o').replace(/oo/g, 'o').replace(/uu/g, 'u')]))
+    : [];
+
+  const matches: Array<{ entry: SuggestionEntry; rank: number }> = [];
+  for (const entry of getSuggestionEntries()) {
+    const rank = matchRank(entry, text, hiragana, readings);
+    if (rank !== null) matches.push({ entry, rank });
+  }
+
+  return matches
+    .sort((a, b) =>
+      a.rank - b.rank ||
+      a.entry.priority - b.entry.priority ||
+      (a.entry.type === b.entry.type ? 0 : a.entry.type === 'municipality' ? -1 : 1) ||
+      a.entry.name.length - b.entry.name.length ||
+      a.entry.name.localeCompare(b.entry.name, 'ja')
+    )
+    .slice(0, Math.min(Math.max(limit, 1), MAX_SUGGESTION_LIMIT))
+    .map(({ entry: { key, kana, ...suggestion } }) => suggestion);
+}
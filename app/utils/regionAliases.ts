@@ -0,0 +1,78 @@
+/**
+ * 地域名の別名解決
+ * 旧市町村名・政令指定都市の区名・都道府県付きの表記を regions.json の地域にまとめる
+ *
+ * 例: "浦和市" / "さいたま市浦和区" / "埼玉県浦和市" → 浦和
+ * 例: "東京都下八王子市" / "都下 八王子" → 八王子（「東京都下」は東京23区以外を指す通称）
+ * 例: "東京都練馬区" → 練馬（都道府県名のない "練馬区" はそのまま）
+ *
+ * 同じ地域を指すクエリが同じ検索キャッシュ・同じ /list/{romaji} になるよう、
+ * 検索キャッシュのキー・地域スラッグ生成・一覧ページのタイトルはここで地域名に揃える
+ *
+ * クライアント・サーバーの両方から利用する
+ */
+
+import { PREFECTURES } from './data/prefectures';
+import { REGION_ALIASES, type RegionAliasKind } from './data/regionAliases';
+import { getRegion, isMunicipality, type Region } from './regionRegistry';
+
+export interface RegionAliasMatch {
+  alias: string; // 入力の地名部分（例: "浦和市"）
+  region: Region;
+  current: string; // 現在の正式名称（例: "さいたま市浦和区"）
+  kind: RegionAliasKind | 'official'; // official: 現行の市区町村名の表記ゆれ（"東京都練馬区" など）
+  since?: number;
+}
+
+// 「東京都下」「都下」（東京23区以外の通称）
+const TOKYO_SUBURB_PATTERN = /^(東京都下|都下)/;
+
+const MUNICIPALITY_SUFFIX_PATTERN = /[市区町村]$/;
+
+/**
+ * 先頭の都道府県名・「東京都下」を取り除く（都道府県が分かれば都道府県コードも返す）
+ */
+function stripPrefecture(text: string): { rest: string; prefecture: string | null } {
+  if (TOKYO_SUBURB_PATTERN.test(text)) {
+    return { rest: text.replace(TOKYO_SUBURB_PATTERN, ''), prefecture: '13' };
+  }
+  for (const pref of Object.values(PREFECTURES)) {
+    if (text.startsWith(pref.name) && text.length > pref.name.length) {
+      return { rest: text.slice(pref.name.length), prefecture: pref.code };
+    }
+  }
+  return { rest: text, prefecture: null };
+}
+
+/**
+ * 地名を regions.json の地域に解決（別名・表記ゆれでなければ null）
+ * regions.json の地域名そのもの（"浦和"）は別名ではないため null
+ */
+export function resolveRegionAlias(query: string): RegionAliasMatch | null {
+  const normalized = query.trim().replace(/[\s　]+/g, '');
+  if (!normalized) return null;
+
+  const { rest, prefecture } = stripPrefecture(normalized);
+  // 郡名（"虻田郡虻田町"）と政令指定都市名（"さいたま市浦和区"）は区・町村名の前から取り除く
+  const candidates = [rest, rest.replace(/^.+?郡/, ''), rest.replace(/^.+?市(?=.+区$)/, '')];
+
+  for (const name of candidates) {
+    const alias = REGION_ALIASES[name];
+    if (!alias || (prefecture && alias.prefecture !== prefecture)) continue;
+    const region = getRegion(alias.region);
+    if (region) {
+      return { alias: name, region, current: alias.current, kind: alias.kind, since: alias.since };
+    }
+  }
+
+  // 都道府県名の付いた現行の市区町村名（"東京都練馬区" → 練馬）
+  // 都道府県が分からない "中央区" などは別の都道府県の同名の市区町村に寄せないよう解決しない
+  if (!prefecture) return null;
+  for (const name of candidates) {
+    const region = getRegion(name) || getRegion(name.replace(MUNICIPALITY_SUFFIX_PATTERN, ''));
+    if (!region || region.prefecture !== prefecture || !isMunicipality(region)) continue;
+    return { alias: name, region, current: name, kind: 'official' };
+  }
+  return null;
+}
+
@@ -0,0 +1,133 @@
+/**
+ * 地域一覧ページ（/list/[region]）のサーバーサイドデータ取得
+ * regions.json で地域スラッグを解決し、検索キャッシュから施設一覧を取得する
+ *
+ * キャッシュがない・古い場合は、レスポンス後に検索を実行してキャッシュを埋め、一覧ページを再検証する
+ * （ビルド時は全地域で検索が走らないよう実行しない）
+ *
+ * 1ページ目にはキャッシュ済みのサブエリア（町域・駅）の結果も連結し、
+ * 続きは nextCursor で /api/search-funeral-homes から取得する
+ *
+ * 施設には発行済みの詳細ページURL（detailPath）を付与し、未発行の施設はレスポンス後に発行する
+ */
+
+import { after } from 'next/server';
+import { PHASE_PRODUCTION_BUILD } from 'next/constants';
+import type { SearchResult } from '../types';
+import { completeSearchRefresh, readSearchCache, refreshSearchCache } from './searchCache';
+import { paginateSearchResults } from './searchPagination';
+import { getRegion, getRegionByRomaji, type Region, type RegionType } from './regionRegistry';
+import { resolveRegionAlias } from './regionAliases';
+import { attachFacilityPaths, issueMissingFacilityPaths } from './facilityPath';
+
+export interface ResolvedRegion {
+  name: string; // 日本語の地域名（検索クエリとして使用）
+  romaji: string;
+  type: RegionType;
+  prefecture: string | null;
+}
+
+export interface RegionListing {
+  region: ResolvedRegion;
+  results: SearchResult[];
+  // 「さらに表示」で次のページを取得するカーソル（続きがなければ null）
+  nextCursor: string | null;
+  cachedAt: number | null;
+  stale: boolean;
+  // キャッシュがなくバックグラウンドで検索を開始した
+  refreshing: boolean;
+}
+
+function toResolvedRegion(region: Region): ResolvedRegion {
+  return {
+    name: region.name,
+    romaji: region.romaji,
+    type: region.type,
+    prefecture: region.prefecture || null,
+  };
+}
+
+/**
+ * ローマ字スラッグから地域を解決（同じローマ字が複数ある場合は最初の地域）
+ */
+export function findRegionBySlug(slug: string): ResolvedRegion | null {
+  const region = getRegionByRomaji(decodeURIComponent(slug));
+  return region ? toResolvedRegion(region) : null;
+}
+
+/**
+ * 日本語の地域名（検索クエリ）から地域を解決
+ * 旧市町村名・都道府県付きの地名は現在の地域（"浦和市" → 浦和）
+ */
+export function findRegionByName(name: string): ResolvedRegion | null {
+  const region = getRegion(name) || resolveRegionAlias(name)?.region;
+  return region?.romaji ? toResolvedRegion(region) : null;
+}
+
+/**
+ * 地域スラッグとして解決できない日本語の地名（/list/浦和市 など）の正規の地域
+ * 一覧ページは正規の /list/{romaji} へ恒久リダイレクトする
+ */
+export function findRegionAliasBySlug(slug: string): ResolvedRegion | null {
+  const match = resolveRegionAlias(decodeURIComponent(slug));
+  return match?.region.romaji ? toResolvedRegion(match.region) : null;
+}
+
+function isBuildPhase(): boolean {
+  return process.env.NEXT_PHASE === PHASE_PRODUCTION_BUILD;
+}
+
+/**
+ * 地域スラッグに対応する施設一覧を検索キャッシュから取得
+ * 地域が解決できない場合は null
+ */
+export async function getRegionListing(slug: string): Promise<RegionListing | null> {
+  const region = findRegionBySlug(slug);
+  if (!region) return null;
+
+  const { entry, stale, cacheKey } = await readSearchCache(region.name);
+  const needsRefresh = !entry || stale;
+  const refreshing = needsRefresh && !isBuildPhase();
+
+  if (refreshing) {
+    after(async () => {
+      try {
+        const refreshed = await refreshSearchCache(region.name);
+        console.log(`🔄 [Region Listing] ${cacheKey}: ${refreshed.status}`);
+        // キャッシュがない・古い状態で生成されたページを新しい検索結果で作り直させる
+        await completeSearchRefresh(region.name, refreshed);
+      } catch (err) {
+        console.warn(`[Region Listing] Refresh failed for ${cacheKey}:`, err);
+      }
+    });
+  }
+
+  // サーバー側では新たな検索をしない（キャッシュ済みのサブエリアのみ連結）
+  // 次ページは検索APIで取得し、未検索のサブエリアはそこで検索する
+  const firstPage = entry
+    ? await paginateSearchResults(region.name, entry.results, { page: 1, allowSearch: false, nextAllowsSearch: true })
+    : null;
+  const results = firstPage ? await attachFacilityPaths(firstPage.items) : [];
+
+  if (!isBuildPhase() && results.some((result) => result.placeId && !result.detailPath)) {
+    after(async () => {
+      try {
+        const issued = await issueMissingFacilityPaths(results);
+        if (issued > 0) console.log(`🔗 [Region Listing] Issued ${issued} facility paths for /list/${slug}`);
+      } catch (err) {
+        console.warn(`[Region Listing] Facility path issue failed for /list/${slug}:`, err);
+      }
+    });
+  }
+
+  console.log(`📄 [Region Listing] /list/${slug} → ${region.name}: ${entry ? `${entry.count}件${stale ? ' (stale)' : ''}` : 'no cache'}${firstPage?.hasMore ? ', more' : ''}${refreshing ? ', refreshing' : ''}`);
+
+  return {
+    region,
+    results,
+    nextCursor: firstPage?.nextCursor ?? null,
+    cachedAt: entry?.timestamp ?? null,
+    stale,
+    refreshing,
+  };
+}
@@ -0,0 +1,418 @@
+/**
+ * 地域データ（regions.json）の型付きレジストリ
+ * 地域名・ローマ字・都道府県コード・種別での検索と、都道府県 → 市区町村 → 駅 の階層を提供する
+ *
+ * - regions.json は地域名をキーとする1階層のデータで、市区町村と同名の駅は1エントリにまとまっている
+ *   （例: 「世田谷」は type: 'station' だが市区町村でもある）。市区町村かどうかは municipalities.json で判定する
+ *   municipalities.json は全国地方公共団体コード順のため、並び順から市区町村の都道府県を求め、
+ *   別の都道府県の同名の駅（例: 東京都の「松原」駅と大阪府松原市）は市区町村として扱わない
+ * - regions.json の市区町村には座標がないため、同名の駅の座標を市区町村の代表地点とする
+ *   駅の属する市区町村・隣接する市区町村は代表地点からの距離で推定する（代表地点のない市区町村は対象外）
+ * - 読み（kana、ひらがな）は scripts/build-region-readings.ts で生成する。findRegion は地域名・読み・ローマ字のどれでも引ける
+ *   （例: 「練馬」「ねりま」「nerima」→ 練馬）
+ * - validateRegionsData でデータの欠損（空のromaji・都道府県コードなど）を検出する
+ *   （/list/[region] の generateStaticParams でビルド時に検証し、エラーがあればビルドを失敗させる）
+ *
+ * クライアント・サーバーの両方から利用する（Node専用のAPIは使わない）
+ */
+
+import regionsJson from './data/regions.json';
+import municipalitiesJson from './data/municipalities.json';
+import { PREFECTURES, type PrefectureData } from './data/prefectures';
+import { REGION_ALIASES } from './data/regionAliases';
+import { calculateDistance } from './geo';
+
+export type RegionType = 'municipality' | 'station' | 'area';
+export type RegionPriority = 1 | 2 | 3 | 4 | 5;
+
+// regions.json の1エントリ
+export interface RegionData {
+  romaji: string;
+  kana?: string; // 読み（ひらがな、例: ねりま）
+  type: RegionType;
+  priority: RegionPriority;
+  prefecture?: string;
+  lat?: number;
+  lon?: number;
+  lineIds?: string[];
+}
+
+export interface Region extends RegionData {
+  name: string; // 日本語の地域名（regions.json のキー、「駅」「市」などは付かない）
+}
+
+export interface RegionHierarchy {
+  prefecture: PrefectureData | null;
+  municipality: Region | null;
+  station: Region | null;
+}
+
+export interface RegionValidationIssue {
+  level: 'error' | 'warning';
+  name: string;
+  field: keyof RegionData | 'name' | 'alias';
+  message: string;
+}
+
+// JSON の type・priority は string・number として推論されるため RegionData として扱う（値は validateRegionsData で検証）
+const regionsData = regionsJson as Record<string, RegionData>;
+const municipalityMap: Record<string, string> = municipalitiesJson satisfies Record<string, string>;
+
+// 駅の属する市区町村を推定する範囲（代表地点からの距離）
+const MAX_PARENT_DISTANCE = 20000;
+
+// 隣接する市区町村とみなす範囲
+const MAX_NEIGHBOUR_DISTANCE = 30000;
+const DEFAULT_NEIGHBOUR_LIMIT = 5;
+
+const REGION_TYPES: RegionType[] = ['municipality', 'station', 'area'];
+
+const PREFECTURE_COUNT = 47;
+
+// 遅延構築するインデックス
+let allRegions: Region[] | null = null;
+let romajiIndex: Map<string, Region> | null = null;
+let kanaIndex: Map<string, Region> | null = null;
+let prefectureIndex: Map<string, Region[]> | null = null;
+let parentIndex: Map<string, Region | null> | null = null;
+let municipalityPrefectures: Map<string, string> | null = null;
+const locatedMunicipalities = new Map<string, Array<{ region: Region; lat: number; lon: number }>>();
+
+const toRegion = (name: string, data: RegionData): Region => ({ name, ...data });
+
+/**
+ * 全地域（regions.json の順）
+ */
+export function getAllRegions(): Region[] {
+  if (!allRegions) {
+    allRegions = Object.entries(regionsData).map(([name, data]) => toRegion(name, data));
+  }
+  return allRegions;
+}
+
+/**
+ * 地域名から取得（前後の空白は無視）
+ */
+export function getRegion(name: string): Region | null {
+  const key = name.trim();
+  const data = regionsData[key];
+  return data ? toRegion(key, data) : null;
+}
+
+/**
+ * ローマ字スラッグから取得（同じローマ字が複数ある場合は最初の地域）
+ */
+export function getRegionByRomaji(romaji: string): Region | null {
+  if (!romajiIndex) {
+    romajiIndex = new Map();
+    for (const region of getAllRegions()) {
+      if (region.romaji && !romajiIndex.has(region.romaji)) {
+        romajiIndex.set(region.romaji, region);
+      }
+    }
+  }
+  return romajiIndex.get(romaji.toLowerCase()) || null;
+}
+
+/**
+ * カタカナをひらがなに揃える（読みの照合用）
+ */
+export function toHiragana(text: string): string {
+  return text.replace(/[ァ-ヴ]/g, (char) => String.fromCharCode(char.charCodeAt(0) - 0x60));
+}
+
+/**
+ * 読み（ひらがな・カタカナ）から取得（同じ読みが複数ある場合は市区町村 → 優先度の高い地域）
+ */
+export function getRegionByKana(kana: string): Region | null {
+  if (!kanaIndex) {
+    kanaIndex = new Map();
+    const regions = getAllRegions()
+      .filter((region) => region.kana)
+      .sort((a, b) => Number(isMunicipality(b)) - Number(isMunicipality(a)) || a.priority - b.priority);
+    for (const region of regions) {
+      if (!kanaIndex.has(region.kana!)) {
+        kanaIndex.set(region.kana!, region);
+      }
+    }
+  }
+  return kanaIndex.get(toHiragana(kana.trim())) || null;
+}
+
+/**
+ * 地域名・読み・ローマ字のどれからでも取得
+ * 例: "練馬" / "ねりま" / "ネリマ" / "nerima" → 練馬
+ */
+export function findRegion(query: string): Region | null {
+  const text = query.normalize('NFKC').trim();
+  if (!text) return null;
+  return getRegion(text) ||
+    getRegionByKana(text) ||
+    (/^[a-z0-9-]+$/i.test(text) ? getRegionByRomaji(text) : null);
+}
+
+/**
+ * 都道府県コードで絞り込み（type を指定するとその種別のみ）
+ */
+export function getRegionsByPrefecture(prefectureCode: string, type?: RegionType): Region[] {
+  if (!prefectureIndex) {
+    prefectureIndex = new Map();
+    for (const region of getAllRegions()) {
+      if (!region.prefecture) continue;
+      const regions = prefectureIndex.get(region.prefecture) || [];
+      regions.push(region);
+      prefectureIndex.set(region.prefecture, regions);
+    }
+  }
+  const regions = prefectureIndex.get(prefectureCode) || [];
+  return type ? regions.filter((region) => region.type === type) : regions;
+}
+
+/**
+ * 種別で絞り込み
+ */
+export function getRegionsByType(type: RegionType): Region[] {
+  return getAllRegions().filter((region) => region.type === type);
+}
+
+/**
+ * 既知の都道府県コード列（0 はコードなし）に最も合う単調増加のコード列を求める（動的計画法）
+ * 全国地方公共団体コード順に並んだ市区町村の都道府県を、一部のコードの誤り・欠損があっても推定できる
+ */
+export function fitMonotonicPrefectures(labels: number[]): number[] {
+  let costs = new Array(PREFECTURE_COUNT + 1).fill(0);
+  const backPointers: number[][] = [];
+
+  for (const label of labels) {
+    const nextCosts = new Array(PREFECTURE_COUNT + 1).fill(Infinity);
+    const pointers = new Array(PREFECTURE_COUNT + 1).fill(1);
+    let best = Infinity;
+    let bestPrefecture = 1;
+    for (let p = 1; p <= PREFECTURE_COUNT; p++) {
+      if (costs[p] < best) {
+        best = costs[p];
+        bestPrefecture = p;
+      }
+      nextCosts[p] = best + (label && label !== p ? 1 : 0);
+      pointers[p] = bestPrefecture;
+    }
+    backPointers.push(pointers);
+    costs = nextCosts;
+  }
+
+  let prefecture = 1;
+  for (let p = 1; p <= PREFECTURE_COUNT; p++) {
+    if (costs[p] < costs[prefecture]) prefecture = p;
+  }
+
+  const fitted = new Array(labels.length);
+  for (let i = labels.length - 1; i >= 0; i--) {
+    fitted[i] = prefecture;
+    prefecture = backPointers[i][prefecture];
+  }
+  return fitted;
+}
+
+/**
+ * 市区町村名 → 都道府県コード（municipalities.json の並び順から推定）
+ * regions.json の同名のエントリが別の都道府県の駅の場合も市区町村の都道府県を返す（"松原" → 27）
+ */
+export function getMunicipalityPrefecture(name: string): string | null {
+  if (!municipalityPrefectures) {
+    const names = Object.keys(municipalityMap).filter((municipality) => regionsData[municipality]);
+    const fitted = fitMonotonicPrefectures(names.map((municipality) => parseInt(regionsData[municipality].prefecture || '0', 10)));
+    municipalityPrefectures = new Map(names.map((municipality, i) => [municipality, String(fitted[i]).padStart(2, '0')]));
+  }
+  return municipalityPrefectures.get(name) || null;
+}
+
+/**
+ * 市区町村かどうか（同名の駅とまとまったエントリも含む）
+ */
+export function isMunicipality(region: Region): boolean {
+  if (region.type === 'municipality') return true;
+  return !!municipalityMap[region.name] && getMunicipalityPrefecture(region.name) === region.prefecture;
+}
+
+/**
+ * 都道府県を取得
+ */
+export function getRegionPrefecture(region: Region): PrefectureData | null {
+  return (region.prefecture && PREFECTURES[region.prefecture]) || null;
+}
+
+/**
+ * 市区町村の代表地点（同名の駅の座標）
+ */
+function getRepresentativePoint(region: Region): { lat: number; lon: number } | null {
+  if (!isMunicipality(region) || typeof region.lat !== 'number' || typeof region.lon !== 'number') {
+    return null;
+  }
+  return { lat: region.lat, lon: region.lon };
+}
+
+/**
+ * 代表地点のある市区町村（都道府県ごと）
+ */
+function getLocatedMunicipalities(prefectureCode: string): Array<{ region: Region; lat: number; lon: number }> {
+  let located = locatedMunicipalities.get(prefectureCode);
+  if (!located) {
+    located = getRegionsByPrefecture(prefectureCode)
+      .map((region) => ({ region, point: getRepresentativePoint(region) }))
+      .filter((entry): entry is { region: Region; point: { lat: number; lon: number } } => !!entry.point)
+      .map(({ region, point }) => ({ region, ...point }));
+    locatedMunicipalities.set(prefectureCode, located);
+  }
+  return located;
+}
+
+/**
+ * 駅の属する市区町村（推定）
+ * 駅自体が市区町村と同名ならその市区町村、そうでなければ同じ都道府県で代表地点が最も近い市区町村
+ */
+export function getParentMunicipality(station: Region): Region | null {
+  if (station.type !== 'station') return null;
+  if (isMunicipality(station)) return station;
+  if (!station.prefecture || typeof station.lat !== 'number' || typeof station.lon !== 'number') return null;
+
+  if (!parentIndex) parentIndex = new Map();
+  if (parentIndex.has(station.name)) return parentIndex.get(station.name)!;
+
+  let parent: Region | null = null;
+  let nearest = MAX_PARENT_DISTANCE;
+  for (const candidate of getLocatedMunicipalities(station.prefecture)) {
+    const distance = calculateDistance(station.lat, station.lon, candidate.lat, candidate.lon);
+    if (distance < nearest) {
+      parent = candidate.region;
+      nearest = distance;
+    }
+  }
+
+  parentIndex.set(station.name, parent);
+  return parent;
+}
+
+/**
+ * 市区町村に属する駅（推定、同名の駅を含む）
+ */
+export function getStationsInMunicipality(municipality: Region): Region[] {
+  if (!municipality.prefecture || !isMunicipality(municipality)) return [];
+  return getRegionsByPrefecture(municipality.prefecture, 'station')
+    .filter((station) => getParentMunicipality(station)?.name === municipality.name);
+}
+
+/**
+ * 地域の階層（都道府県 → 市区町村 → 駅）
+ * 市区町村を指定した場合は station が null
+ */
+export function getRegionHierarchy(name: string): RegionHierarchy | null {
+  const region = getRegion(name);
+  if (!region) return null;
+
+  const municipality = region.type === 'station' && !isMunicipality(region)
+    ? getParentMunicipality(region)
+    : region;
+
+  return {
+    prefecture: getRegionPrefecture(region),
+    municipality,
+    station: region.type === 'station' ? region : null,
+  };
+}
+
+/**
+ * 隣接する市区町村（同じ都道府県で代表地点が近い順、推定）
+ * 駅を指定した場合は属する市区町村の隣接市区町村
+ */
+export function getNeighbouringMunicipalities(name: string, limit: number = DEFAULT_NEIGHBOUR_LIMIT): Region[] {
+  const municipality = getRegionHierarchy(name)?.municipality;
+  const origin = municipality && getRepresentativePoint(municipality);
+  if (!municipality || !origin || !municipality.prefecture) return [];
+
+  return getLocatedMunicipalities(municipality.prefecture)
+    .filter((candidate) => candidate.region.name !== municipality.name)
+    .map((candidate) => ({
+      region: candidate.region,
+      distance: calculateDistance(origin.lat, origin.lon, candidate.lat, candidate.lon),
+    }))
+    .filter((candidate) => candidate.distance <= MAX_NEIGHBOUR_DISTANCE)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit)
+    .map((candidate) => candidate.region);
+}
+
+/**
+ * regions.json の検証
+ * - error: 空のromaji、都道府県コードの欠損・不正、不明な種別・優先度、
+ *          読みがない・ひらがな以外を含む読み、別名（data/regionAliases.ts）の解決先がない・都道府県が一致しない
+ * - warning: 座標のない駅、同じromajiの重複（/list/{romaji} は最初の地域になる）
+ */
+export function validateRegionsData(data: Record<string, RegionData> = regionsData): RegionValidationIssue[] {
+  const issues: RegionValidationIssue[] = [];
+  const romajiOwners = new Map<string, string>();
+
+  for (const [name, region] of Object.entries(data)) {
+    if (!name.trim()) {
+      issues.push({ level: 'error', name, field: 'name', message: '地域名が空です' });
+    }
+    if (!region.romaji || !region.romaji.trim()) {
+      issues.push({ level: 'error', name, field: 'romaji', message: 'romajiが空です' });
+    } else if (!/^[a-z0-9-]+$/.test(region.romaji)) {
+      issues.push({ level: 'error', name, field: 'romaji', message: `romajiに使えない文字があります: "${region.romaji}"` });
+    }
+    if (!region.prefecture) {
+      issues.push({ level: 'error', name, field: 'prefecture', message: '都道府県コードがありません' });
+    } else if (!PREFECTURES[region.prefecture]) {
+      issues.push({ level: 'error', name, field: 'prefecture', message: `不明な都道府県コードです: "${region.prefecture}"` });
+    }
+    if (!REGION_TYPES.includes(region.type)) {
+      issues.push({ level: 'error', name, field: 'type', message: `不明な種別です: "${region.type}"` });
+    }
+    if (![1, 2, 3, 4, 5].includes(region.priority)) {
+      issues.push({ level: 'error', name, field: 'priority', message: `不明な優先度です: ${region.priority}` });
+    }
+    if (region.kana === undefined) {
+      issues.push({ level: 'error', name, field: 'kana', message: '読みがありません' });
+    } else if (!/^[ぁ-ゖー]+$/.test(region.kana)) {
+      issues.push({ level: 'error', name, field: 'kana', message: `読みにひらがな以外の文字があります: "${region.kana}"` });
+    }
+    if (region.type === 'station' && (typeof region.lat !== 'number' || typeof region.lon !== 'number')) {
+      issues.push({ level: 'warning', name, field: 'lat', message: '駅の座標がありません' });
+    }
+
+    if (region.romaji) {
+      const owner = romajiOwners.get(region.romaji);
+      if (owner) {
+        issues.push({ level: 'warning', name, field: 'romaji', message: `「${owner}」と同じromajiです: "${region.romaji}"` });
+      } else {
+        romajiOwners.set(region.romaji, name);
+      }
+    }
+  }
+
+  for (const [alias, entry] of Object.entries(REGION_ALIASES)) {
+    const target = data[entry.region];
+    if (!target) {
+      issues.push({ level: 'error', name: alias, field: 'alias', message: `別名の解決先「${entry.region}」がありません` });
+    } else if (target.prefecture !== entry.prefecture) {
+      issues.push({ level: 'error', name: alias, field: 'alias', message: `別名の解決先「${entry.region}」の都道府県コードが一致しません: "${target.prefecture}"（期待値 "${entry.prefecture}"）` });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * 検証エラーがあれば例外（ビルド時の検証用）
+ */
+export function assertValidRegionsData(): void {
+  const issues = validateRegionsData();
+  const errors = issues.filter((issue) => issue.level === 'error');
+  const warnings = issues.length - errors.length;
+
+  if (errors.length > 0) {
+    const samples = errors.slice(0, 10).map((issue) => `  - ${issue.name}: ${issue.message}`).join('\n');
+    throw new Error(`regions.json の検証に失敗しました（エラー ${errors.length}件）\n${samples}${errors.length > 10 ? '\n  ...' : ''}`);
+  }
+  console.log(`✅ [RegionRegistry] regions.json validated: ${getAllRegions().length} regions${warnings > 0 ? ` (${warnings} warnings)` : ''}`);
+}
@@ -0,0 +1,163 @@
+/**
+ * 宗教・宗派への対応（仏教各宗派・神道・キリスト教・無宗教）
+ * Geminiの出力・オーナー情報・Q&A・公式サイトの本文から対応している宗教・宗派を判定し、
+ * どの情報源で確認できたかを記録する（詳細ページでの表示と検索の絞り込みに使う）
+ *
+ * クライアント・サーバーの両方から利用する（Node専用のAPIは使わない）
+ */
+
+import type { QAndA, ReligionId, ReligionSource, ReligiousSupport, SearchResult } from '../types';
+import { findAffirmedKeyword } from './funeralServices';
+
+export interface ReligionDefinition {
+  id: ReligionId;
+  label: string;
+  // 仏教の宗派（「仏教」での絞り込みに含める）
+  buddhist: boolean;
+  keywords: string[];
+}
+
+export const RELIGIONS: ReligionDefinition[] = [
+  { id: 'any-sect', label: '宗派を問わず対応', buddhist: true, keywords: ['全宗派', '各宗派', '宗派を問わず', '宗派問わず', '宗旨宗派を問わず', 'あらゆる宗派', 'すべての宗派', '全ての宗派'] },
+  { id: 'jodo-shinshu', label: '浄土真宗', buddhist: true, keywords: ['浄土真宗', '真宗', '本願寺派', '大谷派'] },
+  { id: 'jodo', label: '浄土宗', buddhist: true, keywords: ['浄土宗'] },
+  { id: 'soto', label: '曹洞宗', buddhist: true, keywords: ['曹洞宗'] },
+  { id: 'rinzai', label: '臨済宗', buddhist: true, keywords: ['臨済宗'] },
+  { id: 'nichiren', label: '日蓮宗', buddhist: true, keywords: ['日蓮宗', '日蓮正宗'] },
+  { id: 'shingon', label: '真言宗', buddhist: true, keywords: ['真言宗'] },
+  { id: 'tendai', label: '天台宗', buddhist: true, keywords: ['天台宗'] },
+  { id: 'buddhism', label: '仏式', buddhist: true, keywords: ['仏式', '仏教葬', '仏教式'] },
+  { id: 'shinto', label: '神道（神葬祭）', buddhist: false, keywords: ['神道', '神式', '神葬祭'] },
+  { id: 'christian', label: 'キリスト教', buddhist: false, keywords: ['キリスト教', 'キリスト式', 'カトリック', 'プロテスタント', '教会葬'] },
+  { id: 'nonreligious', label: '無宗教', buddhist: false, keywords: ['無宗教', '自由葬', '宗教色のない', '宗教にとらわれない'] },
+];
+
+export const RELIGION_SOURCE_LABELS: Record<ReligionSource, string> = {
+  gemini: 'Googleマップの施設情報',
+  owner: 'オーナーからのメッセージ',
+  qanda: '質問と回答',
+  website: '公式ウェブサイト',
+};
+
+const RELIGION_IDS = RELIGIONS.map((religion) => religion.id);
+
+// 根拠として保存する抜粋の長さ（キーワードの前後）
+const EVIDENCE_CONTEXT = 20;
+
+export function isReligionId(value: unknown): value is ReligionId {
+  return typeof value === 'string' && (RELIGION_IDS as string[]).includes(value);
+}
+
+export function getReligionLabel(id: ReligionId): string {
+  return RELIGIONS.find((religion) => religion.id === id)?.label || id;
+}
+
+/**
+ * テキストから対応している宗教・宗派と根拠の抜粋を取り出す
+ * 「真宗」は「浄土真宗」と重複して数えない
+ */
+export function detectReligions(text: string | undefined | null): Array<{ religion: ReligionId; evidence: string }> {
+  if (!text) return [];
+  const normalized = text.normalize('NFKC').replace(/\s+/g, ' ');
+  const found: Array<{ religion: ReligionId; evidence: string }> = [];
+
+  for (const religion of RELIGIONS) {
+    for (const keyword of religion.keywords) {
+      const matchedIndex = findAffirmedKeyword(normalized, keyword);
+      if (matchedIndex === -1) continue;
+
+      const start = Math.max(0, matchedIndex - EVIDENCE_CONTEXT);
+      const end = Math.min(normalized.length, matchedIndex + keyword.length + EVIDENCE_CONTEXT);
+      found.push({
+        religion: religion.id,
+        evidence: `${start > 0 ? '…' : ''}${normalized.substring(start, end).trim()}${end < normalized.length ? '…' : ''}`,
+      });
+      break;
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Geminiが返した宗教・宗派名（「浄土真宗」「無宗教」など）を変換
+ */
+export function normalizeReligions(values: unknown): ReligionId[] {
+  if (!Array.isArray(values)) return [];
+  const found = new Set<ReligionId>();
+  for (const value of values) {
+    if (isReligionId(value)) {
+      found.add(value);
+    } else if (typeof value === 'string') {
+      detectReligions(value).forEach(({ religion }) => found.add(religion));
+    }
+  }
+  return Array.from(found);
+}
+
+/**
+ * 施設の情報源ごとに宗教・宗派を判定し、情報源つきでまとめる
+ * 口コミは参列者の感想で施設の対応範囲とは限らないため使わない
+ */
+export function extractReligiousSupport(
+  result: Pick<SearchResult, 'ownerInfo' | 'qanda'> & { religions?: ReligionId[] },
+  websiteText?: string | null
+): ReligiousSupport[] {
+  const supports = new Map<ReligionId, ReligiousSupport>();
+  const add = (religion: ReligionId, source: ReligionSource, evidence?: string) => {
+    const current = supports.get(religion) || { religion, sources: [] };
+    if (!current.sources.includes(source)) current.sources.push(source);
+    if (!current.evidence && evidence) current.evidence = evidence;
+    supports.set(religion, current);
+  };
+
+  (result.religions || []).forEach((religion) => add(religion, 'gemini'));
+
+  const ownerTexts = [result.ownerInfo?.message, ...(result.ownerInfo?.posts || [])];
+  ownerTexts.forEach((text) => detectReligions(text).forEach(({ religion, evidence }) => add(religion, 'owner', evidence)));
+
+  (result.qanda || []).forEach((qa: QAndA) =>
+    detectReligions(`${qa.question} ${qa.answer}`).forEach(({ religion, evidence }) => add(religion, 'qanda', evidence))
+  );
+
+  detectReligions(websiteText).forEach(({ religion, evidence }) => add(religion, 'website', evidence));
+
+  return Array.from(supports.values()).sort((a, b) => RELIGION_IDS.indexOf(a.religion) - RELIGION_IDS.indexOf(b.religion));
+}
+
+/**
+ * 施設が指定した宗教・宗派に対応しているか
+ * - buddhism（仏式）: いずれかの仏教宗派に対応していれば一致
+ * - 仏教の各宗派: その宗派か「宗派を問わず対応」なら一致
+ */
+export function supportsReligion(result: Pick<SearchResult, 'religiousSupport'>, religion: ReligionId): boolean {
+  const supported = (result.religiousSupport || []).map((support) => support.religion);
+  if (supported.includes(religion)) return true;
+
+  const definition = RELIGIONS.find((r) => r.id === religion);
+  if (!definition?.buddhist) return false;
+  if (religion === 'buddhism') {
+    return supported.some((id) => RELIGIONS.find((r) => r.id === id)?.buddhist);
+  }
+  return supported.includes('any-sect');
+}
+
+/**
+ * 指定した宗教・宗派のいずれかに対応している施設のみ残す
+ */
+export function filterByReligions<T extends Pick<SearchResult, 'religiousSupport'>>(results: T[], religions: ReligionId[]): T[] {
+  if (religions.length === 0) return results;
+  return results.filter((result) => religions.some((religion) => supportsReligion(result, religion)));
+}
+
+/**
+ * URL・APIパラメータ（"shinto,nonreligious" または配列）を宗教IDの配列に変換
+ */
+export function parseReligionsParam(value: unknown): ReligionId[] {
+  const values = Array.isArray(value)
+    ? value
+    : typeof value === 'string'
+      ? value.split(',')
+      : [];
+  return Array.from(new Set(values.map((v) => String(v).trim()).filter(isReligionId)));
+}
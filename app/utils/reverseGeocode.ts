@@ -0,0 +1,125 @@
+/**
+ * 現在地から地域（/list/{romaji} のページ）を解決する（外部APIは呼ばない）
+ *
+ * 1. regions.json の駅の座標から現在地の最寄り駅を求める（都道府県もここで決まる）
+ * 2. 現在地に近い施設の住所から市区町村を数え、regions.json にある市区町村を選ぶ
+ *    （regions.json の市区町村には座標がないため、施設の住所で補う）
+ * 3. 市区町村が決まらなければ最寄り駅の地域にする
+ *
+ * サーバー専用（stationIndex が lines.json を fs で読み込む）
+ */
+
+import municipalitiesJson from './data/municipalities.json';
+import { PREFECTURES } from './data/prefectures';
+import type { GeoPoint, NearbyArea } from '../types';
+import { findNearestStations } from './stationIndex';
+import { getRegion, type Region } from './regionRegistry';
+
+const municipalityMap: Record<string, string> = municipalitiesJson satisfies Record<string, string>;
+
+// 最寄り駅を探す範囲（これより遠ければ地域なし）
+const MAX_STATION_DISTANCE = 5000;
+
+// 市区町村の判定に使う施設の件数（近い順）
+const MAX_ADDRESSES = 5;
+
+const MUNICIPALITY_SUFFIXES = '市区町村';
+
+/**
+ * 住所から都道府県コードと市区町村名を取り出す
+ * 例: "日本、〒154-0004 東京都世田谷区太子堂1-2-3" → { prefecture: '13', name: '世田谷', label: '世田谷区' }
+ * 例: "三重県四日市市諏訪町" → { prefecture: '24', name: '四日市', label: '四日市市' }
+ * 例: "北海道虻田郡倶知安町" → { prefecture: '01', name: '倶知安', label: '倶知安町' }
+ * 政令指定都市は区ではなく市（"神奈川県横浜市港北区" → 横浜市）
+ */
+export function extractMunicipalityFromAddress(
+  address: string
+): { prefecture: string; name: string; label: string } | null {
+  const prefecture = Object.values(PREFECTURES).find((pref) => address.includes(pref.name));
+  if (!prefecture) return null;
+
+  const rest = address.slice(address.indexOf(prefecture.name) + prefecture.name.length);
+
+  // 「市」を含む地名（四日市市・市川市）があるため、番地の手前までの語尾の候補をすべて調べ、
+  // 既知の市区町村のうち最も長いものを選ぶ（"四日市市" は "四日" ではなく "四日市"）
+  let found: { prefecture: string; name: string; label: string } | null = null;
+  for (let i = 1; i < rest.length && !/[0-9０-９]/.test(rest[i]); i++) {
+    if (!MUNICIPALITY_SUFFIXES.includes(rest[i])) continue;
+    const label = rest.slice(0, i + 1).replace(/^.+?郡/, '');
+    const name = label.slice(0, -1);
+    if (name && municipalityMap[name]) {
+      found = { prefecture: prefecture.code, name, label };
+    }
+  }
+  return found;
+}
+
+/**
+ * 施設の住所（近い順）から市区町村を決める
+ * 最も多い市区町村を選び、同数なら現在地に近い施設のものを優先
+ * regions.json にない、または別の都道府県の同名エントリしかない市区町村は除く
+ */
+function findMunicipalityFromAddresses(addresses: string[]): { name: string; label: string; data: Region } | null {
+  const counts = new Map<string, { label: string; data: Region; count: number }>();
+
+  for (const address of addresses.slice(0, MAX_ADDRESSES)) {
+    const municipality = extractMunicipalityFromAddress(address);
+    if (!municipality) continue;
+
+    const data = getRegion(municipality.name);
+    if (!data?.romaji) continue;
+    if (data.prefecture && data.prefecture !== municipality.prefecture) continue;
+
+    const entry = counts.get(municipality.name);
+    if (entry) {
+      entry.count++;
+    } else {
+      counts.set(municipality.name, { label: municipality.label, data, count: 1 });
+    }
+  }
+
+  let best: { name: string; label: string; data: Region } | null = null;
+  let bestCount = 0;
+  for (const [name, entry] of counts) {
+    if (entry.count > bestCount) {
+      best = { name, label: entry.label, data: entry.data };
+      bestCount = entry.count;
+    }
+  }
+  return best;
+}
+
+/**
+ * 現在地から地域を解決（最寄り駅が MAX_STATION_DISTANCE 以内になければ null）
+ * addresses には現在地に近い順の施設の住所を渡す
+ */
+export function resolveNearbyArea(location: GeoPoint, addresses: string[] = []): NearbyArea | null {
+  const [station] = findNearestStations(location, { limit: 1, maxDistance: MAX_STATION_DISTANCE });
+  if (!station) {
+    console.log(`🧭 [ReverseGeocode] No station within ${MAX_STATION_DISTANCE}m of ${location.lat},${location.lng}`);
+    return null;
+  }
+
+  const municipality = findMunicipalityFromAddresses(addresses);
+  if (municipality) {
+    console.log(`🧭 [ReverseGeocode] ${location.lat},${location.lng} → ${municipality.label} (/list/${municipality.data.romaji})`);
+    return {
+      name: municipality.name,
+      romaji: municipality.data.romaji,
+      type: 'municipality',
+      label: municipality.label,
+      prefecture: municipality.data.prefecture || station.prefecture || null,
+      station,
+    };
+  }
+
+  console.log(`🧭 [ReverseGeocode] ${location.lat},${location.lng} → ${station.name}駅 (/list/${station.romaji})`);
+  return {
+    name: station.name,
+    romaji: station.romaji,
+    type: 'station',
+    label: `${station.name}駅`,
+    prefecture: station.prefecture || null,
+    station,
+  };
+}
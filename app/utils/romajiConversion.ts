@@ -0,0 +1,84 @@
+/**
+ * ローマ字変換のメモ化（/api/convert-romaji 用）
+ * 変換結果を romaji: 名前空間に「表記方式 + 入力テキスト」で保存し、同じテキストは Kuroshiro を通さない
+ *
+ * - 施設名・地名程度の短いテキスト（MAX_MEMOIZED_TEXT_LENGTH 文字まで）だけを保存する
+ *   （保存した結果は無期限で、Kuroshiro・辞書を更新してもスラッグを変えない）
+ * - 全件キャッシュ済みのリクエストでは Kuroshiro を初期化しない（コールドスタートで辞書を読み込まない）
+ * - キャッシュのエラーは変換を止めない（そのまま Kuroshiro で変換する）
+ * - 変換に失敗したテキストはそのテキストだけ romaji: null・error を返す（他のテキストの変換は続ける。Kuroshiro の初期化の失敗は例外）
+ */
+
+import { cacheGet, cacheSet } from './cache';
+import { convertToRomajiSlug, initKuroshiro, type RomajiStyle } from './kuroshiro';
+
+// 1テキストの最大文字数（/api/convert-romaji で検証する）
+export const MAX_ROMAJI_TEXT_LENGTH = 200;
+
+// 変換結果を保存するテキストの最大文字数
+const MAX_MEMOIZED_TEXT_LENGTH = 64;
+
+export interface RomajiConversion {
+  text: string;
+  romaji: string | null;
+  cached: boolean;
+  error?: string;
+}
+
+export function buildRomajiCacheId(text: string, style: RomajiStyle): string {
+  return `${style}:${text}`;
+}
+
+function isMemoizable(text: string): boolean {
+  return text.length <= MAX_MEMOIZED_TEXT_LENGTH;
+}
+
+/**
+ * 複数のテキストをローマ字に変換（同じテキストは1回だけ変換する）
+ * 結果は texts と同じ順
+ */
+export async function convertTextsToRomaji(texts: string[], style: RomajiStyle): Promise<RomajiConversion[]> {
+  const uniqueTexts = Array.from(new Set(texts));
+  const conversions = new Map<string, RomajiConversion>();
+
+  const cachedEntries = await Promise.all(
+    uniqueTexts.map(async (text) => ({
+      text,
+      ...(isMemoizable(text) ? await cacheGet<string>('romaji', buildRomajiCacheId(text, style)) : { value: null }),
+    }))
+  );
+
+  const misses: string[] = [];
+  for (const { text, value } of cachedEntries) {
+    if (typeof value === 'string' && value) {
+      conversions.set(text, { text, romaji: value, cached: true });
+    } else {
+      misses.push(text);
+    }
+  }
+
+  if (misses.length > 0) {
+    console.log(`🔤 [Romaji] Converting ${misses.length} texts (cached: ${uniqueTexts.length - misses.length}, style: ${style})`);
+    // 初期化の失敗はテキストごとのエラーにしない（呼び出し元に投げる）
+    await initKuroshiro();
+  }
+
+  for (const text of misses) {
+    let romaji: string;
+    try {
+      romaji = await convertToRomajiSlug(text, style);
+    } catch (err) {
+      console.warn(`⚠️ [Romaji] Failed to convert "${text.substring(0, 20)}":`, err instanceof Error ? err.message : err);
+      conversions.set(text, { text, romaji: null, cached: false, error: 'conversion failed' });
+      continue;
+    }
+
+    conversions.set(text, { text, romaji, cached: false });
+    // 空の変換結果（記号だけのテキスト）・長いテキストは保存しない
+    if (romaji && isMemoizable(text)) {
+      await cacheSet('romaji', buildRomajiCacheId(text, style), romaji);
+    }
+  }
+
+  return texts.map((text) => conversions.get(text)!);
+}
@@ -0,0 +1,204 @@
+/**
+ * 検索結果キャッシュ（stale-while-revalidate）
+ *
+ * - ソフトTTL（SEARCH_SOFT_TTL_SECONDS）以内: 新鮮なキャッシュとしてそのまま返す
+ * - ソフトTTL超過〜ハードTTL（CACHE_TTL_POLICIES.search）: stale として即座に返し、裏で再取得
+ * - ハードTTL超過: KVから消えるため通常のキャッシュミス
+ *
+ * 同一クエリの同時リクエストで Gemini を重複して呼ばないよう、
+ * インスタンス内の処理中Promise共有と lock: 名前空間の分散ロックで再取得を1本化する
+ *
+ * 更新後の処理（一覧ページの再検証・詳細ページURLの発行・公式サイト本文の取得）は
+ * completeSearchRefresh にまとめ、検索API・地域一覧ページ・ウォーミングで共通にする
+ */
+
+import { revalidatePath } from 'next/cache';
+import type { SearchResult } from '../types';
+import {
+  buildCacheKey,
+  cacheAcquireLock,
+  cacheGet,
+  cacheReleaseLock,
+  cacheSet,
+  CACHE_TTL_POLICIES,
+} from './cache';
+import { runFuneralHomeSearch, type FuneralHomeSearchOutcome } from './funeralHomeSearch';
+import { recordSearchReferences } from './facilityIndex';
+import { recordFacilityAliases } from './facilityDedup';
+import { issueMissingFacilityPaths } from './facilityPath';
+import { resolveRegionAlias } from './regionAliases';
+import { getRegion } from './regionRegistry';
+import { formatSearchQuery, parseSearchQuery } from './searchQuery';
+import { prefetchWebsiteTexts } from './websiteText';
+
+export interface CachedSearchResult {
+  results: SearchResult[];
+  query: string;
+  timestamp: number;
+  count: number;
+}
+
+// この時間を過ぎたキャッシュは stale として返しつつ再取得する
+export const SEARCH_SOFT_TTL_SECONDS = 24 * 60 * 60;
+
+// Gemini + Place Details の最大所要時間を見込んだロック時間
+const REFRESH_LOCK_TTL_SECONDS = 90;
+
+// 他インスタンスが取得中の場合に結果を待つ時間
+const LOCK_WAIT_TIMEOUT_MS = 25 * 1000;
+const LOCK_POLL_INTERVAL_MS = 1000;
+
+/**
+ * 検索クエリからキャッシュID（search: 名前空間内）を生成
+ * クエリを解析して地名・施設の種別に揃えてから、日本語のまま正規化（小文字化、空白除去）
+ * （"練馬区の葬儀社" "ねりま 家族葬" は "練馬"、"浦和市" は "浦和" と同じキャッシュ）
+ */
+export function generateSearchCacheId(query: string): string {
+  return formatSearchQuery(parseSearchQuery(query))
+    .toLowerCase()
+    .trim()
+    .replace(/\s+/g, ''); // 空白を除去
+}
+
+export function isSearchCacheStale(entry: CachedSearchResult, now: number = Date.now()): boolean {
+  return now - entry.timestamp > SEARCH_SOFT_TTL_SECONDS * 1000;
+}
+
+export interface SearchCacheLookup {
+  cacheId: string;
+  cacheKey: string;
+  entry: CachedSearchResult | null;
+  stale: boolean;
+  error: string | null;
+}
+
+export async function readSearchCache(query: string): Promise<SearchCacheLookup> {
+  const cacheId = generateSearchCacheId(query);
+  const cacheKey = buildCacheKey('search', cacheId);
+  const { value, error } = await cacheGet<CachedSearchResult>('search', cacheId);
+  return {
+    cacheId,
+    cacheKey,
+    entry: value,
+    stale: value ? isSearchCacheStale(value) : false,
+    error,
+  };
+}
+
+export interface SearchRefreshResult {
+  // refreshed: 検索してキャッシュを更新 / locked: 他で取得中のため未実行
+  status: 'refreshed' | 'locked';
+  outcome: FuneralHomeSearchOutcome | null;
+  cacheWriteError: string | null;
+}
+
+// インスタンス内で処理中の再取得（同一キーの同時リクエストで共有）
+const inflightRefreshes = new Map<string, Promise<SearchRefreshResult>>();
+
+/**
+ * 検索を実行してキャッシュを更新
+ * 同じクエリの再取得が既に走っている場合は実行しない（インスタンス内なら結果を共有）
+ */
+export function refreshSearchCache(query: string): Promise<SearchRefreshResult> {
+  const cacheId = generateSearchCacheId(query);
+  const existing = inflightRefreshes.get(cacheId);
+  if (existing) {
+    console.log(`🔁 [Cache Refresh] Joining in-flight refresh: search:${cacheId}`);
+    return existing;
+  }
+
+  const refresh = (async (): Promise<SearchRefreshResult> => {
+    const lock = await cacheAcquireLock(`search:${cacheId}`, REFRESH_LOCK_TTL_SECONDS);
+    if (!lock.acquired) {
+      console.log(`🔒 [Cache Refresh] Locked by another instance: search:${cacheId}`);
+      return { status: 'locked', outcome: null, cacheWriteError: null };
+    }
+
+    try {
+      const outcome = await runFuneralHomeSearch(query, null);
+
+      // 結果がある場合のみキャッシュ（0件で既存のキャッシュを潰さない）
+      let cacheWriteError: string | null = null;
+      if (outcome.places.length > 0) {
+        const cacheData: CachedSearchResult = {
+          results: outcome.places,
+          query,
+          timestamp: Date.now(),
+          count: outcome.places.length,
+        };
+        const { ok, error } = await cacheSet('search', cacheId, cacheData);
+        cacheWriteError = error;
+        if (ok) {
+          console.log(`💾 [Cache SAVE] key=search:${cacheId}, count=${outcome.places.length}, TTL=${CACHE_TTL_POLICIES.search}秒 (soft ${SEARCH_SOFT_TTL_SECONDS}秒)`);
+          // 施設単位の無効化のため placeId → 検索キー の逆引きを登録
+          await recordSearchReferences(buildCacheKey('search', cacheId), outcome.places);
+        }
+        // 重複施設の詳細ページを代表施設へリダイレクトできるよう統合結果を保存
+        await recordFacilityAliases(outcome.duplicates);
+      }
+
+      return { status: 'refreshed', outcome, cacheWriteError };
+    } finally {
+      await cacheReleaseLock(`search:${cacheId}`, lock);
+    }
+  })();
+
+  inflightRefreshes.set(cacheId, refresh);
+  refresh.finally(() => inflightRefreshes.delete(cacheId)).catch(() => {});
+  return refresh;
+}
+
+/**
+ * 他インスタンスが取得中のキャッシュが書き込まれるのを待つ
+ * タイムアウトした場合は null
+ */
+export async function waitForSearchCache(query: string, newerThan: number = 0): Promise<CachedSearchResult | null> {
+  const cacheId = generateSearchCacheId(query);
+  const deadline = Date.now() + LOCK_WAIT_TIMEOUT_MS;
+
+  while (Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, LOCK_POLL_INTERVAL_MS));
+    const { value } = await cacheGet<CachedSearchResult>('search', cacheId);
+    if (value && value.timestamp > newerThan) {
+      return value;
+    }
+  }
+  return null;
+}
+
+/**
+ * 検索キャッシュ更新後、その地域の一覧ページ（ISR）を再生成させる
+ * 地域名でない検索（"練馬 斎場" など）は一覧ページがないため何もしない
+ * Next.js の外（CLIのウォーミング）では再検証できないため警告のみ
+ */
+export function revalidateRegionListPage(query: string): void {
+  const region = getRegion(query) || resolveRegionAlias(query)?.region;
+  if (!region?.romaji) return;
+
+  try {
+    revalidatePath(`/list/${region.romaji}`);
+    console.log(`♻️ [ISR] Revalidated /list/${region.romaji}`);
+  } catch (err) {
+    console.warn(`⚠️ [ISR] Could not revalidate /list/${region.romaji}:`, err instanceof Error ? err.message : err);
+  }
+}
+
+/**
+ * 検索キャッシュを更新した後の処理（refreshSearchCache の結果を渡す）
+ * - 地域の一覧ページを再検証する
+ * - 未発行の施設の詳細ページURLを発行する
+ * - 公式サイト本文を取得する（次回の更新から葬儀形式・宗教宗派の判定に使う）
+ *
+ * 他で取得中（locked）・0件の場合は何もしない。リクエスト中はレスポンス返却後（after）に呼ぶ
+ */
+export async function completeSearchRefresh(query: string, refreshed: SearchRefreshResult): Promise<void> {
+  const places = refreshed.outcome?.places || [];
+  if (refreshed.status !== 'refreshed' || places.length === 0) return;
+
+  revalidateRegionListPage(query);
+
+  const issued = await issueMissingFacilityPaths(places);
+  if (issued > 0) console.log(`🔗 [Facility Path] Issued ${issued} paths for search:${generateSearchCacheId(query)}`);
+
+  await prefetchWebsiteTexts(places);
+}
@@ -0,0 +1,314 @@
+/**
+ * 検索結果のページングとサブエリア展開
+ *
+ * Gemini（googleMapsツール）は1回の検索で20件未満しか返さないことが多く、
+ * 世田谷区のような大きな市区町村では結果が途中で切れてしまう。
+ * 2ページ目以降が必要になったら、同じ市区町村内のサブエリア（町域・駅）でも検索し、
+ * placeId で重複を除いて1つの一覧に連結する。
+ *
+ * - サブエリア: 1ページ目の施設住所から市区町村内の町域を抽出
+ *   （regions.json の同じ都道府県の駅名と一致する町域は駅として優先）
+ * - 連結順: 元の検索結果 → サブエリア（駅 → 出現数の多い町域 → 名前順）
+ *   別の検索で別placeIdとして見つかった同一施設は代表施設に統合する
+ * - カーソル: 直前のページ末尾の placeId と位置（一覧が再取得で変わっても続きから表示できる）
+ */
+
+import type { Availability, FuneralService, ReligionId, SearchResult } from '../types';
+import { generateSearchCacheId, readSearchCache, refreshSearchCache } from './searchCache';
+import { dedupeFacilities, recordFacilityAliases, type FacilityCluster } from './facilityDedup';
+import { normalizePlaceId } from './facilityIndex';
+import { filterByFuneralServices } from './funeralServices';
+import { filterByReligions } from './religiousSupport';
+import { filterByAvailability } from './openingHours';
+import { getRegion } from './regionRegistry';
+import { isPlainLocationQuery, parseSearchQuery } from './searchQuery';
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 50;
+
+// 展開するサブエリアの上限
+const MAX_SUB_AREAS = 12;
+// 1リクエストで新たに検索するサブエリアの上限（Gemini呼び出しは1件10〜30秒かかる）
+const MAX_FANOUT_PER_REQUEST = 2;
+// 住所の過半数がこの市区町村を含む場合のみ展開する
+const MUNICIPALITY_MATCH_RATIO = 0.5;
+
+export interface SubArea {
+  name: string;      // 町域名・駅名（例: 経堂）
+  query: string;     // 検索クエリ（例: 世田谷区経堂）
+  kind: 'station' | 'town';
+  count: number;     // 1ページ目の住所に出現した回数
+}
+
+export interface SearchCursor {
+  q: string;        // キャッシュID（別クエリのカーソルの使い回し検出用）
+  a: string | null; // 直前のページ末尾の placeId
+  o: number;        // 次のページの開始位置
+}
+
+export function encodeSearchCursor(cursor: SearchCursor): string {
+  return Buffer.from(JSON.stringify(cursor), 'utf8').toString('base64url');
+}
+
+export function decodeSearchCursor(value: string): SearchCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (typeof parsed?.q !== 'string' || typeof parsed?.o !== 'number' || parsed.o < 0) return null;
+    return { q: parsed.q, a: typeof parsed.a === 'string' ? parsed.a : null, o: Math.floor(parsed.o) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 住所から「市区町村名（接尾辞付き）」と町域を取り出す
+ * 例: ("東京都世田谷区経堂2丁目3-4", "世田谷") → { municipality: "世田谷区", town: "経堂" }
+ * 政令市は区を町域として扱う（例: "横浜市港北区日吉本町" → town: "港北区"）
+ */
+export function extractTownFromAddress(address: string, name: string): { municipality: string; town: string } | null {
+  const normalized = address.normalize('NFKC').replace(/^〒?\d{3}-?\d{4}\s*/, '').replace(/^日本、?\s*/, '');
+  const match = normalized.match(new RegExp(`${name}([市区町村])(.*)$`));
+  if (!match) return null;
+
+  const municipality = `${name}${match[1]}`;
+  let rest = match[2].trim().replace(/^大字/, '');
+
+  const ward = rest.match(/^(.{1,4}?区)/);
+  if (match[1] === '市' && ward) {
+    return { municipality, town: ward[1] };
+  }
+
+  rest = rest.replace(/(?:[0-9一二三四五六七八九十]+丁目|[0-9]|番地|字).*$/, '').trim();
+  if (!rest || rest.length > 8) return null;
+  return { municipality, town: rest };
+}
+
+/**
+ * 1ページ目の検索結果からサブエリアを抽出
+ * 住所の過半数が同じ市区町村でなければ（駅名・施設名での検索など）展開しない
+ */
+export function extractSubAreas(name: string, results: SearchResult[]): SubArea[] {
+  const towns = new Map<string, number>();
+  const municipalities = new Map<string, number>();
+  let matched = 0;
+
+  for (const result of results) {
+    if (!result.address) continue;
+    const extracted = extractTownFromAddress(result.address, name);
+    if (!extracted) continue;
+    matched++;
+    municipalities.set(extracted.municipality, (municipalities.get(extracted.municipality) || 0) + 1);
+    towns.set(extracted.town, (towns.get(extracted.town) || 0) + 1);
+  }
+
+  if (results.length === 0 || matched / results.length < MUNICIPALITY_MATCH_RATIO) {
+    return [];
+  }
+
+  const municipality = Array.from(municipalities.entries()).sort((a, b) => b[1] - a[1])[0][0];
+  const prefecture = getRegion(name)?.prefecture;
+
+  const subAreas: SubArea[] = Array.from(towns.entries()).map(([town, count]) => {
+    const region = getRegion(town);
+    const isStation = region?.type === 'station' && (!prefecture || region.prefecture === prefecture);
+    return {
+      name: town,
+      query: `${municipality}${town}`,
+      kind: isStation ? 'station' : 'town',
+      count,
+    };
+  });
+
+  return subAreas
+    .sort((a, b) =>
+      (a.kind === b.kind ? 0 : a.kind === 'station' ? -1 : 1) ||
+      b.count - a.count ||
+      a.name.localeCompare(b.name, 'ja')
+    )
+    .slice(0, MAX_SUB_AREAS);
+}
+
+/**
+ * placeId で重複を除いて連結（先に出現したものを優先）
+ * 統合済みの施設（aliases）も同じ施設として扱い、検索をまたいだ重複は代表施設に統合する
+ */
+export function mergeResultsByPlaceId(lists: SearchResult[][]): { results: SearchResult[]; duplicates: FacilityCluster[] } {
+  const seen = new Set<string>();
+  const merged: SearchResult[] = [];
+  for (const list of lists) {
+    for (const result of list) {
+      const key = result.placeId ? normalizePlaceId(result.placeId) : `title:${result.title}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      (result.aliases || []).forEach((alias) => seen.add(alias));
+      merged.push(result);
+    }
+  }
+  const { results, clusters } = dedupeFacilities(merged);
+  return { results, duplicates: clusters };
+}
+
+export interface PaginatedSearch {
+  items: SearchResult[];
+  page: number;
+  pageSize: number;
+  offset: number;
+  total: number;        // 現時点で取得済みの件数
+  hasMore: boolean;
+  nextCursor: string | null;
+  subAreas: { total: number; searched: string[]; remaining: string[] };
+}
+
+/**
+ * 検索結果の絞り込み条件
+ * - services: 指定した葬儀形式にすべて対応
+ * - religions: 指定した宗教・宗派のいずれかに対応
+ * - availability: 今すぐ連絡可能・24時間対応（リクエスト時点の日本時間で判定）
+ */
+export interface SearchFilters {
+  services?: FuneralService[];
+  religions?: ReligionId[];
+  availability?: Availability[];
+}
+
+export function applySearchFilters<T extends SearchResult>(results: T[], filters: SearchFilters): T[] {
+  const byServices = filterByFuneralServices(results, filters.services || []);
+  const byReligions = filterByReligions(byServices, filters.religions || []);
+  return filterByAvailability(byReligions, filters.availability || []);
+}
+
+export function hasSearchFilters(filters: SearchFilters): boolean {
+  return (filters.services?.length || 0) > 0 ||
+    (filters.religions?.length || 0) > 0 ||
+    (filters.availability?.length || 0) > 0;
+}
+
+export interface PaginationOptions extends SearchFilters {
+  page?: number;
+  pageSize?: number;
+  cursor?: string | null;
+  // false: キャッシュ済みのサブエリアのみ連結し、新たな検索はしない
+  allowSearch?: boolean;
+  // 次ページのリクエストでサブエリアを検索できるか（既定は allowSearch と同じ）
+  // false なら未検索のサブエリアだけでは hasMore にしない
+  nextAllowsSearch?: boolean;
+  // false: サブエリアを展開せず元の検索結果のみをページングする（現在地検索など）
+  expandSubAreas?: boolean;
+}
+
+/**
+ * 検索結果をページングして返す
+ * 要求されたページに件数が足りなければサブエリアを検索して追加する
+ *
+ * @param baseResults 元のクエリの検索結果（キャッシュ済み）
+ */
+export async function paginateSearchResults(
+  query: string,
+  baseResults: SearchResult[],
+  options: PaginationOptions = {}
+): Promise<PaginatedSearch> {
+  const pageSize = Math.min(Math.max(options.pageSize || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const cacheId = generateSearchCacheId(query);
+  const cursor = options.cursor ? decodeSearchCursor(options.cursor) : null;
+  const validCursor = cursor && cursor.q === cacheId ? cursor : null;
+  const page = Math.max(options.page || 1, 1);
+  const allowSearch = options.allowSearch !== false;
+  const nextAllowsSearch = options.nextAllowsSearch ?? allowSearch;
+
+  // サブエリアは葬儀社の地名検索のみ展開（斎場・火葬場の検索に葬儀社の結果を混ぜない）
+  const parsed = parseSearchQuery(query);
+  const subAreas = options.expandSubAreas === false || !isPlainLocationQuery(parsed)
+    ? []
+    : extractSubAreas(parsed.region?.name || parsed.location!, baseResults);
+  const subResults = new Map<string, SearchResult[]>();
+
+  // キャッシュ済みのサブエリアは常に連結（検索コストなし）
+  await Promise.all(subAreas.map(async (area) => {
+    const { entry } = await readSearchCache(area.query);
+    if (entry) subResults.set(area.query, entry.results);
+  }));
+
+  let duplicates: FacilityCluster[] = [];
+  const buildMerged = () => {
+    const built = mergeResultsByPlaceId([
+      baseResults,
+      ...subAreas.filter((area) => subResults.has(area.query)).map((area) => subResults.get(area.query)!),
+    ]);
+    duplicates = built.duplicates;
+    // 絞り込みは連結・重複統合の後に行う
+    return applySearchFilters(built.results, options);
+  };
+
+  let merged = buildMerged();
+
+  // 開始位置: カーソル（直前の末尾 placeId の次）→ ページ番号
+  const resolveOffset = () => {
+    if (validCursor) {
+      if (validCursor.a) {
+        const index = merged.findIndex((r) =>
+          (r.placeId && normalizePlaceId(r.placeId) === validCursor.a) || (r.aliases || []).includes(validCursor.a!)
+        );
+        if (index !== -1) return index + 1;
+      }
+      return validCursor.o;
+    }
+    return (page - 1) * pageSize;
+  };
+
+  // 次ページの有無を判定できるよう1件多く確保する
+  // 他のリクエストが検索中のサブエリア（今回のリクエストでは再度選ばない）
+  const skipped = new Set<string>();
+  let fanouts = 0;
+  while (allowSearch && merged.length <= resolveOffset() + pageSize && fanouts < MAX_FANOUT_PER_REQUEST) {
+    const next = subAreas.find((area) => !subResults.has(area.query) && !skipped.has(area.query));
+    if (!next) break;
+    fanouts++;
+
+    try {
+      const { status, outcome } = await refreshSearchCache(next.query);
+      if (status === 'refreshed' && outcome) {
+        subResults.set(next.query, outcome.places);
+      } else {
+        // 他のリクエストが検索中: 今回は連結せず次回に回す
+        const { entry } = await readSearchCache(next.query);
+        if (!entry) {
+          skipped.add(next.query);
+          continue;
+        }
+        subResults.set(next.query, entry.results);
+      }
+      console.log(`🧭 [Pagination] Fan-out "${next.query}" (${next.kind}): ${subResults.get(next.query)!.length}件`);
+    } catch (err) {
+      console.warn(`[Pagination] Fan-out failed for "${next.query}":`, err);
+      subResults.set(next.query, []);
+    }
+    merged = buildMerged();
+  }
+
+  if (duplicates.length > 0) {
+    await recordFacilityAliases(duplicates);
+  }
+
+  const offset = Math.min(resolveOffset(), merged.length);
+  const items = merged.slice(offset, offset + pageSize);
+  const remaining = subAreas.filter((area) => !subResults.has(area.query)).map((area) => area.query);
+  const hasMore = merged.length > offset + items.length || (nextAllowsSearch && remaining.length > 0);
+  const last = items[items.length - 1];
+
+  return {
+    items,
+    page: validCursor ? Math.floor(offset / pageSize) + 1 : page,
+    pageSize,
+    offset,
+    total: merged.length,
+    hasMore,
+    nextCursor: hasMore
+      ? encodeSearchCursor({ q: cacheId, a: last?.placeId ? normalizePlaceId(last.placeId) : null, o: offset + items.length })
+      : null,
+    subAreas: {
+      total: subAreas.length,
+      searched: subAreas.filter((area) => subResults.has(area.query)).map((area) => area.query),
+      remaining,
+    },
+  };
+}
@@ -0,0 +1,242 @@
+/**
+ * 手動検索のクエリ解析
+ * 入力を「地名（regions.json）・施設の種別・葬儀形式・その他の語」に分け、
+ * 検索キャッシュのキー・Geminiへのプロンプト・絞り込み条件をこの解析結果から決める
+ *
+ * 例: "練馬区 葬儀" / "練馬区の葬儀社" / "ねりま 家族葬" → 地域: 練馬（"ねりま 家族葬" は葬儀形式: 家族葬 で絞り込み）
+ * 例: "浦和市の斎場" → 地域: 浦和、種別: 斎場
+ * 例: "nerima 家族葬" → 地域: 練馬（ローマ字の地名）
+ *
+ * - 葬儀形式は同じ地域の検索結果を絞り込む条件のため、キャッシュのキー・プロンプトには含めない
+ * - 「葬儀社」は既定の検索対象（葬儀社または斎場）と同じため、キャッシュのキーには含めない
+ *
+ * クライアント・サーバーの両方から利用する
+ */
+
+import type { FacilityType, FuneralService } from '../types';
+import { FUNERAL_SERVICES } from './funeralServices';
+import { KANA_ROMAJI_MAP } from './data/kanaRomaji';
+import { PREFECTURES } from './data/prefectures';
+import { getRegion, getRegionByKana, getRegionByRomaji, isMunicipality, type Region } from './regionRegistry';
+import { resolveRegionAlias } from './regionAliases';
+
+export interface FacilityTypeDefinition {
+  id: FacilityType;
+  label: string;
+  // プロンプトで検索対象として指定する表現
+  promptLabel: string;
+  keywords: string[];
+}
+
+export const FACILITY_TYPES: FacilityTypeDefinition[] = [
+  { id: 'funeral_home', label: '葬儀社', promptLabel: '葬儀社または斎場', keywords: ['葬儀社', '葬儀屋', '葬儀会社', '葬祭業者', '葬祭', 'お葬式', '葬儀'] },
+  { id: 'hall', label: '斎場', promptLabel: '斎場（葬儀場・セレモニーホール）', keywords: ['斎場', '葬儀場', '葬儀会館', '葬祭場', 'セレモニーホール'] },
+  { id: 'crematorium', label: '火葬場', promptLabel: '火葬場', keywords: ['火葬場'] },
+];
+
+export interface ParsedSearchQuery {
+  raw: string;
+  // 入力中の地名（例: "練馬区"、"浦和市"、"ねりま"）
+  location: string | null;
+  // regions.json で解決できた地域
+  region: Region | null;
+  facilityType: FacilityType | null;
+  services: FuneralService[];
+  // 地名・施設の種別・葬儀形式以外の語（プロンプトとキャッシュのキーに含める）
+  keywords: string[];
+}
+
+// 位置や検索の意図を表すだけで、検索条件にならない語
+const NOISE_WORDS = ['周辺', '付近', '近辺', '近隣', '近く', '界隈', 'エリア', 'あたり', '辺り', '一覧', 'おすすめ', 'オススメ', 'ランキング', '比較', '検索', '探し'];
+
+// 語の後ろに付く助詞（"練馬区の" "練馬で" "駅前にある"）
+const TRAILING_PARTICLE_PATTERN = /(?:の|で|にある|にて)$/;
+
+const KANA_PATTERN = /^[ぁ-んァ-ヶー]+$/;
+const ROMAJI_PATTERN = /^[a-z]+$/i;
+
+const SMALL_KANA: Record<string, string> = { 'ゃ': 'ya', 'ゅ': 'yu', 'ょ': 'yo', 'ャ': 'ya', 'ュ': 'yu', 'ョ': 'yo' };
+
+// 長い表記から先に照合する（"葬儀場" を "葬儀" として扱わない）
+const byLengthDesc = (a: { keyword: string }, b: { keyword: string }) => b.keyword.length - a.keyword.length;
+
+const SERVICE_KEYWORDS = FUNERAL_SERVICES
+  .flatMap((service) => service.keywords.map((keyword) => ({ keyword, id: service.id })))
+  .sort(byLengthDesc);
+
+const FACILITY_KEYWORDS = FACILITY_TYPES
+  .flatMap((type) => type.keywords.map((keyword) => ({ keyword, id: type.id })))
+  .sort(byLengthDesc);
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * かな表記の地名をローマ字に変換（拗音・促音を含む、かな以外を含めば null）
+ * 例: "ねりま" → "nerima"、"とうきょう" → "toukyou"
+ */
+export function kanaToRomaji(text: string): string | null {
+  if (!KANA_PATTERN.test(text)) return null;
+  const chars = Array.from(text);
+  let result = '';
+
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i];
+    const small = SMALL_KANA[char];
+    if (small) {
+      // "しゃ" → sha、"きゃ" → kya
+      result = /(?:sh|ch|j)i$/.test(result) ? result.slice(0, -1) + small.slice(1) : result.replace(/i$/, '') + small;
+      continue;
+    }
+    if (char === 'っ' || char === 'ッ') {
+      const next = KANA_ROMAJI_MAP[chars[i + 1]];
+      if (next) result += next.startsWith('ch') ? 't' : next[0];
+      continue;
+    }
+    const romaji = KANA_ROMAJI_MAP[char];
+    if (romaji === undefined) return null;
+    result += romaji;
+  }
+  return result;
+}
+
+/**
+ * 地名を regions.json の地域に解決
+ * 地域名 → 別名（旧市町村名など）→「市」「区」「駅」などを除いた地域名 → ローマ字表記（"nerima"）→ かな表記（読み → ローマ字で照合）
+ * 「区」は東京23区のみ（"中央区" を山梨県中央市にしない）
+ */
+function resolveLocation(text: string): Region | null {
+  const region = getRegion(text);
+  if (region?.romaji) return region;
+
+  const alias = resolveRegionAlias(text);
+  if (alias) return alias.region;
+
+  const suffixed = text.match(/^(.+)([市区町村駅])$/);
+  if (suffixed) {
+    const [, name, suffix] = suffixed;
+    const candidate = getRegion(name);
+    if (candidate?.romaji) {
+      if (suffix === '駅' && candidate.type === 'station') return candidate;
+      if (suffix === '区' && candidate.prefecture === '13' && isMunicipality(candidate)) return candidate;
+      if ('市町村'.includes(suffix) && isMunicipality(candidate)) return candidate;
+    }
+  }
+
+  // ローマ字の地名は /list/{romaji} と同じ表記で照合する（"nerima" → 練馬）
+  if (ROMAJI_PATTERN.test(text)) {
+    return getRegionByRomaji(text.toLowerCase());
+  }
+
+  if (KANA_PATTERN.test(text)) {
+    const byKana = getRegionByKana(text);
+    if (byKana) return byKana;
+  }
+
+  // 読みのない地域はローマ字で照合する
+  const romaji = kanaToRomaji(text);
+  if (romaji) {
+    // 長音は regions.json のローマ字では省かれている（"toukyou" → "tokyo"）
+    const collapsed = romaji.replace(/ou/g, 'o').replace(/oo/g, 'o').replace(/uu/g, 'u');
+    return getRegionByRomaji(romaji) || getRegionByRomaji(collapsed);
+  }
+  return null;
+}
+
+function isPrefectureName(text: string, code: string | undefined): boolean {
+  const prefecture = code ? PREFECTURES[code] : null;
+  return !!prefecture && (text === prefecture.name || text === prefecture.name.replace(/[都府県]$/, ''));
+}
+
+/**
+ * 検索クエリを解析
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const raw = query.trim();
+  let text = raw.normalize('NFKC');
+
+  // 葬儀形式（"家族葬"）→ 施設の種別（"斎場"）の順に取り出す（"火葬式" を "火葬場" と取り違えない）
+  const services = new Set<FuneralService>();
+  for (const { keyword, id } of SERVICE_KEYWORDS) {
+    const pattern = new RegExp(escapeRegExp(keyword), 'g');
+    if (pattern.test(text)) {
+      services.add(id);
+      text = text.replace(pattern, ' ');
+    }
+  }
+
+  const facilityTypes: FacilityType[] = [];
+  for (const { keyword, id } of FACILITY_KEYWORDS) {
+    const pattern = new RegExp(escapeRegExp(keyword), 'g');
+    if (pattern.test(text)) {
+      facilityTypes.push(id);
+      text = text.replace(pattern, ' ');
+    }
+  }
+  // 斎場・火葬場の指定は「葬儀」などの一般的な語より優先
+  const facilityType = facilityTypes.find((type) => type !== 'funeral_home') || facilityTypes[0] || null;
+
+  for (const word of NOISE_WORDS) {
+    text = text.split(word).join(' ');
+  }
+
+  const tokens = text
+    .split(/\s+/)
+    .map((token) => token.replace(TRAILING_PARTICLE_PATTERN, ''))
+    .filter(Boolean);
+
+  // 続けて書かれた地名（"東京都 練馬区"）→ 語ごとの順に地域を探す
+  let location: string | null = null;
+  let region: Region | null = null;
+  let keywords: string[] = [];
+
+  const joined = tokens.join('');
+  const joinedRegion = tokens.length > 1 ? resolveLocation(joined) : null;
+  if (joinedRegion) {
+    location = joined;
+    region = joinedRegion;
+  } else {
+    const index = tokens.findIndex((token) => resolveLocation(token));
+    if (index !== -1) {
+      location = tokens[index];
+      region = resolveLocation(location);
+      keywords = tokens.filter((token, i) => i !== index && !isPrefectureName(token, region!.prefecture));
+    } else if (tokens.length > 0) {
+      // 地域として解決できない地名・施設名はそのまま検索する
+      location = tokens.join(' ');
+    }
+  }
+
+  const sortedServices = FUNERAL_SERVICES.map((service) => service.id).filter((id) => services.has(id));
+  return { raw, location, region, facilityType, services: sortedServices, keywords };
+}
+
+/**
+ * Gemini の検索とキャッシュに使う正規化済みのクエリ
+ * 例: "練馬区の葬儀社" → "練馬"、"浦和市の斎場" → "浦和 斎場"、"ねりま 家族葬" → "練馬"
+ */
+export function formatSearchQuery(parsed: ParsedSearchQuery): string {
+  const parts = [parsed.region?.name || parsed.location, ...parsed.keywords].filter(Boolean) as string[];
+  if (parsed.facilityType && parsed.facilityType !== 'funeral_home') {
+    parts.push(getFacilityTypeLabel(parsed.facilityType));
+  }
+  // 葬儀形式や「葬儀社」だけの入力はそのまま
+  return parts.length > 0 ? parts.join(' ') : parsed.raw;
+}
+
+/**
+ * 地名だけの検索（施設の種別・その他の語の指定がない）か
+ * サブエリア展開・地域一覧ページとキャッシュを共有できるのはこの場合のみ
+ */
+export function isPlainLocationQuery(parsed: ParsedSearchQuery): boolean {
+  return !!parsed.location &&
+    parsed.keywords.length === 0 &&
+    (!parsed.facilityType || parsed.facilityType === 'funeral_home');
+}
+
+export function getFacilityTypeLabel(id: FacilityType): string {
+  return FACILITY_TYPES.find((type) => type.id === id)?.label || id;
+}
+
+export function getFacilityTypePromptLabel(id: FacilityType | null): string {
+  return FACILITY_TYPES.find((type) => type.id === (id || 'funeral_home'))!.promptLabel;
+}
@@ -0,0 +1,352 @@
+/**
+ * 葬儀社検索レスポンスのパーサー
+ * Geminiの応答テキストから施設ごとの詳細情報を抽出する
+ *
+ * 優先順位:
+ * 1. スキーマに沿ったJSON（ランタイム検証あり）
+ * 2. 旧フォーマットのMarkdown（###見出し）- フォールバック
+ *
+ * 注: googleMapsツール使用時は responseSchema / responseMimeType を併用できないため、
+ * スキーマはプロンプトで指示し、受信側で検証する
+ */
+
+import type { FuneralService, OwnerInfo, QAndA, ReligionId } from '../types';
+import { normalizeFuneralServices } from './funeralServices';
+import { normalizeReligions } from './religiousSupport';
+
+export interface ParsedDetails {
+  address?: string;
+  phone?: string;
+  rating?: number;
+  reviewCount?: number;
+  reviews?: string[];
+  qanda?: QAndA[];
+  ownerInfo?: OwnerInfo;
+  services?: FuneralService[];
+  religions?: ReligionId[];
+}
+
+export type ParseSource = 'json' | 'markdown' | 'none';
+
+export interface ParsedSearchResponse {
+  source: ParseSource;
+  detailsMap: Map<string, ParsedDetails>;
+  invalidEntries: number; // JSONのうち検証で除外された件数
+}
+
+/**
+ * パース経路ごとの利用回数（インスタンス単位）
+ * JSONが守られているか、Markdownフォールバックがどれだけ発生しているかの監視用
+ */
+export interface ParseStats {
+  json: number;
+  markdown: number;
+  none: number;
+  jsonInvalid: number; // JSONは見つかったが検証に失敗した回数
+}
+
+const parseStats: ParseStats = {
+  json: 0,
+  markdown: 0,
+  none: 0,
+  jsonInvalid: 0,
+};
+
+export function getParseStats(): ParseStats {
+  return { ...parseStats };
+}
+
+/**
+ * プロンプトに埋め込むJSONスキーマ（説明用）
+ */
+export const FACILITY_JSON_SCHEMA = `{
+  "facilities": [
+    {
+      "name": "施設の正式名称（日本語）",
+      "address": "都道府県から始まる完全な住所（日本語）",
+      "phone": "市外局番から始まる電話番号",
+      "rating": 4.2,
+      "reviewCount": 35,
+      "reviews": ["代表的な口コミ1", "代表的な口コミ2"],
+      "services": ["家族葬", "一日葬"],
+      "religions": ["浄土真宗", "無宗教"],
+      "qanda": [{ "question": "質問", "answer": "回答" }],
+      "ownerInfo": { "message": "オーナーからのメッセージ", "posts": ["オーナーからの投稿1"] }
+    }
+  ]
+}`;
+
+const NO_INFO = '情報なし';
+
+// ========== ランタイム検証 ==========
+
+function asText(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const trimmed = value.trim();
+  if (!trimmed || trimmed === NO_INFO) return undefined;
+  return trimmed;
+}
+
+function asNumber(value: unknown): number | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string') {
+    const parsed = parseFloat(value.replace(/[,，件]/g, ''));
+    if (!isNaN(parsed)) return parsed;
+  }
+  return undefined;
+}
+
+function asTextArray(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((item) => asText(item))
+    .filter((item): item is string => !!item)
+    .map((item) => item.replace(/^「|」$/g, ''));
+}
+
+function asQandA(value: unknown): QAndA[] {
+  if (!Array.isArray(value)) return [];
+  const result: QAndA[] = [];
+  for (const item of value) {
+    if (!item || typeof item !== 'object') continue;
+    const question = asText((item as any).question);
+    const answer = asText((item as any).answer);
+    if (question && answer) {
+      result.push({ question, answer });
+    }
+  }
+  return result;
+}
+
+function asOwnerInfo(value: unknown): OwnerInfo {
+  if (!value || typeof value !== 'object') {
+    return { posts: [] };
+  }
+  return {
+    message: asText((value as any).message),
+    posts: asTextArray((value as any).posts),
+  };
+}
+
+/**
+ * 1施設分のJSONを検証して ParsedDetails に変換
+ * 施設名がない場合は null（その施設は除外）
+ */
+export function validateFacilityEntry(value: unknown): { name: string; details: ParsedDetails } | null {
+  if (!value || typeof value !== 'object') return null;
+
+  const entry = value as Record<string, unknown>;
+  const name = asText(entry.name);
+  if (!name) return null;
+
+  const rating = asNumber(entry.rating);
+  const reviewCount = asNumber(entry.reviewCount);
+
+  return {
+    name,
+    details: {
+      address: asText(entry.address),
+      phone: asText(entry.phone),
+      rating: rating !== undefined && rating >= 0 && rating <= 5 ? rating : undefined,
+      reviewCount: reviewCount !== undefined && reviewCount >= 0 ? Math.round(reviewCount) : undefined,
+      reviews: asTextArray(entry.reviews),
+      qanda: asQandA(entry.qanda),
+      ownerInfo: asOwnerInfo(entry.ownerInfo),
+      services: normalizeFuneralServices(entry.services),
+      religions: normalizeReligions(entry.religions),
+    },
+  };
+}
+
+/**
+ * 応答テキストからJSON部分を取り出す
+ * ```json フェンス → 最初の { から最後の } の順で試行
+ */
+function extractJsonText(text: string): string | null {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  if (fenced && fenced[1].trim().startsWith('{')) {
+    return fenced[1].trim();
+  }
+
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start !== -1 && end > start) {
+    return text.substring(start, end + 1);
+  }
+  return null;
+}
+
+/**
+ * JSON形式の応答をパース
+ * JSONが見つからない・スキーマに合わない場合は null
+ */
+export function parseDetailsFromJson(text: string): { detailsMap: Map<string, ParsedDetails>; invalidEntries: number } | null {
+  if (!text) return null;
+
+  const jsonText = extractJsonText(text);
+  if (!jsonText) return null;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(jsonText);
+  } catch {
+    return null;
+  }
+
+  const facilities = (parsed as any)?.facilities;
+  if (!Array.isArray(facilities)) return null;
+
+  const detailsMap = new Map<string, ParsedDetails>();
+  let invalidEntries = 0;
+
+  for (const item of facilities) {
+    const validated = validateFacilityEntry(item);
+    if (!validated) {
+      invalidEntries++;
+      continue;
+    }
+    detailsMap.set(validated.name, validated.details);
+  }
+
+  return { detailsMap, invalidEntries };
+}
+
+/**
+ * 旧フォーマット（###見出しのMarkdown）の応答をパース
+ * JSONが返らなかった場合のフォールバック
+ */
+export const parseDetailsFromMarkdown = (markdown: string): Map<string, ParsedDetails> => {
+  const detailsMap = new Map<string, ParsedDetails>();
+  if (!markdown) {
+    return detailsMap;
+  }
+
+  const sections = markdown.split('### ').slice(1);
+
+  for (const section of sections) {
+    const lines = section.split('\n');
+    const title = lines[0]?.trim();
+    if (!title) continue;
+
+    const details: ParsedDetails = {
+      reviews: [],
+      qanda: [],
+      ownerInfo: {
+        posts: [],
+      },
+    };
+
+    let currentQandA: Partial<QAndA> = {};
+    let readingReviews = false;
+    let readingQandA = false;
+    let readingOwnerMessage = false;
+    let readingOwnerPosts = false;
+
+    for (const line of lines.slice(1)) {
+      const trimmedLine = line.trim();
+
+      if (trimmedLine.startsWith('- **住所:**')) {
+        const value = trimmedLine.replace('- **住所:**', '').trim();
+        if (value !== NO_INFO) details.address = value;
+        readingReviews = false; readingQandA = false;
+      } else if (trimmedLine.startsWith('- **電話番号:**')) {
+        const value = trimmedLine.replace('- **電話番号:**', '').trim();
+        if (value !== NO_INFO) details.phone = value;
+        readingReviews = false; readingQandA = false;
+      } else if (trimmedLine.startsWith('- **評価:**')) {
+        const ratingStr = trimmedLine.replace('- **評価:**', '').trim();
+        const rating = parseFloat(ratingStr);
+        if (!isNaN(rating)) details.rating = rating;
+        readingReviews = false; readingQandA = false;
+      } else if (trimmedLine.startsWith('- **レビュー数:**')) {
+        const countStr = trimmedLine.replace('- **レビュー数:**', '').trim();
+        const count = parseInt(countStr, 10);
+        if (!isNaN(count)) details.reviewCount = count;
+        readingReviews = false; readingQandA = false;
+      } else if (trimmedLine.startsWith('- **口コミ:**')) {
+        readingReviews = true;
+        readingQandA = false;
+      } else if (trimmedLine.startsWith('- **Q&A:**')) {
+        readingReviews = false;
+        readingQandA = true;
+        readingOwnerMessage = false;
+        readingOwnerPosts = false;
+      } else if (trimmedLine.startsWith('- **オーナーからのメッセージ:**')) {
+        const message = trimmedLine.replace('- **オーナーからのメッセージ:**', '').trim();
+        if (message && message !== NO_INFO && details.ownerInfo) {
+          details.ownerInfo.message = message;
+        }
+        readingReviews = false;
+        readingQandA = false;
+        readingOwnerMessage = true;
+        readingOwnerPosts = false;
+      } else if (trimmedLine.startsWith('- **オーナーからの投稿:**')) {
+        readingReviews = false;
+        readingQandA = false;
+        readingOwnerMessage = false;
+        readingOwnerPosts = true;
+      } else if (readingReviews && trimmedLine.startsWith('- ')) {
+        const reviewText = trimmedLine.substring(2).trim().replace(/^「|」$/g, '');
+        if (reviewText !== NO_INFO) {
+          details.reviews?.push(reviewText);
+        }
+      } else if (readingQandA && trimmedLine.startsWith('- **Q:**')) {
+        if (currentQandA.question && currentQandA.answer) {
+          details.qanda?.push(currentQandA as QAndA);
+        }
+        const questionText = trimmedLine.replace('- **Q:**', '').trim();
+        if (questionText !== NO_INFO) {
+          currentQandA = { question: questionText };
+        } else {
+          currentQandA = {};
+        }
+      } else if (readingQandA && trimmedLine.startsWith('- **A:**') && currentQandA.question) {
+        currentQandA.answer = trimmedLine.replace('- **A:**', '').trim();
+        details.qanda?.push(currentQandA as QAndA);
+        currentQandA = {};
+      } else if (readingOwnerPosts && trimmedLine.startsWith('- ')) {
+        const post = trimmedLine.substring(2).trim();
+        if (post && post !== NO_INFO && details.ownerInfo?.posts) {
+          details.ownerInfo.posts.push(post);
+        }
+      }
+    }
+
+    if (currentQandA.question && currentQandA.answer) {
+      details.qanda?.push(currentQandA as QAndA);
+    }
+
+    detailsMap.set(title, details);
+  }
+
+  return detailsMap;
+};
+
+/**
+ * Geminiの応答テキストをパース（JSON優先、Markdownフォールバック）
+ */
+export function parseSearchResponse(text: string): ParsedSearchResponse {
+  const jsonResult = parseDetailsFromJson(text);
+
+  if (jsonResult && jsonResult.detailsMap.size > 0) {
+    parseStats.json++;
+    console.log(`[Response Parser] JSON: ${jsonResult.detailsMap.size} items (invalid: ${jsonResult.invalidEntries})`, getParseStats());
+    return { source: 'json', detailsMap: jsonResult.detailsMap, invalidEntries: jsonResult.invalidEntries };
+  }
+
+  if (jsonResult) {
+    parseStats.jsonInvalid++;
+    console.warn(`[Response Parser] JSON found but no valid facilities (invalid: ${jsonResult.invalidEntries}), falling back to Markdown`);
+  }
+
+  const markdownMap = parseDetailsFromMarkdown(text);
+  if (markdownMap.size > 0) {
+    parseStats.markdown++;
+    console.warn(`[Response Parser] Markdown fallback: ${markdownMap.size} items`, getParseStats());
+    return { source: 'markdown', detailsMap: markdownMap, invalidEntries: jsonResult?.invalidEntries || 0 };
+  }
+
+  parseStats.none++;
+  console.warn('[Response Parser] No facilities could be parsed', getParseStats());
+  return { source: 'none', detailsMap: markdownMap, invalidEntries: jsonResult?.invalidEntries || 0 };
+}
@@ -0,0 +1,226 @@
+/**
+ * 施設slugのレジストリ（slugs: / unresolved: 名前空間）
+ *
+ * 詳細ページのURLは3方式:
+ * - 【正規】/detail/{都道府県}/{市区町村}/{施設名}-{短縮ID}（utils/facilityPath.ts、shortid: でPlaceIDを解決）
+ * - 【旧方式】/detail/{PlaceID}（"places/" を除いたPlaceID）
+ * - 【旧方式】/detail/{ローマ字}-{PlaceID先頭8文字}（prefix: / slug: でPlaceIDを解決）
+ *
+ * - 発行したslug・正規URLは PlaceID ごとに slugs: に記録する（slug: / prefix: の逆引き）
+ *   slugs: / unresolved: の更新はキーごとのロック（withCacheLock）で直列化し、正規URLは一度登録したら上書きしない
+ * - 正規でないURL（旧方式・重複として統合された施設）は詳細ページで正規URLへ恒久リダイレクトする
+ * - 解決できなかったslugは unresolved: にアクセス回数を記録し、管理API・CLIで一覧する
+ */
+
+import { buildCacheKey, cacheDelete, cacheGet, cacheScan, cacheSet, withCacheLock } from './cache';
+import { addFacilityReferences, normalizePlaceId } from './facilityIndex';
+
+export interface SlugRecord {
+  placeId: string;
+  slugs: Array<{ slug: string; issuedAt: number }>;
+  // 正規URL（/detail/ 以降、例: "tokyo/nerima/serehausu-3k9x2a"）
+  path?: string;
+  updatedAt: number;
+}
+
+export interface UnresolvedSlug {
+  slug: string;
+  hits: number;
+  firstSeenAt: number;
+  lastSeenAt: number;
+  // 直近の参照元（最大 MAX_UNRESOLVED_REFERERS 件）
+  referers: string[];
+}
+
+export type SlugResolutionSource = 'placeId' | 'prefix' | 'slug' | 'search';
+
+export interface SlugResolution {
+  placeId: string;
+  source: SlugResolutionSource;
+}
+
+const MAX_UNRESOLVED_REFERERS = 5;
+
+/**
+ * 正規のslug（PlaceID）か
+ * PlaceIDは通常 "ChIJ" で始まり、大文字・小文字を区別する
+ * （小文字化された "chij..." はそのまま PlaceID として使えないため、レジストリ（prefix: / slug:）で解決する）
+ */
+export function isFullPlaceIdSlug(slug: string): boolean {
+  return slug.startsWith('ChIJ');
+}
+
+/**
+ * 【旧方式用】slugからPlaceIDサフィックス（8文字）を抽出
+ * 例: "makinosaiten-chijdetd" → "chijdetd"
+ */
+export function extractPlaceIdSuffix(slug: string): string | null {
+  const match = slug.match(/-([A-Za-z0-9]{8})$/);
+  return match ? match[1] : null;
+}
+
+/**
+ * 施設に発行したslugの記録
+ */
+export async function getSlugRecord(placeId: string): Promise<SlugRecord | null> {
+  const { value } = await cacheGet<SlugRecord>('slugs', normalizePlaceId(placeId));
+  return value && Array.isArray(value.slugs) ? value : null;
+}
+
+/**
+ * 施設の正規URL（/detail/ 以降のパス、未発行なら null）
+ */
+export async function getIssuedFacilityPath(placeId: string): Promise<string | null> {
+  return (await getSlugRecord(placeId))?.path || null;
+}
+
+/**
+ * 正規URLを登録（utils/facilityPath.ts の issueFacilityPath から呼ぶ）
+ * 登録済みの正規URLがあれば上書きせず、それを返す（同時に発行した場合は先に登録したURLになる）
+ * slug:{正規URL} → PlaceID も保存する（resolveIssuedFacilityPath）
+ */
+export async function registerFacilityPath(placeId: string, path: string): Promise<string> {
+  const id = normalizePlaceId(placeId);
+
+  return withCacheLock(`slugs:${id}`, async () => {
+    const record = await getSlugRecord(id);
+    if (record?.path) return record.path;
+
+    const slugs = record?.slugs || [];
+    await Promise.all([
+      cacheSet<SlugRecord>('slugs', id, {
+        placeId: id,
+        slugs: slugs.some((entry) => entry.slug === path) ? slugs : [...slugs, { slug: path, issuedAt: Date.now() }],
+        path,
+        updatedAt: Date.now(),
+      }),
+      // 短縮ID（shortid:）で解決できない場合の逆引き
+      cacheSet('slug', path, id),
+    ]);
+    return path;
+  });
+}
+
+/**
+ * 発行したslugを登録
+ * slug: / prefix:（slug → PlaceID）と slugs:（PlaceID → slug一覧）を更新する。登録済みなら書き込まない
+ */
+export async function registerFacilitySlug(slug: string, placeId: string, suffix?: string | null): Promise<void> {
+  const id = normalizePlaceId(placeId);
+  if (slug === id) return; // 正規slugは記録不要
+
+  const known = (await getSlugRecord(id))?.slugs.some((entry) => entry.slug === slug);
+
+  const [current, currentPrefix] = await Promise.all([
+    cacheGet<string>('slug', slug),
+    suffix ? cacheGet<string>('prefix', suffix.toLowerCase()) : Promise.resolve({ value: null, error: null }),
+  ]);
+
+  const writes: Array<Promise<unknown>> = [];
+  if (current.value !== placeId) {
+    writes.push(cacheSet('slug', slug, placeId));
+  }
+  if (suffix && currentPrefix.value !== placeId) {
+    writes.push(cacheSet('prefix', suffix.toLowerCase(), placeId));
+  }
+  if (!known) {
+    writes.push(withCacheLock(`slugs:${id}`, async () => {
+      // ロック取得までに他の登録が入っている可能性があるため読み直す
+      const record = await getSlugRecord(id);
+      if (record?.slugs.some((entry) => entry.slug === slug)) return;
+      await cacheSet<SlugRecord>('slugs', id, {
+        ...record,
+        placeId: id,
+        slugs: [...(record?.slugs || []), { slug, issuedAt: Date.now() }],
+        updatedAt: Date.now(),
+      });
+    }));
+    // 以前に解決できなかったslugは一覧から外す
+    writes.push(cacheDelete('unresolved', slug));
+  }
+  if (writes.length === 0) return;
+
+  await Promise.all(writes);
+
+  // 施設単位の無効化で参照できるよう逆引きインデックスに登録
+  const references = [buildCacheKey('slug', slug)];
+  if (suffix) references.push(buildCacheKey('prefix', suffix.toLowerCase()));
+  await addFacilityReferences(id, references);
+
+  console.log(`🔖 [Slug Registry] Registered ${slug} → ${id}${suffix ? ` (suffix: ${suffix})` : ''}`);
+}
+
+/**
+ * 発行した正規URLから PlaceID を解決（slug:、短縮IDで解決できない場合のフォールバック）
+ */
+export async function resolveIssuedFacilityPath(path: string): Promise<string | null> {
+  const { value, error } = await cacheGet<string>('slug', path);
+  if (error) console.warn('[Slug Registry] Path lookup error:', error);
+  return value || null;
+}
+
+/**
+ * 旧方式のslug から PlaceID を解決（キャッシュのみ、外部APIは呼ばない）
+ * 1. slugが完全なPlaceID → そのまま
+ * 2. slugのPlaceIDサフィックス → prefix:
+ * 3. slug全体 → slug:
+ */
+export async function resolveFacilitySlug(slug: string): Promise<SlugResolution | null> {
+  if (isFullPlaceIdSlug(slug)) {
+    return { placeId: `places/${slug}`, source: 'placeId' };
+  }
+
+  const suffix = extractPlaceIdSuffix(slug);
+  if (suffix) {
+    const { value, error } = await cacheGet<string>('prefix', suffix.toLowerCase());
+    if (value) return { placeId: value, source: 'prefix' };
+    if (error) console.warn('[Slug Registry] Prefix lookup error:', error);
+  }
+
+  const { value, error } = await cacheGet<string>('slug', slug);
+  if (value) return { placeId: value, source: 'slug' };
+  if (error) console.warn('[Slug Registry] Slug lookup error:', error);
+
+  return null;
+}
+
+/**
+ * 解決できなかったslugを記録（アクセス回数・参照元）
+ * 詳細ページはISRのため、同じslugの記録はページの再生成ごと（最大1時間に1回）になる
+ * アクセスがなくなったslugは TTL（CACHE_TTL_POLICIES.unresolved）で消える
+ */
+export async function recordUnresolvedSlug(slug: string, referer?: string | null): Promise<void> {
+  // 同時アクセスでアクセス回数を取りこぼさないよう、ロックを取得してから読み書きする
+  await withCacheLock(`unresolved:${slug}`, async () => {
+    const { value } = await cacheGet<UnresolvedSlug>('unresolved', slug);
+    const now = Date.now();
+    const referers = value?.referers || [];
+
+    await cacheSet<UnresolvedSlug>('unresolved', slug, {
+      slug,
+      hits: (value?.hits || 0) + 1,
+      firstSeenAt: value?.firstSeenAt || now,
+      lastSeenAt: now,
+      referers: referer
+        ? [referer, ...referers.filter((item) => item !== referer)].slice(0, MAX_UNRESOLVED_REFERERS)
+        : referers,
+    });
+  });
+
+  console.warn(`⚠️ [Slug Registry] Unresolved slug: ${slug}${referer ? ` (referer: ${referer})` : ''}`);
+}
+
+/**
+ * 解決できなかったslugの一覧（アクセス回数の多い順）
+ */
+export async function listUnresolvedSlugs(limit: number = 100): Promise<{ total: number; slugs: UnresolvedSlug[] }> {
+  const keys = await cacheScan('unresolved');
+  const entries = await Promise.all(
+    keys.map(async (key) => (await cacheGet<UnresolvedSlug>('unresolved', key.substring('unresolved:'.length))).value)
+  );
+  const slugs = entries
+    .filter((entry): entry is UnresolvedSlug => !!entry && typeof entry.hits === 'number')
+    .sort((a, b) => b.hits - a.hits || b.lastSeenAt - a.lastSeenAt);
+
+  return { total: slugs.length, slugs: slugs.slice(0, limit) };
+}
@@ -0,0 +1,120 @@
+/**
+ * 最寄り駅の検索（regions.json の駅データを使い、外部APIは呼ばない）
+ *
+ * 駅の座標を緯度経度のグリッドに振り分けておき、施設の座標の周囲のセルだけを調べる
+ * 路線名は scripts/build-line-map.ts で生成する lines.json から引く
+ * （未生成の場合は路線名なしで返す）
+ *
+ * サーバー専用（lines.json を fs で読み込む）
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { GeoPoint, NearestStation } from '../types';
+import { calculateDistance, walkingMinutes } from './geo';
+import { getRegionsByType } from './regionRegistry';
+
+interface StationEntry {
+  name: string;
+  romaji: string;
+  prefecture: string;
+  location: GeoPoint;
+  lineIds: string[];
+}
+
+const LINES_PATH = path.join(process.cwd(), 'app/utils/data/lines.json');
+
+// グリッドの1セルの大きさ（度）。緯度方向で約2.2km
+const CELL_SIZE = 0.02;
+const METERS_PER_DEGREE = 111320;
+
+// 既定: 徒歩25分（2km）以内の3駅
+const DEFAULT_LIMIT = 3;
+const DEFAULT_MAX_DISTANCE = 2000;
+
+let stationGrid: Map<string, StationEntry[]> | null = null;
+let lineNames: Record<string, string> | null = null;
+
+const cellKey = (latCell: number, lonCell: number) => `${latCell}:${lonCell}`;
+
+/**
+ * 駅データをグリッドに振り分け（初回のみ）
+ */
+function getStationGrid(): Map<string, StationEntry[]> {
+  if (stationGrid) return stationGrid;
+
+  const grid = new Map<string, StationEntry[]>();
+  let count = 0;
+  for (const data of getRegionsByType('station')) {
+    if (typeof data.lat !== 'number' || typeof data.lon !== 'number') continue;
+    const key = cellKey(Math.floor(data.lat / CELL_SIZE), Math.floor(data.lon / CELL_SIZE));
+    const cell = grid.get(key) || [];
+    cell.push({
+      name: data.name,
+      romaji: data.romaji,
+      prefecture: data.prefecture || '',
+      location: { lat: data.lat, lng: data.lon },
+      lineIds: data.lineIds || [],
+    });
+    grid.set(key, cell);
+    count++;
+  }
+
+  console.log(`🚉 [StationIndex] Indexed ${count} stations in ${grid.size} cells`);
+  stationGrid = grid;
+  return grid;
+}
+
+/**
+ * 路線コード → 路線名（lines.json がなければ空）
+ */
+function getLineNames(): Record<string, string> {
+  if (lineNames) return lineNames;
+  try {
+    lineNames = fs.existsSync(LINES_PATH) ? JSON.parse(fs.readFileSync(LINES_PATH, 'utf-8')) : {};
+  } catch (error) {
+    console.warn('[StationIndex] Failed to read lines.json:', error);
+    lineNames = {};
+  }
+  return lineNames!;
+}
+
+/**
+ * 座標から近い順に駅を返す（maxDistance より遠い駅は含めない）
+ */
+export function findNearestStations(
+  location: GeoPoint,
+  options: { limit?: number; maxDistance?: number } = {}
+): NearestStation[] {
+  const limit = options.limit ?? DEFAULT_LIMIT;
+  const maxDistance = options.maxDistance ?? DEFAULT_MAX_DISTANCE;
+  const grid = getStationGrid();
+  const names = getLineNames();
+
+  // maxDistance が収まる範囲のセルを調べる（経度方向は緯度に応じて狭くなる）
+  const latCell = Math.floor(location.lat / CELL_SIZE);
+  const lonCell = Math.floor(location.lng / CELL_SIZE);
+  const latRange = Math.ceil(maxDistance / (CELL_SIZE * METERS_PER_DEGREE));
+  const lonRange = Math.ceil(maxDistance / (CELL_SIZE * METERS_PER_DEGREE * Math.cos(location.lat * Math.PI / 180)));
+
+  const candidates: NearestStation[] = [];
+  for (let dy = -latRange; dy <= latRange; dy++) {
+    for (let dx = -lonRange; dx <= lonRange; dx++) {
+      for (const station of grid.get(cellKey(latCell + dy, lonCell + dx)) || []) {
+        const distance = Math.round(calculateDistance(location.lat, location.lng, station.location.lat, station.location.lng));
+        if (distance > maxDistance) continue;
+        candidates.push({
+          name: station.name,
+          romaji: station.romaji,
+          prefecture: station.prefecture,
+          location: station.location,
+          distance,
+          walkingMinutes: walkingMinutes(distance),
+          lines: station.lineIds.map((id) => names[id]).filter((line): line is string => !!line),
+        });
+      }
+    }
+  }
+
+  return candidates.sort((a, b) => a.distance - b.distance).slice(0, limit);
+}
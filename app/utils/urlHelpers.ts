@@ -8,58 +8,95 @@
  * - regions.json: 統合データ（市区町村 + 駅名）
  */
 
-import municipalityMapModule from './data/municipalities.json';
-import regionsDataModule from './data/regions.json';
-
-// Vite環境でJSONモジュールを正しくインポート
-// .defaultプロパティがある場合はそれを使用、なければそのまま使用
-const municipalityMap = (municipalityMapModule as any).default || municipalityMapModule;
-const regionsData = (regionsDataModule as any).default || regionsDataModule;
-
-// RegionData型定義
-interface RegionData {
-  romaji: string;
-  type: 'municipality' | 'station' | 'area';
-  priority: 1 | 2 | 3 | 4 | 5;
-  prefecture?: string;
-  lat?: number;
-  lon?: number;
-  lineIds?: string[];
-}
+import municipalitiesJson from './data/municipalities.json';
+import { KANA_ROMAJI_MAP } from './data/kanaRomaji';
+import type { NearbyArea, SearchResult } from '../types';
+import { getAllRegions, getRegion } from './regionRegistry';
+import { resolveRegionAlias } from './regionAliases';
+
+const municipalityMap: Record<string, string> = municipalitiesJson satisfies Record<string, string>;
 
 // slug → placeId マッピング（重複検出用）
 const slugMap = new Map<string, string>();
 
+// 同じタイミングの変換要求をまとめて1回のPOSTにする待ち時間
+const ROMAJI_BATCH_DELAY_MS = 10;
+
+// /api/convert-romaji の1リクエストあたりの上限
+const ROMAJI_BATCH_SIZE = 100;
+
+// 変換済み・変換中のテキスト（ページ内で同じテキストを再変換しない）
+const romajiMemo = new Map<string, Promise<string>>();
+let pendingRomaji: Array<{ text: string; resolve: (romaji: string) => void }> = [];
+let romajiBatchTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * 複数の日本語文字列をまとめてローマ字スラッグに変換（サーバーサイドAPI経由、1回のPOST）
+ * 変換できなかった項目・APIエラー時は静的マッピングで変換する
+ */
+export async function convertToRomajiBatch(texts: string[]): Promise<string[]> {
+  const results: string[] = [];
+  for (let i = 0; i < texts.length; i += ROMAJI_BATCH_SIZE) {
+    const chunk = texts.slice(i, i + ROMAJI_BATCH_SIZE);
+    try {
+      const response = await fetch('/api/convert-romaji', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ texts: chunk }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`API error: ${response.status}`);
+      }
+
+      const data: { results: Array<{ romaji: string | null }> } = await response.json();
+      console.log(`✅ [API] 一括変換成功: ${chunk.length}件`);
+      results.push(...chunk.map((text, j) => data.results[j]?.romaji ?? convertToRomajiFallback(text)));
+    } catch (error) {
+      console.error('❌ [API] エラー:', error);
+      console.log('🔄 [Fallback] convertToRomajiFallback() を呼び出します');
+      // フォールバック: 静的マッピング
+      results.push(...chunk.map((text) => convertToRomajiFallback(text)));
+    }
+  }
+  return results;
+}
+
+/**
+ * 待機中の変換要求を一括変換
+ */
+async function flushPendingRomaji(): Promise<void> {
+  const batch = pendingRomaji;
+  pendingRomaji = [];
+  romajiBatchTimer = null;
+
+  const romajiList = await convertToRomajiBatch(batch.map((item) => item.text));
+  batch.forEach((item, i) => item.resolve(romajiList[i]));
+}
+
 /**
  * 日本語文字列をローマ字スラッグに変換（サーバーサイドAPI経由）
- * 例: "東京都練馬区" → "tokyotonerima-ku"
- * 例: "株式会社セレハウス" → "kabushikigaishaserehouse"
+ * 同時に呼ばれた変換は1回のPOSTにまとめる
+ * 例: "東京都練馬区" → "tokyotonerimaku"
+ * 例: "株式会社セレハウス" → "kabushikigaishaserehausu"
  */
 export async function convertToRomaji(text: string): Promise<string> {
   console.log('🚀 [convertToRomaji] 開始 - 入力:', text);
-  try {
-    // サーバーサイドAPIを呼び出し
-    const response = await fetch('/api/convert-romaji', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ text }),
-    });
+  const memoized = romajiMemo.get(text);
+  if (memoized) {
+    return memoized;
+  }
 
-    if (!response.ok) {
-      throw new Error(`API error: ${response.status}`);
+  const promise = new Promise<string>((resolve) => {
+    pendingRomaji.push({ text, resolve });
+    if (!romajiBatchTimer) {
+      romajiBatchTimer = setTimeout(flushPendingRomaji, ROMAJI_BATCH_DELAY_MS);
     }
-
-    const data = await response.json();
-    console.log('✅ [API] 変換成功:', data.romaji);
-    return data.romaji;
-  } catch (error) {
-    console.error('❌ [API] エラー:', error);
-    console.log('🔄 [Fallback] convertToRomajiFallback() を呼び出します');
-    // フォールバック: 静的マッピング
-    return convertToRomajiFallback(text);
-  }
+  });
+  romajiMemo.set(text, promise);
+  return promise;
 }
 
 /**
@@ -70,46 +107,7 @@ function convertToRomajiCharLevel(text: string): string {
   console.log('🔧 [convertToRomajiCharLevel] 文字レベル変換開始:', text);
 
   // ローマ字マッピング（簡易版）
-  const romajiMap: Record<string, string> = {
-    // 平仮名
-    'あ': 'a', 'い': 'i', 'う': 'u', 'え': 'e', 'お': 'o',
-    'か': 'ka', 'き': 'ki', 'く': 'ku', 'け': 'ke', 'こ': 'ko',
-    'さ': 'sa', 'し': 'shi', 'す': 'su', 'せ': 'se', 'そ': 'so',
-    'た': 'ta', 'ち': 'chi', 'つ': 'tsu', 'て': 'te', 'と': 'to',
-    'な': 'na', 'に': 'ni', 'ぬ': 'nu', 'ね': 'ne', 'の': 'no',
-    'は': 'ha', 'ひ': 'hi', 'ふ': 'fu', 'へ': 'he', 'ほ': 'ho',
-    'ま': 'ma', 'み': 'mi', 'む': 'mu', 'め': 'me', 'も': 'mo',
-    'や': 'ya', 'ゆ': 'yu', 'よ': 'yo',
-    'ら': 'ra', 'り': 'ri', 'る': 'ru', 'れ': 're', 'ろ': 'ro',
-    'わ': 'wa', 'を': 'wo', 'ん': 'n',
-    // 濁音
-    'が': 'ga', 'ぎ': 'gi', 'ぐ': 'gu', 'げ': 'ge', 'ご': 'go',
-    'ざ': 'za', 'じ': 'ji', 'ず': 'zu', 'ぜ': 'ze', 'ぞ': 'zo',
-    'だ': 'da', 'ぢ': 'ji', 'づ': 'zu', 'で': 'de', 'ど': 'do',
-    'ば': 'ba', 'び': 'bi', 'ぶ': 'bu', 'べ': 'be', 'ぼ': 'bo',
-    // 半濁音
-    'ぱ': 'pa', 'ぴ': 'pi', 'ぷ': 'pu', 'ぺ': 'pe', 'ぽ': 'po',
-    // カタカナ
-    'ア': 'a', 'イ': 'i', 'ウ': 'u', 'エ': 'e', 'オ': 'o',
-    'カ': 'ka', 'キ': 'ki', 'ク': 'ku', 'ケ': 'ke', 'コ': 'ko',
-    'サ': 'sa', 'シ': 'shi', 'ス': 'su', 'セ': 'se', 'ソ': 'so',
-    'タ': 'ta', 'チ': 'chi', 'ツ': 'tsu', 'テ': 'te', 'ト': 'to',
-    'ナ': 'na', 'ニ': 'ni', 'ヌ': 'nu', 'ネ': 'ne', 'ノ': 'no',
-    'ハ': 'ha', 'ヒ': 'hi', 'フ': 'fu', 'ヘ': 'he', 'ホ': 'ho',
-    'マ': 'ma', 'ミ': 'mi', 'ム': 'mu', 'メ': 'me', 'モ': 'mo',
-    'ヤ': 'ya', 'ユ': 'yu', 'ヨ': 'yo',
-    'ラ': 'ra', 'リ': 'ri', 'ル': 'ru', 'レ': 're', 'ロ': 'ro',
-    'ワ': 'wa', 'ヲ': 'wo', 'ン': 'n',
-    // 濁音
-    'ガ': 'ga', 'ギ': 'gi', 'グ': 'gu', 'ゲ': 'ge', 'ゴ': 'go',
-    'ザ': 'za', 'ジ': 'ji', 'ズ': 'zu', 'ゼ': 'ze', 'ゾ': 'zo',
-    'ダ': 'da', 'ヂ': 'ji', 'ヅ': 'zu', 'デ': 'de', 'ド': 'do',
-    'バ': 'ba', 'ビ': 'bi', 'ブ': 'bu', 'ベ': 'be', 'ボ': 'bo',
-    // 半濁音
-    'パ': 'pa', 'ピ': 'pi', 'プ': 'pu', 'ペ': 'pe', 'ポ': 'po',
-    // 長音
-    'ー': ''
-  };
+  const romajiMap = KANA_ROMAJI_MAP;
 
   // 1文字ずつローマ字変換
   let result = '';
@@ -139,8 +137,7 @@ function convertToRomajiCharLevel(text: string): string {
 function convertToRomajiFallback(text: string): string {
   // 【デバッグログ】入力値と型確認
   console.log('🔍 [convertToRomajiFallback] 入力:', text);
-  console.log('📦 [regionsData] 型:', typeof regionsData);
-  console.log('📦 [regionsData] キー数:', Object.keys(regionsData).length);
+  console.log('📦 [regions] キー数:', getAllRegions().length);
 
   // 【優先度1】regions.jsonでチェック（市区町村 + 駅名の統合データ）
   // データソース:
@@ -152,8 +149,9 @@ function convertToRomajiFallback(text: string): string {
   console.log('🧹 [cleanedForLookup]:', cleanedForLookup);
 
   // regions.jsonから直接検索（優先度順）
-  if (regionsData[text]) {
-    const result = (regionsData[text] as RegionData).romaji;
+  const region = getRegion(text);
+  if (region) {
+    const result = region.romaji;
     // 🚨 【重要】romajiが空の場合はconvertToRomaji APIを呼び出す（非同期不可のため警告のみ）
     if (!result || result.trim() === '') {
       console.warn(`⚠️ [regions.json] romajiが空です: "${text}" - convertToRomaji()を呼び出してください`);
@@ -161,20 +159,21 @@ function convertToRomajiFallback(text: string): string {
       // 注: 理想的にはconvertToRomajiを呼び出すべきだが、この関数は同期なので不可能
       return convertToRomajiCharLevel(text);
     }
-    console.log(`✅ [regions.json ヒット] text: ${text} → ${result} (type: ${(regionsData[text] as RegionData).type}, priority: ${(regionsData[text] as RegionData).priority})`);
+    console.log(`✅ [regions.json ヒット] text: ${text} → ${result} (type: ${region.type}, priority: ${region.priority})`);
     return result;
   }
 
   // クリーニング後のテキストでも検索
-  if (regionsData[cleanedForLookup]) {
-    const result = (regionsData[cleanedForLookup] as RegionData).romaji;
+  const cleanedRegion = getRegion(cleanedForLookup);
+  if (cleanedRegion) {
+    const result = cleanedRegion.romaji;
     // 🚨 【重要】romajiが空の場合はconvertToRomaji APIを呼び出す（非同期不可のため警告のみ）
     if (!result || result.trim() === '') {
       console.warn(`⚠️ [regions.json] romajiが空です: "${cleanedForLookup}" - convertToRomaji()を呼び出してください`);
       // フォールバックとして文字レベル変換を試みる
       return convertToRomajiCharLevel(cleanedForLookup);
     }
-    console.log(`✅ [regions.json ヒット] cleanedForLookup: ${cleanedForLookup} → ${result} (type: ${(regionsData[cleanedForLookup] as RegionData).type}, priority: ${(regionsData[cleanedForLookup] as RegionData).priority})`);
+    console.log(`✅ [regions.json ヒット] cleanedForLookup: ${cleanedForLookup} → ${result} (type: ${cleanedRegion.type}, priority: ${cleanedRegion.priority})`);
     return result;
   }
 
@@ -194,46 +193,7 @@ function convertToRomajiFallback(text: string): string {
   console.log('❌ [regions.json + municipalityMap 未ヒット] 入力:', text);
 
   // 【優先度2】一般的な日本語→ローマ字マッピング（ひらがな・カタカナのみ）
-  const romajiMap: Record<string, string> = {
-    // 平仮名
-    'あ': 'a', 'い': 'i', 'う': 'u', 'え': 'e', 'お': 'o',
-    'か': 'ka', 'き': 'ki', 'く': 'ku', 'け': 'ke', 'こ': 'ko',
-    'さ': 'sa', 'し': 'shi', 'す': 'su', 'せ': 'se', 'そ': 'so',
-    'た': 'ta', 'ち': 'chi', 'つ': 'tsu', 'て': 'te', 'と': 'to',
-    'な': 'na', 'に': 'ni', 'ぬ': 'nu', 'ね': 'ne', 'の': 'no',
-    'は': 'ha', 'ひ': 'hi', 'ふ': 'fu', 'へ': 'he', 'ほ': 'ho',
-    'ま': 'ma', 'み': 'mi', 'む': 'mu', 'め': 'me', 'も': 'mo',
-    'や': 'ya', 'ゆ': 'yu', 'よ': 'yo',
-    'ら': 'ra', 'り': 'ri', 'る': 'ru', 'れ': 're', 'ろ': 'ro',
-    'わ': 'wa', 'を': 'wo', 'ん': 'n',
-    // 濁音
-    'が': 'ga', 'ぎ': 'gi', 'ぐ': 'gu', 'げ': 'ge', 'ご': 'go',
-    'ざ': 'za', 'じ': 'ji', 'ず': 'zu', 'ぜ': 'ze', 'ぞ': 'zo',
-    'だ': 'da', 'ぢ': 'ji', 'づ': 'zu', 'で': 'de', 'ど': 'do',
-    'ば': 'ba', 'び': 'bi', 'ぶ': 'bu', 'べ': 'be', 'ぼ': 'bo',
-    // 半濁音
-    'ぱ': 'pa', 'ぴ': 'pi', 'ぷ': 'pu', 'ぺ': 'pe', 'ぽ': 'po',
-    // カタカナ
-    'ア': 'a', 'イ': 'i', 'ウ': 'u', 'エ': 'e', 'オ': 'o',
-    'カ': 'ka', 'キ': 'ki', 'ク': 'ku', 'ケ': 'ke', 'コ': 'ko',
-    'サ': 'sa', 'シ': 'shi', 'ス': 'su', 'セ': 'se', 'ソ': 'so',
-    'タ': 'ta', 'チ': 'chi', 'ツ': 'tsu', 'テ': 'te', 'ト': 'to',
-    'ナ': 'na', 'ニ': 'ni', 'ヌ': 'nu', 'ネ': 'ne', 'ノ': 'no',
-    'ハ': 'ha', 'ヒ': 'hi', 'フ': 'fu', 'ヘ': 'he', 'ホ': 'ho',
-    'マ': 'ma', 'ミ': 'mi', 'ム': 'mu', 'メ': 'me', 'モ': 'mo',
-    'ヤ': 'ya', 'ユ': 'yu', 'ヨ': 'yo',
-    'ラ': 'ra', 'リ': 'ri', 'ル': 'ru', 'レ': 're', 'ロ': 'ro',
-    'ワ': 'wa', 'ヲ': 'wo', 'ン': 'n',
-    // 濁音
-    'ガ': 'ga', 'ギ': 'gi', 'グ': 'gu', 'ゲ': 'ge', 'ゴ': 'go',
-    'ザ': 'za', 'ジ': 'ji', 'ズ': 'zu', 'ゼ': 'ze', 'ゾ': 'zo',
-    'ダ': 'da', 'ヂ': 'ji', 'ヅ': 'zu', 'デ': 'de', 'ド': 'do',
-    'バ': 'ba', 'ビ': 'bi', 'ブ': 'bu', 'ベ': 'be', 'ボ': 'bo',
-    // 半濁音
-    'パ': 'pa', 'ピ': 'pi', 'プ': 'pu', 'ペ': 'pe', 'ポ': 'po',
-    // 長音
-    'ー': ''
-  };
+  const romajiMap = KANA_ROMAJI_MAP;
 
   // 不要な語句を削除
   const removeWords = ['株式会社', '有限会社', '合同会社', '都', '府', '県', '区', '市', '町', '村', '丁目', '番地', '号'];
@@ -270,10 +230,11 @@ export function generateSlug(text: string): string {
 }
 
 /**
- * 【新方式】PlaceIDをそのままslugとして使用
+ * PlaceIDをそのままslugとして使用（読めるURLが未発行の施設へのリンク用）
  * 例: "places/ChIJdetd1234567890abcdefgh" → "ChIJdetd1234567890abcdefgh"
  *
- * これにより100%の一意性を保証し、KVマッピングが不要になる
+ * 施設名・住所がなくても同期的に生成できる。詳細ページで読めるURL
+ * （/detail/{都道府県}/{市区町村}/{施設名}-{短縮ID}、utils/facilityPath.ts）へリダイレクトする
  */
 export function generateFacilitySlugFromPlaceId(placeId: string): string {
   // "places/" プレフィックスを削除
@@ -282,6 +243,14 @@ export function generateFacilitySlugFromPlaceId(placeId: string): string {
   return slug;
 }
 
+/**
+ * 施設の詳細ページURL（施設一覧・地図・構造化データのリンク用）
+ * 検索APIが付与した読めるURL（detailPath）を使い、未発行の施設は PlaceID のURLにする
+ */
+export function getFacilityDetailUrl(facility: Pick<SearchResult, 'placeId' | 'detailPath'>): string {
+  return `/detail/${facility.detailPath || generateFacilitySlugFromPlaceId(facility.placeId || '')}`;
+}
+
 /**
  * 【旧方式・後方互換用】施設名からURLスラッグを生成（非同期版・placeID付与方式）
  * 例: "家族葬のセレハウス谷原" + placeId → "kazokusonoserehausutanihara-chijn1t_"
@@ -345,10 +314,17 @@ export function generateFacilitySlug(title: string, placeId?: string): string {
  * 住所から地域スラッグを生成（非同期版）
  * 例: "東京都練馬区谷原2丁目3-8" → "nerima-ku"
  * 例: "新潟県長岡市" → "nagaoka-shi"
+ * 例: "浦和市" → "urawa"（旧市町村名は regions.json の地域のスラッグ）
  */
 export async function generateRegionSlugAsync(address: string): Promise<string> {
   console.log('🌏 [generateRegionSlugAsync] 開始 - 入力:', address);
   try {
+    const alias = resolveRegionAlias(address);
+    if (alias) {
+      console.log(`✅ [別名ヒット] ${alias.alias} → ${alias.region.name} (${alias.region.romaji})`);
+      return alias.region.romaji;
+    }
+
     // 市区町村を抽出する正規表現
     const patterns = [
       /([^都道府県]+[区])/,          // 区（例: 練馬区）
@@ -395,6 +371,11 @@ export async function generateRegionSlugAsync(address: string): Promise<string>
  * 住所から地域スラッグを生成（同期版・フォールバック）
  */
 export function generateRegionSlug(address: string): string {
+  const alias = resolveRegionAlias(address);
+  if (alias) {
+    return alias.region.romaji;
+  }
+
   // 市区町村を抽出する正規表現
   const patterns = [
     /([^都道府県]+[区])/,          // 区（例: 練馬区）
@@ -438,8 +419,11 @@ export function getCurrentLocationListUrl(): string {
  * Place IDからスラッグとURLを生成（非同期版）
  */
 export async function generateFacilityUrlsAsync(title: string, address: string, placeId: string) {
-  const facilitySlug = await generateFacilitySlugAsync(title, placeId);
-  const regionSlug = await generateRegionSlugAsync(address);
+  // 施設名と住所の変換は1回のPOSTにまとまる
+  const [facilitySlug, regionSlug] = await Promise.all([
+    generateFacilitySlugAsync(title, placeId),
+    generateRegionSlugAsync(address),
+  ]);
 
   return {
     facilitySlug,
@@ -502,6 +486,35 @@ export function loadSearchResults(): { results: any[]; query: string; isCurrentL
   }
 }
 
+/**
+ * 現在地検索で解決した地域をsessionStorageに保存（null で削除）
+ * /list/{romaji} で現在地からの検索結果と「〇〇周辺」の表示に切り替えるために使う
+ */
+export function saveNearbyArea(area: NearbyArea | null) {
+  try {
+    if (area) {
+      sessionStorage.setItem('nearbyArea', JSON.stringify(area));
+    } else {
+      sessionStorage.removeItem('nearbyArea');
+    }
+  } catch (error) {
+    console.error('現在地の地域の保存エラー:', error);
+  }
+}
+
+/**
+ * sessionStorageから現在地検索で解決した地域を取得
+ */
+export function loadNearbyArea(): NearbyArea | null {
+  try {
+    const area = sessionStorage.getItem('nearbyArea');
+    return area ? JSON.parse(area) : null;
+  } catch (error) {
+    console.error('現在地の地域の読み込みエラー:', error);
+    return null;
+  }
+}
+
 /**
  * slug → placeId マッピングを保存（sessionStorage + Vercel KV）
  * 追加: placeIdサフィックス（8文字）→ 完全placeIdのマッピングも保存
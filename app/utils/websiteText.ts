@@ -0,0 +1,108 @@
+/**
+ * 公式サイト本文のキャッシュ（website: 名前空間）
+ * 葬儀形式・宗教宗派・24時間対応の判定に使う公式サイトのトップページ本文を placeId ごとに保存する
+ *
+ * - 検索時はキャッシュを読むだけで公式サイトにはアクセスしない（検索の応答を遅らせない）
+ * - 未取得のサイトはレスポンス返却後（after()）・キャッシュウォーミングで取得し、次回の検索結果の更新から判定に使う
+ * - 本文は WEBSITE_MAX_BYTES で読み込みを打ち切る（大きなページを最後まで読まない）
+ * - 取得に失敗したサイトも text: null で保存し、TTL（CACHE_TTL_POLICIES.website）が切れるまで再取得しない
+ */
+
+import type { SearchResult } from '../types';
+import { cacheGet, cacheSet } from './cache';
+import { normalizePlaceId } from './facilityIndex';
+
+export interface CachedWebsiteText {
+  url: string;
+  text: string | null;
+  fetchedAt: number;
+}
+
+const WEBSITE_FETCH_TIMEOUT_MS = 4000;
+const WEBSITE_MAX_BYTES = 300_000;
+
+// 同時に取得するサイト数
+const WEBSITE_FETCH_CONCURRENCY = 5;
+
+/**
+ * 公式サイトのトップページ本文をテキストで取得（失敗・HTML以外は null）
+ * WEBSITE_MAX_BYTES を読んだ時点で読み込みを打ち切る
+ */
+async function fetchWebsiteText(url: string): Promise<string | null> {
+  try {
+    const response = await fetch(url, {
+      signal: AbortSignal.timeout(WEBSITE_FETCH_TIMEOUT_MS),
+      headers: { 'Accept': 'text/html', 'Accept-Language': 'ja' },
+      redirect: 'follow',
+    });
+    if (!response.ok || !response.body || !(response.headers.get('content-type') || '').includes('text/html')) {
+      await response.body?.cancel();
+      return null;
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let html = '';
+    let bytes = 0;
+    while (bytes < WEBSITE_MAX_BYTES) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const chunk = value.subarray(0, WEBSITE_MAX_BYTES - bytes);
+      bytes += chunk.byteLength;
+      html += decoder.decode(chunk, { stream: true });
+    }
+    await reader.cancel();
+    html += decoder.decode();
+
+    return html
+      .replace(/<(script|style|noscript)[\s\S]*?<\/\1>/gi, ' ')
+      .replace(/<[^>]+>/g, ' ')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  } catch (err) {
+    console.warn(`[Website] Failed to fetch ${url}:`, err instanceof Error ? err.message : err);
+    return null;
+  }
+}
+
+/**
+ * 保存済みの公式サイト本文（placeId → 本文、未取得・サイトのURLが変わった施設は含まない）
+ */
+export async function getCachedWebsiteTexts(places: SearchResult[]): Promise<Map<string, string | null>> {
+  const texts = new Map<string, string | null>();
+  await Promise.all(places.map(async (place) => {
+    if (!place.placeId || !place.website) return;
+    const id = normalizePlaceId(place.placeId);
+    const { value } = await cacheGet<CachedWebsiteText>('website', id);
+    if (value && value.url === place.website) {
+      texts.set(id, value.text);
+    }
+  }));
+  return texts;
+}
+
+/**
+ * 未取得の公式サイト本文を取得して保存（レスポンス返却後・バックグラウンド処理から呼ぶ）
+ * 取得した件数を返す
+ */
+export async function prefetchWebsiteTexts(places: SearchResult[]): Promise<number> {
+  const cached = await getCachedWebsiteTexts(places);
+  const targets = places.filter((place) => place.placeId && place.website && !cached.has(normalizePlaceId(place.placeId)));
+
+  for (let i = 0; i < targets.length; i += WEBSITE_FETCH_CONCURRENCY) {
+    await Promise.all(targets.slice(i, i + WEBSITE_FETCH_CONCURRENCY).map(async (place) => {
+      const text = await fetchWebsiteText(place.website!);
+      await cacheSet<CachedWebsiteText>('website', normalizePlaceId(place.placeId!), {
+        url: place.website!,
+        text,
+        fetchedAt: Date.now(),
+      });
+    }));
+  }
+
+  if (targets.length > 0) {
+    console.log(`🌐 [Website] Fetched ${targets.length} websites (cached: ${cached.size})`);
+  }
+  return targets.length;
+}
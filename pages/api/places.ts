@@ -1,17 +1,11 @@
 /**
  * Pages Router API Route (Next.js 互換性対応)
  * Google Places APIから施設の詳細情報を取得
- * キャッシュ機能付き（Vercel KV）
+ * キャッシュ機能付き（place: 名前空間）
  */
 
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { createClient } from '@vercel/kv';
-
-// Vercel KVクライアントを明示的に作成
-const kv = createClient({
-  url: process.env.KV_REST_API_URL!,
-  token: process.env.KV_REST_API_TOKEN!,
-});
+import { buildCacheKey, cacheGet, cacheSet, CACHE_TTL_POLICIES } from '../../app/utils/cache';
 
 // キャッシュ用の型定義
 interface CachedPlaceDetails {
@@ -19,9 +13,6 @@ interface CachedPlaceDetails {
   timestamp: number;
 }
 
-// キャッシュTTL: 7日間（秒）
-const CACHE_TTL_SECONDS = 7 * 24 * 60 * 60; // 604800秒
-
 export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse
@@ -50,24 +41,18 @@ export default async function handler(
     const cleanPlaceId = placeId.replace('places/', '');
 
     // === キャッシュチェック ===
-    const cacheKey = `place:${cleanPlaceId}`;
-    let cacheReadError: string | null = null;
-    try {
-      const cached = await kv.get<CachedPlaceDetails>(cacheKey);
-      if (cached) {
-        console.log(`✅ [Place Cache HIT] key=${cacheKey}, age=${Math.round((Date.now() - cached.timestamp) / 1000 / 60)}分`);
-        return res.status(200).json({
-          ...cached.data,
-          cached: true,
-          cacheAge: Date.now() - cached.timestamp
-        });
-      }
-      console.log(`⏳ [Place Cache MISS] key=${cacheKey}`);
-    } catch (cacheError: any) {
-      console.warn('[Place Cache Read Error]', cacheError);
-      cacheReadError = cacheError?.message || 'Unknown cache read error';
-      // キャッシュエラーは無視してAPI呼び出しを続行
+    const cacheKey = buildCacheKey('place', cleanPlaceId);
+    const { value: cached, error: cacheReadError } = await cacheGet<CachedPlaceDetails>('place', cleanPlaceId);
+    if (cached) {
+      console.log(`✅ [Place Cache HIT] key=${cacheKey}, age=${Math.round((Date.now() - cached.timestamp) / 1000 / 60)}分`);
+      return res.status(200).json({
+        ...cached.data,
+        cached: true,
+        cacheAge: Date.now() - cached.timestamp
+      });
     }
+    // キャッシュエラーは無視してAPI呼び出しを続行
+    console.log(`⏳ [Place Cache MISS] key=${cacheKey}${cacheReadError ? ` (error: ${cacheReadError})` : ''}`);
 
     const apiKey = process.env.GOOGLE_MAPS_API_KEY || process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY;
 
@@ -77,7 +62,7 @@ export default async function handler(
     }
 
     // Place Details APIで写真とレビュー情報を取得
-    const detailsUrl = `https://maps.googleapis.com/maps/api/place/details/json?place_id=${cleanPlaceId}&fields=name,formatted_address,formatted_phone_number,photos,reviews,website,business_status,price_level,opening_hours,wheelchair_accessible_entrance,rating,user_ratings_total&language=ja&key=${apiKey}`;
+    const detailsUrl = `https://maps.googleapis.com/maps/api/place/details/json?place_id=${cleanPlaceId}&fields=name,formatted_address,formatted_phone_number,photos,reviews,website,business_status,price_level,opening_hours,wheelchair_accessible_entrance,rating,user_ratings_total,geometry&language=ja&key=${apiKey}`;
 
     const detailsResponse = await fetch(detailsUrl);
     const detailsData = await detailsResponse.json();
@@ -110,6 +95,7 @@ export default async function handler(
       priceLevel: place.price_level,
       openingHours: place.opening_hours,
       wheelchairAccessible: place.wheelchair_accessible_entrance,
+      location: place.geometry?.location,
       rating: place.rating,
       userRatingsTotal: place.user_ratings_total,
       photoRefs,  // APIキーなしのリファレンスのみ
@@ -123,16 +109,14 @@ export default async function handler(
     };
 
     // === キャッシュ保存 ===
-    try {
-      const cacheData: CachedPlaceDetails = {
-        data: responseData,
-        timestamp: Date.now()
-      };
-      await kv.set(cacheKey, cacheData, { ex: CACHE_TTL_SECONDS });
-      console.log(`💾 [Place Cache SAVE] key=${cacheKey}, TTL=${CACHE_TTL_SECONDS}秒`);
-    } catch (cacheError: any) {
-      console.warn('[Place Cache Write Error]', cacheError);
-      // キャッシュエラーは無視して結果を返す
+    // キャッシュエラーは無視して結果を返す
+    const cacheData: CachedPlaceDetails = {
+      data: responseData,
+      timestamp: Date.now()
+    };
+    const { ok } = await cacheSet('place', cleanPlaceId, cacheData);
+    if (ok) {
+      console.log(`💾 [Place Cache SAVE] key=${cacheKey}, TTL=${CACHE_TTL_POLICIES.place}秒`);
     }
 
     return res.status(200).json(responseData);
@@ -10,6 +10,7 @@
 import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import type { RegionData } from '../app/utils/regionRegistry';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -17,16 +18,6 @@ const __dirname = path.dirname(__filename);
 const REGIONS_PATH = path.join(__dirname, '../app/utils/data/regions.json');
 const MUNICIPALITIES_PATH = path.join(__dirname, '../app/utils/data/municipalities.json');
 
-interface RegionData {
-  romaji: string;
-  type: 'municipality' | 'station' | 'area';
-  priority: 1 | 2 | 3 | 4 | 5;
-  prefecture?: string;
-  lat?: number;
-  lon?: number;
-  lineIds?: string[];
-}
-
 // 47都道府県マスターデータ
 const PREFECTURE_MAPPING: Record<string, string> = {
   // 北海道
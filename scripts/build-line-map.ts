@@ -0,0 +1,111 @@
+/**
+ * 路線名データ取得スクリプト
+ * regions.json の駅データ（lineIds = ekidata の路線コード）から路線名を引くための対応表を生成
+ *
+ * データソース: piuccio/open-data-jp-railway-lines
+ * https://github.com/piuccio/open-data-jp-railway-lines
+ *
+ * ライセンス: ekidata.jp利用規約準拠（商用利用可能）
+ *
+ * 出力: app/utils/data/lines.json（{ "11302": "JR山手線", ... }）
+ * 実行: npx tsx scripts/build-line-map.ts
+ */
+
+import https from 'https';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+// ES moduleで__dirnameを使用するための設定
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// 路線データのGitHub URL
+const LINES_DATA_URL = 'https://raw.githubusercontent.com/piuccio/open-data-jp-railway-lines/master/lines.json';
+
+// regions.jsonのパス（使用されている路線コードの確認用）
+const REGIONS_PATH = path.join(__dirname, '../app/utils/data/regions.json');
+
+// 出力先のlines.jsonのパス
+const OUTPUT_PATH = path.join(__dirname, '../app/utils/data/lines.json');
+
+// LineData型定義（piuccio/open-data-jp-railway-lines形式）
+interface LineInfo {
+  code: string;
+  ekidata_id?: string;
+  name_kanji: string;
+  name_kana?: string;
+  name_romaji?: string;
+  alternative_names?: string[];
+}
+
+/**
+ * HTTPSでJSONデータを取得
+ */
+function fetchJSON(url: string): Promise<any> {
+  return new Promise((resolve, reject) => {
+    https.get(url, (res) => {
+      let data = '';
+
+      res.on('data', (chunk) => {
+        data += chunk;
+      });
+
+      res.on('end', () => {
+        try {
+          resolve(JSON.parse(data));
+        } catch (error) {
+          reject(new Error(`JSON parse error: ${error}`));
+        }
+      });
+    }).on('error', (error) => {
+      reject(error);
+    });
+  });
+}
+
+/**
+ * メイン処理
+ */
+async function main() {
+  console.log('🚀 路線名データ取得・lines.json生成を開始します...\n');
+
+  // Step 1: 路線データ取得
+  console.log('📡 路線データをダウンロード中...');
+  console.log(`   URL: ${LINES_DATA_URL}`);
+  const linesData: LineInfo[] = await fetchJSON(LINES_DATA_URL);
+  console.log(`✅ 路線データ取得完了: ${linesData.length}路線\n`);
+
+  // Step 2: ekidataの路線コード → 路線名
+  const lineNames: Record<string, string> = {};
+  for (const line of linesData) {
+    if (!line.ekidata_id || !line.name_kanji) continue;
+    lineNames[line.ekidata_id] = line.name_kanji;
+  }
+
+  // Step 3: regions.jsonで使われている路線コードのうち、名前が見つからないものを確認
+  const regionsData: Record<string, { lineIds?: string[] }> = JSON.parse(fs.readFileSync(REGIONS_PATH, 'utf-8'));
+  const usedLineIds = new Set(Object.values(regionsData).flatMap((region) => region.lineIds || []));
+  const missing = Array.from(usedLineIds).filter((id) => !lineNames[id]);
+  console.log(`📊 regions.jsonの路線コード: ${usedLineIds.size}件（名前なし: ${missing.length}件）`);
+  if (missing.length > 0) {
+    console.warn(`⚠️ 名前が見つからない路線コード: ${missing.slice(0, 20).join(', ')}${missing.length > 20 ? ' ...' : ''}`);
+  }
+
+  // Step 4: 使われている路線のみ出力（データ量削減）
+  const output: Record<string, string> = {};
+  for (const id of Array.from(usedLineIds).sort()) {
+    if (lineNames[id]) output[id] = lineNames[id];
+  }
+
+  fs.writeFileSync(OUTPUT_PATH, JSON.stringify(output, null, 2), 'utf-8');
+  console.log(`\n✅ lines.json保存完了: ${OUTPUT_PATH}`);
+  console.log(`   総エントリ数: ${Object.keys(output).length}`);
+  console.log('\n🎉 lines.json生成が完了しました！');
+}
+
+// スクリプト実行
+main().catch((error) => {
+  console.error('❌ エラーが発生しました:', error);
+  process.exit(1);
+});
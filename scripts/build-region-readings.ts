@@ -0,0 +1,279 @@
+/**
+ * regions.json に読み（kana、ひらがな）を追加するスクリプト
+ *
+ * 目的: 入力補完・地域の解決を「ねりま」「nerima」「練馬」のどれでも引けるようにする
+ *
+ * 処理フロー:
+ * 1. regions.jsonを読み込み
+ * 2. 日本郵便の郵便番号データ（ローマ字版）から市区町村名のローマ字を取得（scripts/build-area-map.ts と同じデータ）
+ * 3. Kuroshiro（app/utils/kuroshiro.ts、/api/convert-romaji と同じセットアップ）で地域名の読みを生成
+ * 4. 読みをローマ字にして、日本郵便のローマ字（市区町村）・regions.json の romaji と照合
+ *    一致した読みだけを追加する（「放出（はなてん）」を「ほうしゅつ」としないため）
+ *    一致しなければ Kuromoji の辞書にある別の読み（"七戸" → しちのへ）・連濁（"東川" → ひがしかわ）の組み合わせから
+ *    ローマ字に一致する読みを探す
+ * 5. 更新されたregions.jsonを保存し、照合できなかった地域を temp/region-readings-unverified.json に出力
+ *    （regions.json に kana を手動で追加する。読みのない地域は validate-regions.ts でエラーになる）
+ *
+ * - 日本郵便のデータ（temp/KEN_ALL_ROME.CSV）がなければ regions.json の romaji だけで照合する
+ *   （取得方法は scripts/build-area-map.ts を参照）
+ * - regions.json の一部の romaji は長音符付きの文字が削られている（"大宮" → "miya"）ため、その表記とも照合する
+ * - 読みのある地域は --force を指定しない限り再生成しない
+ *
+ * 実行: npx tsx scripts/build-region-readings.ts [--force]
+ * 実行後: npx tsx scripts/validate-regions.ts
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { convertKanaToRomaji, convertToHiragana, initKuroshiro } from '../app/utils/kuroshiro';
+import { toHiragana, type RegionData } from '../app/utils/regionRegistry';
+
+// ES moduleで__dirnameを使用するための設定
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const REGIONS_PATH = path.join(__dirname, '../app/utils/data/regions.json');
+const TEMP_DIR = path.join(__dirname, '../temp');
+const ZIP_CSV_PATH = path.join(TEMP_DIR, 'KEN_ALL_ROME.CSV');
+const UNVERIFIED_PATH = path.join(TEMP_DIR, 'region-readings-unverified.json');
+
+// 市区町村名の接尾辞（漢字・ローマ字）
+const MUNICIPALITY_SUFFIX_PATTERN = /[市区町村]$/;
+const ROMAN_SUFFIX_PATTERN = /\s+(SHI|KU|MACHI|CHO|MURA|SON)$/;
+
+// 連濁で濁る・半濁る仮名（"川" かわ → "東川" ひがしかわ / "綾川" あやがわ）
+const VOICED_KANA: Record<string, string[]> = {
+  か: ['が'], き: ['ぎ'], く: ['ぐ'], け: ['げ'], こ: ['ご'],
+  さ: ['ざ'], し: ['じ'], す: ['ず'], せ: ['ぜ'], そ: ['ぞ'],
+  た: ['だ'], ち: ['ぢ'], つ: ['づ'], て: ['で'], と: ['ど'],
+  は: ['ば', 'ぱ'], ひ: ['び', 'ぴ'], ふ: ['ぶ', 'ぷ'], へ: ['べ', 'ぺ'], ほ: ['ぼ', 'ぽ'],
+};
+
+// 語の間に入る読み（"七戸" しち・の・へ、"関ヶ原" の「ヶ」は Step 4 で「が」に置き換え済み）
+const READING_LINKS = ['', 'の', 'が'];
+
+// Kuromoji の辞書（kuroshiro-analyzer-kuromoji が保持する tokenizer の内部構造）
+interface KuromojiDictionary {
+  viterbi_builder: { trie: { commonPrefixSearch(text: string): { k: string; v: number }[] } };
+  token_info_dictionary: { target_map: Record<number, number[]>; getFeatures(id: number): string };
+}
+
+interface UnverifiedReading {
+  name: string;
+  reading: string;
+  expected: string[];
+}
+
+/**
+ * 日本郵便の郵便番号データ（ローマ字版）から 市区町村名 → ローマ字 を作る
+ *
+ * データ構造（scripts/build-area-map.ts と同じ）:
+ * 3. 市区町村名（漢字）例: "練馬区"、"札幌市　中央区"、"虻田郡　洞爺湖町"
+ * 6. 市区町村名（ローマ字）例: "NERIMA KU"、"SAPPORO SHI CHUO KU"、"ABUTA GUN TOYAKO CHO"
+ */
+function loadMunicipalityRomaji(): Map<string, string> {
+  const mapping = new Map<string, string>();
+  if (!fs.existsSync(ZIP_CSV_PATH)) {
+    console.warn(`⚠️ ${ZIP_CSV_PATH} がないため、regions.json の romaji だけで照合します`);
+    console.warn('⚠️ 取得方法: https://www.post.japanpost.jp/zipcode/dl/roman-zip.html（scripts/build-area-map.ts を参照）');
+    return mapping;
+  }
+
+  // 日本郵便のデータはShift_JIS
+  const csvData = new TextDecoder('shift_jis').decode(fs.readFileSync(ZIP_CSV_PATH));
+  for (const line of csvData.split('\n')) {
+    const columns = line.trim().split(',').map((col) => col.replace(/^"|"$/g, '').trim());
+    if (columns.length < 7) continue;
+
+    const kanjiParts = columns[2].split(/[\s　]+/);
+    const romanParts = columns[5].split(/(?<=\s(?:SHI|KU|GUN|MACHI|CHO|MURA|SON))\s+/);
+    if (kanjiParts.length !== romanParts.length) continue;
+
+    // 政令指定都市と区（"札幌市　中央区"）はどちらも登録する。郡名は登録しない
+    kanjiParts.forEach((kanji, i) => {
+      if (!MUNICIPALITY_SUFFIX_PATTERN.test(kanji)) return;
+      const name = kanji.replace(MUNICIPALITY_SUFFIX_PATTERN, '');
+      const romaji = romanParts[i].replace(ROMAN_SUFFIX_PATTERN, '').toLowerCase().replace(/[^a-z]/g, '');
+      if (name && romaji && !mapping.has(name)) {
+        mapping.set(name, romaji);
+      }
+    });
+  }
+
+  console.log(`✓ 日本郵便のデータから ${mapping.size} 市区町村のローマ字を取得`);
+  return mapping;
+}
+
+/**
+ * 照合用にローマ字を揃える（撥音の m/n、記号）
+ */
+function normalizeRomaji(romaji: string): string {
+  return romaji.toLowerCase().replace(/[^a-z]/g, '').replace(/m(?=[bmp])/g, 'n');
+}
+
+/**
+ * 読みから考えられるローマ字表記
+ * そのままの表記（"toyoura"）、長音を省いた表記（"toukyou" → "tokyo"）、
+ * 長音符付きの文字が削られた表記（"oomiya" → "miya"、"niikappu" → "nkappu"）
+ */
+function getReadingRomajiForms(reading: string): string[] {
+  const romaji = convertKanaToRomaji(reading).normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+  return [
+    romaji,
+    romaji.replace(/ou|oo/g, 'o').replace(/uu/g, 'u'),
+    romaji.replace(/ou|oo|uu|aa|ii|ee/g, ''),
+  ].map(normalizeRomaji);
+}
+
+/**
+ * 辞書の読みの組み合わせから、期待するローマ字に一致する読みを探す（見つからなければ null）
+ * 長い語の読みを優先し、2語目以降は連濁・語の間の「の」「が」も試す
+ * ローマ字の先頭と一致しない組み合わせはその時点で打ち切る
+ */
+function findDictionaryReading(dictionary: KuromojiDictionary, name: string, expected: string[]): string | null {
+  const targets = expected.map(normalizeRomaji);
+  const candidatesAt = new Map<number, { length: number; readings: string[] }[]>();
+
+  // name の位置 index から始まる語とその読み（辞書にない仮名はその文字のまま）
+  const getCandidates = (index: number) => {
+    let candidates = candidatesAt.get(index);
+    if (candidates) return candidates;
+
+    candidates = [];
+    const rest = name.slice(index);
+    for (const match of dictionary.viterbi_builder.trie.commonPrefixSearch(rest)) {
+      const readings = new Set<string>();
+      for (const id of dictionary.token_info_dictionary.target_map[match.v] || []) {
+        const reading = dictionary.token_info_dictionary.getFeatures(id).split(',')[8];
+        if (reading && reading !== '*') {
+          readings.add(toHiragana(reading));
+        }
+      }
+      candidates.push({ length: match.k.length, readings: [...readings] });
+    }
+    if (/^[ぁ-ゖァ-ヴー]/.test(rest)) {
+      candidates.push({ length: 1, readings: [toHiragana(rest[0])] });
+    }
+    // 「々」は直前の語の読みを繰り返す（"野々" → のの）
+    if (rest[0] === '々') {
+      candidates.push({ length: 1, readings: ['々'] });
+    }
+
+    candidates.sort((a, b) => b.length - a.length);
+    candidatesAt.set(index, candidates);
+    return candidates;
+  };
+
+  const search = (index: number, reading: string): string | null => {
+    if (!reading.includes('々')) {
+      const forms = getReadingRomajiForms(reading);
+      if (!forms.some((form) => targets.some((target) => target.startsWith(form.slice(0, -1))))) return null;
+    }
+    if (index === name.length) {
+      const resolved = reading.replace(/(.)々/g, '$1$1');
+      if (!/^[ぁ-ゖー]+$/.test(resolved)) return null;
+      return getReadingRomajiForms(resolved).some((form) => targets.includes(form)) ? resolved : null;
+    }
+
+    for (const { length, readings } of getCandidates(index)) {
+      for (const word of readings) {
+        const variants = index === 0 ? [word] : [word, ...(VOICED_KANA[word[0]] || []).map((kana) => kana + word.slice(1))];
+        for (const variant of variants) {
+          for (const link of index === 0 ? [''] : READING_LINKS) {
+            const found = search(index + length, reading + link + variant);
+            if (found) return found;
+          }
+        }
+      }
+    }
+    return null;
+  };
+
+  return search(0, '');
+}
+
+async function main() {
+  const force = process.argv.includes('--force');
+
+  console.log('🚀 regions.json の読みの生成を開始...\n');
+
+  // Step 1: regions.jsonを読み込み
+  console.log('📖 Step 1: regions.jsonを読み込み中...');
+  const regionsData: Record<string, RegionData> = JSON.parse(fs.readFileSync(REGIONS_PATH, 'utf-8'));
+  console.log(`✓ ${Object.keys(regionsData).length}エントリ\n`);
+
+  // Step 2: 日本郵便のローマ字
+  console.log('📮 Step 2: 市区町村名のローマ字を取得中...');
+  const municipalityRomaji = loadMunicipalityRomaji();
+  console.log('');
+
+  // Step 3: Kuroshiro初期化
+  console.log('📚 Step 3: Kuroshiroを初期化中...');
+  const kuroshiro = await initKuroshiro();
+  const dictionary: KuromojiDictionary = kuroshiro._analyzer._analyzer;
+  console.log('');
+
+  // Step 4: 読みの生成と照合
+  console.log('🔤 Step 4: 読みを生成中...');
+  let addedCount = 0;
+  let dictionaryCount = 0;
+  let skippedCount = 0;
+  const unverified: UnverifiedReading[] = [];
+
+  for (const [name, region] of Object.entries(regionsData)) {
+    if (region.kana && !force) {
+      skippedCount++;
+      continue;
+    }
+
+    // 「ヶ」「ヵ」は地名では「が」「か」と読む（"外ヶ浜" → そとがはま）
+    const reading = toHiragana(await convertToHiragana(name)).replace(/ヶ/g, 'が').replace(/ヵ/g, 'か');
+    const expected = [municipalityRomaji.get(name), region.romaji].filter(Boolean) as string[];
+    const forms = /^[ぁ-ゖー]+$/.test(reading) ? getReadingRomajiForms(reading) : [];
+
+    if (expected.some((romaji) => forms.includes(normalizeRomaji(romaji)))) {
+      region.kana = reading;
+      addedCount++;
+      continue;
+    }
+
+    const dictionaryReading = findDictionaryReading(dictionary, name.replace(/ヶ/g, 'が').replace(/ヵ/g, 'か'), expected);
+    if (dictionaryReading) {
+      region.kana = dictionaryReading;
+      dictionaryCount++;
+    } else {
+      unverified.push({ name, reading, expected });
+    }
+  }
+
+  console.log(`✓ 追加: ${addedCount + dictionaryCount}件（辞書の別の読み: ${dictionaryCount}件） / スキップ（読みあり）: ${skippedCount}件 / 照合できず: ${unverified.length}件\n`);
+
+  // Step 5: 保存
+  console.log('💾 Step 5: 保存中...');
+  fs.writeFileSync(REGIONS_PATH, JSON.stringify(regionsData, null, 2), 'utf-8');
+  console.log(`✓ ${REGIONS_PATH}`);
+
+  if (!fs.existsSync(TEMP_DIR)) {
+    fs.mkdirSync(TEMP_DIR, { recursive: true });
+  }
+  fs.writeFileSync(UNVERIFIED_PATH, JSON.stringify(unverified, null, 2), 'utf-8');
+  console.log(`✓ ${UNVERIFIED_PATH}`);
+
+  if (unverified.length > 0) {
+    console.log('\n⚠️ 照合できなかった地域（読みは追加していません。regions.json に kana を手動で追加してください）:');
+    for (const entry of unverified.slice(0, 20)) {
+      console.log(`  ${entry.name}: "${entry.reading}"（期待値: ${entry.expected.join(' / ') || 'なし'}）`);
+    }
+    if (unverified.length > 20) {
+      console.log(`  ...他 ${unverified.length - 20}件`);
+    }
+  }
+
+  console.log('\n✅ 完了!');
+}
+
+main().catch((error) => {
+  console.error('❌ エラーが発生しました:', error);
+  process.exit(1);
+});
@@ -11,6 +11,7 @@ import https from 'https';
 import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import type { RegionData } from '../app/utils/regionRegistry';
 
 // ES moduleで__dirnameを使用するための設定
 const __filename = fileURLToPath(import.meta.url);
@@ -25,17 +26,6 @@ const MUNICIPALITIES_PATH = path.join(__dirname, '../app/utils/data/municipaliti
 // 出力先のregions.jsonのパス
 const OUTPUT_PATH = path.join(__dirname, '../app/utils/data/regions.json');
 
-// RegionData型定義
-interface RegionData {
-  romaji: string;
-  type: 'municipality' | 'station' | 'area';
-  priority: 1 | 2 | 3 | 4 | 5;
-  prefecture?: string;
-  lat?: number;
-  lon?: number;
-  lineIds?: string[];
-}
-
 // StationData型定義（piuccio/open-data-jp-railway-stations形式）
 interface StationInfo {
   code: string;
@@ -223,6 +213,7 @@ async function main() {
   console.log('🚉 駅データを処理中...');
   let stationCount = 0;
   let skippedCount = 0;
+  let duplicateCount = 0;
   let kuromojiConvertedCount = 0;
 
   // Kuroshiro初期化（最初の1回のみ）
@@ -272,6 +263,13 @@ async function main() {
     const lineCount = station.ekidata_line_ids?.length || 0;
     const priority = calculatePriority(station.prefecture, lineCount);
 
+    // 同名の駅は優先度の高い（主要な）駅を残す（"大宮" をさいたま市の大宮駅にする）
+    const existing = regionsData[stationName];
+    if (existing?.type === 'station' && existing.priority <= priority) {
+      duplicateCount++;
+      continue;
+    }
+
     // 【変更】優先度4-5も含める（北長岡駅などマイナー駅も対応）
     // データ量増加を許容して全駅を追加
 
@@ -300,6 +298,7 @@ async function main() {
   }
 
   console.log(`✅ 駅データ追加完了: ${stationCount}駅追加（${skippedCount}駅スキップ）`);
+  console.log(`   - 同名の駅（優先度が低いため除外）: ${duplicateCount}駅`);
   console.log(`   - Kuroshiro変換: ${kuromojiConvertedCount}駅\n`);
 
   // Step 6: regions.jsonを出力
@@ -0,0 +1,267 @@
+/**
+ * キャッシュ管理CLI
+ * 管理API（/api/admin/cache）と同じ操作をKVに対して直接実行する
+ *
+ * 使い方:
+ *   npx tsx scripts/cache-admin.ts list [--namespace=search] [--pattern=*練馬*] [--limit=20]
+ *   npx tsx scripts/cache-admin.ts inspect <key>
+ *   npx tsx scripts/cache-admin.ts purge --pattern=<glob> [--namespace=description] [--dry-run] [--reason=...]
+ *   npx tsx scripts/cache-admin.ts purge --place-id=<placeId> [--full-scan] [--include-identity] [--dry-run] [--reason=...]
+ *   npx tsx scripts/cache-admin.ts refs --place-id=<placeId> [--full-scan]
+ *   npx tsx scripts/cache-admin.ts invalidate --place-id=<placeId> --mode=purge|patch [--name=...] [--address=...] [--phone=...] [--website=...] [--dry-run]
+ *   npx tsx scripts/cache-admin.ts audit [--limit=20]
+ *   npx tsx scripts/cache-admin.ts slugs --place-id=<placeId>
+ *   npx tsx scripts/cache-admin.ts unresolved-slugs [--limit=20]
+ *
+ * 操作者は --actor で指定（未指定時はOSのユーザー名）。削除は監査ログに記録される
+ * 施設の識別子（slug: / prefix: / slugs: / shortid:）は --include-identity を指定した場合のみ削除する
+ */
+
+import * as dotenv from 'dotenv';
+import * as os from 'os';
+
+// 環境変数読み込み（cacheモジュールの読み込み前に行う）
+dotenv.config({ path: '.env.local' });
+
+function getFlag(args: string[], name: string): string | undefined {
+  const flag = args.find(arg => arg.startsWith(`--${name}=`));
+  return flag ? flag.substring(name.length + 3) : undefined;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes}B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)}KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)}MB`;
+}
+
+function printUsage() {
+  console.log('Usage:');
+  console.log('  npx tsx scripts/cache-admin.ts list [--namespace=search] [--pattern=*] [--limit=20]');
+  console.log('  npx tsx scripts/cache-admin.ts inspect <key>');
+  console.log('  npx tsx scripts/cache-admin.ts purge (--pattern=<glob> [--namespace=<ns>] | --place-id=<placeId> [--full-scan]) [--include-identity] [--dry-run] [--reason=...] [--actor=...]');
+  console.log('  npx tsx scripts/cache-admin.ts refs --place-id=<placeId> [--full-scan]');
+  console.log('  npx tsx scripts/cache-admin.ts invalidate --place-id=<placeId> --mode=purge|patch [--name=...] [--address=...] [--phone=...] [--website=...] [--dry-run] [--reason=...]');
+  console.log('  npx tsx scripts/cache-admin.ts audit [--limit=20]');
+  console.log('  npx tsx scripts/cache-admin.ts slugs --place-id=<placeId>');
+  console.log('  npx tsx scripts/cache-admin.ts unresolved-slugs [--limit=20]');
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+
+  if (!command || command === 'help' || command === '--help') {
+    printUsage();
+    return;
+  }
+
+  if (!process.env.KV_REST_API_URL || !process.env.KV_REST_API_TOKEN) {
+    console.error('❌ エラー: KV_REST_API_URL または KV_REST_API_TOKEN が設定されていません');
+    console.error('');
+    console.error('以下のコマンドで環境変数を取得してください：');
+    console.error('  vercel env pull .env.local --yes');
+    process.exit(1);
+  }
+
+  const {
+    findKeysForPlaceId,
+    inspectCacheEntry,
+    invalidateFacility,
+    isCacheNamespace,
+    listAuditLog,
+    listCacheKeys,
+    purgeCache,
+  } = await import('../app/utils/cacheAdmin');
+  const { getSlugRecord, listUnresolvedSlugs } = await import('../app/utils/slugRegistry');
+
+  const namespace = getFlag(args, 'namespace');
+  if (namespace && !isCacheNamespace(namespace)) {
+    console.error(`❌ 不明な名前空間: ${namespace}`);
+    process.exit(1);
+  }
+
+  switch (command) {
+    case 'list': {
+      const limit = parseInt(getFlag(args, 'limit') || '20', 10);
+      const listing = await listCacheKeys({
+        namespace: namespace && isCacheNamespace(namespace) ? namespace : undefined,
+        pattern: getFlag(args, 'pattern'),
+        limit,
+      });
+
+      console.log(`=== キャッシュキー一覧 (pattern: ${listing.pattern}) ===\n`);
+      for (const ns of listing.namespaces) {
+        console.log(`📦 ${ns.namespace}: ${ns.count}件 / ${formatBytes(ns.totalBytes)}`);
+        ns.keys.forEach(({ key, bytes }) => console.log(`    ${key} (${formatBytes(bytes)})`));
+        if (ns.count > ns.keys.length) {
+          console.log(`    ... 他${ns.count - ns.keys.length}件`);
+        }
+      }
+      console.log(`\n合計: ${listing.totalCount}件 / ${formatBytes(listing.totalBytes)}`);
+      break;
+    }
+
+    case 'inspect': {
+      const key = args.find(arg => !arg.startsWith('--'));
+      if (!key) {
+        printUsage();
+        process.exit(1);
+      }
+      const entry = await inspectCacheEntry(key);
+      if (!entry.exists) {
+        console.log(`⚠️  キーが存在しません: ${key}`);
+        process.exit(1);
+      }
+      console.log(`🔑 ${entry.key}`);
+      console.log(`   サイズ: ${formatBytes(entry.bytes)}`);
+      console.log(`   TTL: ${entry.ttlSeconds === null ? '無期限' : `${entry.ttlSeconds}秒`}`);
+      console.log(JSON.stringify(entry.value, null, 2));
+      break;
+    }
+
+    case 'purge': {
+      const pattern = getFlag(args, 'pattern');
+      const placeId = getFlag(args, 'place-id');
+      if (!pattern && !placeId) {
+        printUsage();
+        process.exit(1);
+      }
+
+      const result = await purgeCache({
+        pattern,
+        placeId,
+        namespace: namespace && isCacheNamespace(namespace) ? namespace : undefined,
+        fullScan: args.includes('--full-scan'),
+        includeIdentity: args.includes('--include-identity'),
+        dryRun: args.includes('--dry-run'),
+        actor: getFlag(args, 'actor') || `cli:${os.userInfo().username}`,
+        reason: getFlag(args, 'reason'),
+      });
+
+      console.log(result.dryRun ? '=== 削除対象（dry-run: 削除は行いません）===\n' : '=== キャッシュ削除 ===\n');
+      for (const [ns, keys] of Object.entries(result.matched)) {
+        console.log(`📦 ${ns}: ${keys!.length}件`);
+        keys!.slice(0, 20).forEach(key => console.log(`    ${key}`));
+        if (keys!.length > 20) {
+          console.log(`    ... 他${keys!.length - 20}件`);
+        }
+      }
+      console.log(`\n✅ 対象: ${result.matchedCount}件 / 削除: ${result.deletedCount}件`);
+      console.log(`📝 監査ログ: ${result.auditId || '記録失敗'}`);
+      break;
+    }
+
+    case 'refs': {
+      const placeId = getFlag(args, 'place-id');
+      if (!placeId) {
+        printUsage();
+        process.exit(1);
+      }
+      const found = await findKeysForPlaceId(placeId, { fullScan: args.includes('--full-scan') });
+      console.log(`=== ${placeId} に関係するキャッシュ ===\n`);
+      const entries = Object.entries(found);
+      if (entries.length === 0) {
+        console.log('⚠️  関係するキャッシュはありません');
+      }
+      for (const [ns, keys] of entries) {
+        console.log(`📦 ${ns}: ${keys!.length}件`);
+        keys!.forEach(key => console.log(`    ${key}`));
+      }
+      break;
+    }
+
+    case 'invalidate': {
+      const placeId = getFlag(args, 'place-id');
+      const mode = getFlag(args, 'mode');
+      if (!placeId || (mode !== 'purge' && mode !== 'patch')) {
+        printUsage();
+        process.exit(1);
+      }
+
+      const result = await invalidateFacility({
+        placeId,
+        mode,
+        patch: {
+          name: getFlag(args, 'name'),
+          address: getFlag(args, 'address'),
+          phone: getFlag(args, 'phone'),
+          website: getFlag(args, 'website'),
+        },
+        fullScan: args.includes('--full-scan'),
+        dryRun: args.includes('--dry-run'),
+        actor: getFlag(args, 'actor') || `cli:${os.userInfo().username}`,
+        reason: getFlag(args, 'reason'),
+      });
+
+      console.log(result.dryRun ? '=== 無効化対象（dry-run: 変更は行いません）===\n' : '=== 施設キャッシュの無効化 ===\n');
+      console.log(`🗑️  削除: ${result.deleted.length}件`);
+      result.deleted.forEach(key => console.log(`    ${key}`));
+      console.log(`✏️  訂正: ${result.patched.length}件`);
+      result.patched.forEach(key => console.log(`    ${key}`));
+      if (!result.dryRun && result.slugs.length > 0) {
+        console.log('\n⚠️  詳細ページ（ISR）は最大1時間キャッシュされます。即時反映には管理APIを使用してください');
+      }
+      console.log(`📝 監査ログ: ${result.auditId || '記録失敗'}`);
+      break;
+    }
+
+    case 'audit': {
+      const entries = await listAuditLog(parseInt(getFlag(args, 'limit') || '20', 10));
+      if (entries.length === 0) {
+        console.log('監査ログはありません');
+        break;
+      }
+      for (const entry of entries) {
+        const target = Object.entries(entry.target)
+          .filter(([, value]) => value !== undefined)
+          .map(([name, value]) => `${name}=${value}`)
+          .join(' ');
+        console.log(`${entry.at} ${entry.actor} ${entry.action}${entry.dryRun ? ' (dry-run)' : ''} ${target} → ${entry.deletedCount}/${entry.matchedCount}件${entry.reason ? ` 「${entry.reason}」` : ''}`);
+      }
+      break;
+    }
+
+    case 'slugs': {
+      const placeId = getFlag(args, 'place-id');
+      if (!placeId) {
+        printUsage();
+        process.exit(1);
+      }
+      const record = await getSlugRecord(placeId);
+      console.log(`=== ${placeId} に発行したslug ===\n`);
+      console.log(`🔖 正規: /detail/${record?.path || `${placeId.replace(/^places\//, '')}（読めるURLは未発行）`}`);
+      if (!record || record.slugs.length === 0) {
+        console.log('⚠️  発行したslugは記録されていません');
+        break;
+      }
+      for (const entry of record.slugs) {
+        const note = entry.slug === record.path ? '' : '（→ 正規URLへリダイレクト）';
+        console.log(`    ${new Date(entry.issuedAt).toISOString()} /detail/${entry.slug}${note}`);
+      }
+      break;
+    }
+
+    case 'unresolved-slugs': {
+      const { total, slugs } = await listUnresolvedSlugs(parseInt(getFlag(args, 'limit') || '20', 10));
+      if (total === 0) {
+        console.log('解決できなかったslugはありません');
+        break;
+      }
+      console.log(`=== 解決できなかったslug（${total}件、アクセス回数の多い順）===\n`);
+      for (const entry of slugs) {
+        console.log(`${String(entry.hits).padStart(5)}回 /detail/${entry.slug}（最終: ${new Date(entry.lastSeenAt).toISOString()}）`);
+        entry.referers.forEach(referer => console.log(`        ← ${referer}`));
+      }
+      break;
+    }
+
+    default:
+      console.error(`❌ 不明なコマンド: ${command}\n`);
+      printUsage();
+      process.exit(1);
+  }
+}
+
+main().catch(error => {
+  console.error('致命的エラー:', error);
+  process.exit(1);
+});
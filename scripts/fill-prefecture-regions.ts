@@ -0,0 +1,80 @@
+/**
+ * regions.jsonの市区町村の都道府県コード欠損を補完するスクリプト
+ *
+ * 目的: add-prefecture-to-municipalities.ts で推定できなかった町村（503件）の都道府県コードを埋める
+ *
+ * municipalities.json は全国地方公共団体コード順（都道府県ごとに市 → 町村の順）に並んでいるため、
+ * 並び順に沿って都道府県コードが単調増加になるよう既知のコードを当てはめ（一致しないコードが最少になる並び）、
+ * コードのない市区町村は直前の市区町村と同じ都道府県とする（町村は同じ都道府県の市の後に続く）
+ *
+ * 外部データは使わない（オフラインで実行可能）
+ *
+ * 実行: npx tsx scripts/fill-prefecture-regions.ts
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { fitMonotonicPrefectures, type RegionData } from '../app/utils/regionRegistry';
+
+// ES moduleで__dirnameを使用するための設定
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const REGIONS_PATH = path.join(__dirname, '../app/utils/data/regions.json');
+const MUNICIPALITIES_PATH = path.join(__dirname, '../app/utils/data/municipalities.json');
+
+/**
+ * メイン処理
+ */
+async function main() {
+  console.log('🚀 regions.json の都道府県コード補完を開始します...\n');
+
+  // Step 1: データ読み込み
+  const regionsData: Record<string, RegionData> = JSON.parse(fs.readFileSync(REGIONS_PATH, 'utf-8'));
+  const municipalityNames = Object.keys(JSON.parse(fs.readFileSync(MUNICIPALITIES_PATH, 'utf-8')));
+  console.log(`✅ regions.json: ${Object.keys(regionsData).length}エントリ / municipalities.json: ${municipalityNames.length}市区町村\n`);
+
+  const names = municipalityNames.filter((name) => regionsData[name]);
+  const missing = names.filter((name) => !regionsData[name].prefecture);
+  console.log(`📊 都道府県コードのない市区町村: ${missing.length}件`);
+  if (missing.length === 0) {
+    console.log('✅ すべての市区町村に都道府県コードが設定されています！');
+    return;
+  }
+
+  // Step 2: 並び順に沿って都道府県コードを当てはめ
+  const labels = names.map((name) => parseInt(regionsData[name].prefecture || '0', 10));
+  const fitted = fitMonotonicPrefectures(labels);
+  const conflicts = labels.filter((label, i) => label && label !== fitted[i]).length;
+  console.log(`📐 並び順と一致しない既存コード: ${conflicts}件（同名の別地域の駅など、既存コードは変更しない）\n`);
+
+  // Step 3: コードのない市区町村は直前の市区町村の都道府県
+  const counts: Record<string, number> = {};
+  let previous = 1;
+  names.forEach((name, i) => {
+    if (labels[i]) {
+      previous = fitted[i];
+      return;
+    }
+    const code = String(previous).padStart(2, '0');
+    regionsData[name].prefecture = code;
+    counts[code] = (counts[code] || 0) + 1;
+  });
+
+  for (const [code, count] of Object.entries(counts).sort()) {
+    console.log(`   ${code}: ${count}件`);
+  }
+
+  // Step 4: 保存
+  fs.writeFileSync(REGIONS_PATH, JSON.stringify(regionsData, null, 2), 'utf-8');
+  console.log(`\n✅ regions.json保存完了: ${REGIONS_PATH}`);
+  console.log(`   補完件数: ${missing.length}件`);
+  console.log('\n🎉 都道府県コードの補完が完了しました！');
+}
+
+// スクリプト実行
+main().catch((error) => {
+  console.error('❌ エラーが発生しました:', error);
+  process.exit(1);
+});
@@ -15,6 +15,7 @@ import https from 'https';
 import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import type { RegionData } from '../app/utils/regionRegistry';
 
 // ES moduleで__dirnameを使用するための設定
 const __filename = fileURLToPath(import.meta.url);
@@ -26,17 +27,6 @@ const REGIONS_PATH = path.join(__dirname, '../app/utils/data/regions.json');
 // 駅データのGitHub URL（元データ取得用）
 const STATIONS_DATA_URL = 'https://raw.githubusercontent.com/piuccio/open-data-jp-railway-stations/master/stations.json';
 
-// RegionData型定義
-interface RegionData {
-  romaji: string;
-  type: 'municipality' | 'station' | 'area';
-  priority: 1 | 2 | 3 | 4 | 5;
-  prefecture?: string;
-  lat?: number;
-  lon?: number;
-  lineIds?: string[];
-}
-
 // StationData型定義（piuccio/open-data-jp-railway-stations形式）
 interface StationInfo {
   code: string;
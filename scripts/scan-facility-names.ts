@@ -64,7 +64,7 @@ async function main() {
     console.log('\n=== Delete Commands ===');
     for (const [key] of foundKeys) {
       const placeId = key.replace('description:', '');
-      console.log(`npx tsx scripts/clear-cache-specific.ts ${placeId}`);
+      console.log(`npx tsx scripts/cache-admin.ts purge --place-id=${placeId} --dry-run`);
     }
   }
 }
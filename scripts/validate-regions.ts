@@ -0,0 +1,48 @@
+/**
+ * regions.json の検証スクリプト
+ * 空のromaji・都道府県コードの欠損・読みのない地域などのエラーがあれば終了コード1で終了する
+ * （データ生成スクリプトの実行後に確認する。next build でも同じ検証が行われる）
+ *
+ * 実行: npx tsx scripts/validate-regions.ts [--warnings]
+ *   --warnings: 警告（座標のない駅・romajiの重複）も一覧表示
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { validateRegionsData, type RegionData } from '../app/utils/regionRegistry';
+
+// ES moduleで__dirnameを使用するための設定
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const REGIONS_PATH = path.join(__dirname, '../app/utils/data/regions.json');
+
+function main() {
+  const showWarnings = process.argv.includes('--warnings');
+
+  console.log('🔍 regions.json を検証中...');
+  const regionsData: Record<string, RegionData> = JSON.parse(fs.readFileSync(REGIONS_PATH, 'utf-8'));
+  const issues = validateRegionsData(regionsData);
+  const errors = issues.filter((issue) => issue.level === 'error');
+  const warnings = issues.filter((issue) => issue.level === 'warning');
+
+  console.log(`📊 ${Object.keys(regionsData).length}エントリ: エラー ${errors.length}件 / 警告 ${warnings.length}件\n`);
+
+  for (const issue of errors) {
+    console.error(`❌ ${issue.name} [${issue.field}] ${issue.message}`);
+  }
+  if (showWarnings) {
+    for (const issue of warnings) {
+      console.warn(`⚠️ ${issue.name} [${issue.field}] ${issue.message}`);
+    }
+  }
+
+  if (errors.length > 0) {
+    console.error(`\n❌ 検証に失敗しました（エラー ${errors.length}件）`);
+    process.exit(1);
+  }
+  console.log('✅ 検証に成功しました');
+}
+
+main();
@@ -0,0 +1,102 @@
+/**
+ * 検索キャッシュのウォーミングCLI
+ * regions.json の地域を優先度 → 都道府県の順に検索し、KVの検索キャッシュを事前に埋める
+ * （管理API /api/admin/warm-cache と同じ処理）
+ *
+ * 使い方:
+ *   npx tsx scripts/warm-cache.ts [--max-priority=3] [--prefecture=13,14] [--concurrency=2]
+ *                                 [--budget=100] [--limit=20] [--restart] [--dry-run]
+ *   npx tsx scripts/warm-cache.ts --coverage [--max-priority=3]
+ *
+ * - 進捗はKVに保存されるため、中断しても同じオプションで再実行すれば続きから再開する
+ * - 1日の検索回数は --budget（未指定時は WARM_DAILY_BUDGET、既定100）まで
+ */
+
+import * as dotenv from 'dotenv';
+
+// 環境変数読み込み（cacheモジュールの読み込み前に行う）
+dotenv.config({ path: '.env.local' });
+
+function getFlag(args: string[], name: string): string | undefined {
+  const flag = args.find(arg => arg.startsWith(`--${name}=`));
+  return flag ? flag.substring(name.length + 3) : undefined;
+}
+
+function getNumberFlag(args: string[], name: string): number | undefined {
+  const value = getFlag(args, name);
+  if (value === undefined) return undefined;
+  const parsed = parseInt(value, 10);
+  if (isNaN(parsed)) {
+    console.error(`❌ --${name} には数値を指定してください`);
+    process.exit(1);
+  }
+  return parsed;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  if (!process.env.KV_REST_API_URL || !process.env.KV_REST_API_TOKEN) {
+    console.error('❌ エラー: KV_REST_API_URL または KV_REST_API_TOKEN が設定されていません');
+    console.error('');
+    console.error('以下のコマンドで環境変数を取得してください：');
+    console.error('  vercel env pull .env.local --yes');
+    process.exit(1);
+  }
+
+  const { getWarmingCoverage, runCacheWarming } = await import('../app/utils/cacheWarmer');
+  const maxPriority = getNumberFlag(args, 'max-priority');
+
+  if (args.includes('--coverage')) {
+    const coverage = await getWarmingCoverage(maxPriority);
+    console.log(`=== 検索キャッシュのカバレッジ（優先度${coverage.maxPriority}以下）===\n`);
+    for (const pref of coverage.prefectures) {
+      const bar = '█'.repeat(Math.round(pref.coverage * 20)).padEnd(20, '░');
+      console.log(`${pref.code} ${pref.name.padEnd(5, '　')} ${bar} ${(pref.coverage * 100).toFixed(1).padStart(5)}% (${pref.cached}/${pref.total})`);
+    }
+    console.log(`\n合計: ${(coverage.coverage * 100).toFixed(1)}% (${coverage.cached}/${coverage.total})`);
+    return;
+  }
+
+  if (!process.env.VITE_GEMINI_API_KEY) {
+    console.error('❌ エラー: VITE_GEMINI_API_KEY が設定されていません');
+    process.exit(1);
+  }
+
+  const prefectureFlag = getFlag(args, 'prefecture');
+  const summary = await runCacheWarming({
+    maxPriority,
+    prefectures: prefectureFlag ? prefectureFlag.split(',').map(code => code.trim().padStart(2, '0')) : undefined,
+    concurrency: getNumberFlag(args, 'concurrency'),
+    dailyBudget: getNumberFlag(args, 'budget'),
+    maxRequests: getNumberFlag(args, 'limit'),
+    restart: args.includes('--restart'),
+    dryRun: args.includes('--dry-run'),
+  });
+
+  const { progress, budget, thisRun } = summary;
+  console.log('\n=== ウォーミング結果 ===');
+  console.log(`📋 プラン: ${progress.planId}`);
+  console.log(`📍 進捗: ${progress.cursor}/${progress.total}件 (${((progress.cursor / Math.max(progress.total, 1)) * 100).toFixed(1)}%)`);
+  console.log(`✅ 今回: 取得 ${thisRun.warmed}件 / スキップ ${thisRun.skipped}件 / 失敗 ${thisRun.failed}件`);
+  console.log(`💰 本日の予算: ${budget.used}/${budget.limit}件 (${budget.date})`);
+  console.log(`⏹️  停止理由: ${summary.stoppedBy}`);
+
+  if (summary.dryRun && summary.pending) {
+    console.log(`\n🔍 検索が必要な地域（dry-run、${summary.pending.length}件）:`);
+    summary.pending.slice(0, 50).forEach(name => console.log(`    ${name}`));
+    if (summary.pending.length > 50) {
+      console.log(`    ... 他${summary.pending.length - 50}件`);
+    }
+  }
+
+  if (progress.failures.length > 0) {
+    console.log('\n❌ 直近の失敗:');
+    progress.failures.slice(-10).forEach(failure => console.log(`  - ${failure.name}: ${failure.error}`));
+  }
+}
+
+main().catch(error => {
+  console.error('致命的エラー:', error);
+  process.exit(1);
+});